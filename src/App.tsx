@@ -1,30 +1,92 @@
-import { useState } from "react";
-import { TicketWithRelations } from "./lib/supabase";
+import { useState, useEffect } from "react";
 import Dashboard from "./components/Dashboard";
 import TicketList from "./components/TicketList";
+import TicketBoard from "./components/TicketBoard";
 import TicketForm from "./components/TicketForm";
 import TicketDetail from "./components/TicketDetail";
 import Reports from "./components/Reports";
-import { LayoutDashboard, List, FileText, Plus } from "lucide-react";
+import ConnectionIndicator from "./components/ConnectionIndicator";
+import SignIn from "./components/SignIn";
+import AvailabilityToggle from "./components/AvailabilityToggle";
+import AssignmentRules from "./components/AssignmentRules";
+import EscalationPolicies from "./components/EscalationPolicies";
+import LookupAdmin from "./components/LookupAdmin";
+import CustomFieldsAdmin from "./components/CustomFieldsAdmin";
+import TemplatesAdmin from "./components/TemplatesAdmin";
+import MacroAdmin from "./components/MacroAdmin";
+import AutomationAdmin from "./components/AutomationAdmin";
+import WorkflowAdmin from "./components/WorkflowAdmin";
+import TicketNumbering from "./components/TicketNumbering";
+import NotificationTemplates from "./components/NotificationTemplates";
+import WebhookAdmin from "./components/WebhookAdmin";
+import { useAuth, isAgent, isAdmin, signOut } from "./lib/auth";
+import { useLocation, matchRoute, navigate, goBack } from "./lib/router";
+import {
+  LayoutDashboard,
+  List,
+  Kanban,
+  FileText,
+  Plus,
+  LogOut,
+  Settings,
+} from "lucide-react";
 
 function App() {
-  const [activeTab, setActiveTab] = useState<
-    "dashboard" | "tickets" | "reports"
-  >("dashboard");
+  const { session, profile, loading } = useAuth();
+  const location = useLocation();
   const [showTicketForm, setShowTicketForm] = useState(false);
-  const [selectedTicket, setSelectedTicket] =
-    useState<TicketWithRelations | null>(null);
-  const [refreshTrigger, setRefreshTrigger] = useState(0);
 
-  const handleTicketCreated = () => {
-    setRefreshTrigger((prev) => prev + 1);
-  };
+  const route = matchRoute(location.pathname);
+  const agent = isAgent(profile);
+  const admin = isAdmin(profile);
+  const currentTab = route.name === "ticket" ? "tickets" : route.name;
+  const openTicketNumber =
+    route.name === "ticket" || route.name === "board"
+      ? route.ticketNumber
+      : undefined;
+  // Requesters only get their own ticket list; the dashboards are agent-only.
+  const allowed =
+    currentTab === "tickets" ||
+    (agent &&
+      (currentTab === "dashboard" ||
+        currentTab === "board" ||
+        currentTab === "reports")) ||
+    (admin && currentTab === "admin");
+  const homePath = agent ? "/dashboard" : "/tickets";
+
+  useEffect(() => {
+    if (!loading && session && !allowed) {
+      navigate(homePath, { replace: true });
+    }
+  }, [loading, session, allowed, homePath]);
 
-  const handleTicketUpdated = () => {
-    setRefreshTrigger((prev) => prev + 1);
-    setSelectedTicket(null);
+  // Closing a ticket returns to the list it was opened from, filters and
+  // all; a ticket opened straight from a link falls back to the list.
+  const closeTicket = () =>
+    goBack(`/${currentTab === "board" ? "board" : "tickets"}${location.search}`);
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate("/", { replace: true });
+    } catch (error) {
+      console.error("Error signing out:", error);
+      alert("Failed to sign out");
+    }
   };
 
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-gray-500">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <SignIn />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-100">
       <header className="bg-white shadow-sm border-b sticky top-0 z-40">
@@ -36,13 +98,32 @@ function App() {
                 Real-time ticket tracking & reporting
               </p>
             </div>
-            <button
-              onClick={() => setShowTicketForm(true)}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
-            >
-              <Plus size={20} />
-              New Ticket
-            </button>
+            <div className="flex items-center gap-6">
+              <ConnectionIndicator />
+              {agent && profile && <AvailabilityToggle profileId={profile.id} />}
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">
+                  {profile?.full_name || session.user.email}
+                </p>
+                <p className="text-xs text-gray-500 capitalize">
+                  {profile?.role ?? "requester"}
+                </p>
+              </div>
+              <button
+                onClick={handleSignOut}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                title="Sign out"
+              >
+                <LogOut size={20} />
+              </button>
+              <button
+                onClick={() => setShowTicketForm(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+              >
+                <Plus size={20} />
+                New Ticket
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -50,68 +131,104 @@ function App() {
       <nav className="bg-white border-b">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex space-x-8">
+            {agent && (
+              <button
+                onClick={() => navigate("/dashboard")}
+                className={`flex items-center gap-2 px-1 py-4 border-b-2 font-medium text-sm transition-colors ${
+                  currentTab === "dashboard"
+                    ? "border-blue-600 text-blue-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                }`}
+              >
+                <LayoutDashboard size={18} />
+                Dashboard
+              </button>
+            )}
             <button
-              onClick={() => setActiveTab("dashboard")}
-              className={`flex items-center gap-2 px-1 py-4 border-b-2 font-medium text-sm transition-colors ${
-                activeTab === "dashboard"
-                  ? "border-blue-600 text-blue-600"
-                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-              }`}
-            >
-              <LayoutDashboard size={18} />
-              Dashboard
-            </button>
-            <button
-              onClick={() => setActiveTab("tickets")}
+              onClick={() => navigate("/tickets")}
               className={`flex items-center gap-2 px-1 py-4 border-b-2 font-medium text-sm transition-colors ${
-                activeTab === "tickets"
+                currentTab === "tickets"
                   ? "border-blue-600 text-blue-600"
                   : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
               }`}
             >
               <List size={18} />
-              All Tickets
-            </button>
-            <button
-              onClick={() => setActiveTab("reports")}
-              className={`flex items-center gap-2 px-1 py-4 border-b-2 font-medium text-sm transition-colors ${
-                activeTab === "reports"
-                  ? "border-blue-600 text-blue-600"
-                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-              }`}
-            >
-              <FileText size={18} />
-              Reports
+              {agent ? "All Tickets" : "My Tickets"}
             </button>
+            {agent && (
+              <button
+                onClick={() => navigate("/board")}
+                className={`flex items-center gap-2 px-1 py-4 border-b-2 font-medium text-sm transition-colors ${
+                  currentTab === "board"
+                    ? "border-blue-600 text-blue-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                }`}
+              >
+                <Kanban size={18} />
+                Board
+              </button>
+            )}
+            {agent && (
+              <button
+                onClick={() => navigate("/reports")}
+                className={`flex items-center gap-2 px-1 py-4 border-b-2 font-medium text-sm transition-colors ${
+                  currentTab === "reports"
+                    ? "border-blue-600 text-blue-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                }`}
+              >
+                <FileText size={18} />
+                Reports
+              </button>
+            )}
+            {admin && (
+              <button
+                onClick={() => navigate("/admin")}
+                className={`flex items-center gap-2 px-1 py-4 border-b-2 font-medium text-sm transition-colors ${
+                  currentTab === "admin"
+                    ? "border-blue-600 text-blue-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                }`}
+              >
+                <Settings size={18} />
+                Admin
+              </button>
+            )}
           </div>
         </div>
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {activeTab === "dashboard" && (
-          <Dashboard refreshTrigger={refreshTrigger} />
-        )}
-        {activeTab === "tickets" && (
-          <TicketList
-            onTicketClick={setSelectedTicket}
-            refreshTrigger={refreshTrigger}
-          />
+        {allowed && currentTab === "dashboard" && <Dashboard />}
+        {allowed && currentTab === "tickets" && <TicketList />}
+        {allowed && currentTab === "board" && <TicketBoard />}
+        {allowed && currentTab === "reports" && <Reports />}
+        {allowed && currentTab === "admin" && (
+          <div className="space-y-6">
+            <LookupAdmin />
+            <CustomFieldsAdmin />
+            <WorkflowAdmin />
+            <TicketNumbering />
+            <TemplatesAdmin />
+            <MacroAdmin />
+            <AutomationAdmin />
+            <NotificationTemplates />
+            <WebhookAdmin />
+            <AssignmentRules />
+            <EscalationPolicies />
+          </div>
         )}
-        {activeTab === "reports" && <Reports refreshTrigger={refreshTrigger} />}
       </main>
 
       {showTicketForm && (
-        <TicketForm
-          onClose={() => setShowTicketForm(false)}
-          onSuccess={handleTicketCreated}
-        />
+        <TicketForm onClose={() => setShowTicketForm(false)} />
       )}
 
-      {selectedTicket && (
+      {allowed && openTicketNumber && (
         <TicketDetail
-          ticket={selectedTicket}
-          onClose={() => setSelectedTicket(null)}
-          onUpdate={handleTicketUpdated}
+          ticketNumber={openTicketNumber}
+          onClose={closeTicket}
+          onUpdate={closeTicket}
         />
       )}
     </div>
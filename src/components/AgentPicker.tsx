@@ -0,0 +1,112 @@
+import { useState, useEffect, useRef } from 'react';
+import { Agent } from '../lib/supabase';
+import { Search, ChevronDown, UserX } from 'lucide-react';
+
+interface AgentPickerProps {
+  agents: Agent[];
+  value: string | null;
+  onChange: (agentId: string | null) => void;
+  disabled?: boolean;
+}
+
+export default function AgentPicker({ agents, value, onChange, disabled }: AgentPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const selected = agents.find((agent) => agent.id === value) ?? null;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const term = search.trim().toLowerCase();
+  // Inactive agents can't take new work, but the current assignee stays listed.
+  const options = agents.filter(
+    (agent) =>
+      (agent.is_active || agent.id === value) &&
+      (!term ||
+        agent.name.toLowerCase().includes(term) ||
+        (agent.email ?? '').toLowerCase().includes(term) ||
+        agent.team.toLowerCase().includes(term))
+  );
+
+  const handleSelect = (agentId: string | null) => {
+    setOpen(false);
+    setSearch('');
+    if (agentId !== value) onChange(agentId);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="w-full flex items-center justify-between px-3 py-2 border border-gray-300 rounded-lg bg-white text-left focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+      >
+        <span className={selected ? 'text-gray-900' : 'text-gray-500'}>
+          {selected ? selected.name : 'Unassigned'}
+          {selected?.team && <span className="ml-2 text-xs text-gray-500">{selected.team}</span>}
+        </span>
+        <ChevronDown size={16} className="text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg">
+          <div className="relative p-2 border-b">
+            <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+            <input
+              type="text"
+              autoFocus
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search agents..."
+              className="w-full pl-8 pr-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <ul className="max-h-60 overflow-y-auto py-1 text-sm">
+            <li>
+              <button
+                type="button"
+                onClick={() => handleSelect(null)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-left text-gray-600 hover:bg-gray-50"
+              >
+                <UserX size={14} />
+                Unassigned
+              </button>
+            </li>
+            {options.map((agent) => (
+              <li key={agent.id}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(agent.id)}
+                  className={`w-full px-3 py-2 text-left hover:bg-gray-50 ${
+                    agent.id === value ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="font-medium text-gray-900">
+                    {agent.name}
+                    {!agent.is_active && <span className="ml-2 text-xs text-gray-400">(inactive)</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {[agent.email, agent.team].filter(Boolean).join(' · ')}
+                  </div>
+                </button>
+              </li>
+            ))}
+            {options.length === 0 && <li className="px-3 py-2 text-gray-500">No matching agents</li>}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
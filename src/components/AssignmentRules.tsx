@@ -0,0 +1,409 @@
+import { useState, useEffect } from 'react';
+import {
+  supabase,
+  Agent,
+  AssignmentLogEntry,
+  AssignmentRule,
+  AssignmentStrategy,
+  Category,
+} from '../lib/supabase';
+import { activeOptions } from '../lib/ticketSearch';
+import { Shuffle, Plus, Trash2, Pencil, X } from 'lucide-react';
+
+type LogEntryWithRelations = AssignmentLogEntry & {
+  tickets: { ticket_number: string } | null;
+  agents: { name: string } | null;
+};
+
+type RuleForm = {
+  name: string;
+  strategy: AssignmentStrategy;
+  category_id: string;
+  team: string;
+  agent_id: string;
+  position: number;
+  is_enabled: boolean;
+};
+
+const STRATEGY_LABELS: { [key in AssignmentStrategy]: string } = {
+  round_robin: 'Round-robin',
+  least_loaded: 'Least open tickets',
+  fixed: 'Fixed owner',
+};
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  strategy: 'round_robin',
+  category_id: '',
+  team: '',
+  agent_id: '',
+  position: 0,
+  is_enabled: true,
+};
+
+export default function AssignmentRules() {
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [log, setLog] = useState<LogEntryWithRelations[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<RuleForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    const [rulesRes, logRes, agentsRes, categoriesRes] = await Promise.all([
+      supabase.from('assignment_rules').select('*').order('position'),
+      supabase
+        .from('assignment_log')
+        .select('*, tickets (ticket_number), agents (name)')
+        .order('created_at', { ascending: false })
+        .limit(20),
+      supabase.from('agents').select('*').order('name'),
+      supabase.from('categories').select('*').order('position').order('name'),
+    ]);
+
+    if (rulesRes.data) setRules(rulesRes.data);
+    if (logRes.data) setLog(logRes.data);
+    if (agentsRes.data) setAgents(agentsRes.data);
+    if (categoriesRes.data) setCategories(categoriesRes.data);
+    setLoading(false);
+  };
+
+  const teams = [...new Set(agents.map((agent) => agent.team).filter(Boolean))].sort();
+
+  const openForm = (rule?: AssignmentRule) => {
+    setEditingId(rule?.id ?? null);
+    setFormData(
+      rule
+        ? {
+            name: rule.name,
+            strategy: rule.strategy,
+            category_id: rule.category_id ?? '',
+            team: rule.team,
+            agent_id: rule.agent_id ?? '',
+            position: rule.position,
+            is_enabled: rule.is_enabled,
+          }
+        : { ...EMPTY_FORM, position: rules.length }
+    );
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const values = {
+      ...formData,
+      category_id: formData.category_id || null,
+      agent_id: formData.strategy === 'fixed' ? formData.agent_id || null : null,
+    };
+
+    const { error } = editingId
+      ? await supabase.from('assignment_rules').update(values).eq('id', editingId)
+      : await supabase.from('assignment_rules').insert([values]);
+
+    if (error) {
+      console.error('Error saving assignment rule:', error);
+      alert('Failed to save assignment rule');
+    } else {
+      setShowForm(false);
+      loadData();
+    }
+    setSaving(false);
+  };
+
+  const handleToggle = async (rule: AssignmentRule) => {
+    const { error } = await supabase
+      .from('assignment_rules')
+      .update({ is_enabled: !rule.is_enabled })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error updating assignment rule:', error);
+      alert('Failed to update assignment rule');
+    } else {
+      loadData();
+    }
+  };
+
+  const handleDelete = async (rule: AssignmentRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+
+    const { error } = await supabase.from('assignment_rules').delete().eq('id', rule.id);
+
+    if (error) {
+      console.error('Error deleting assignment rule:', error);
+      alert('Failed to delete assignment rule');
+    } else {
+      loadData();
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(date);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading assignment rules...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <Shuffle className="mr-2" size={24} />
+            Auto-Assignment Rules
+          </h2>
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={18} />
+            New Rule
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          New unassigned tickets are matched against category rules first, then catch-all rules, in order. The
+          first rule with an available agent makes the assignment.
+        </p>
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">{editingId ? 'Edit Rule' : 'New Rule'}</h3>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Strategy *</label>
+                <select
+                  value={formData.strategy}
+                  onChange={(e) => setFormData({ ...formData, strategy: e.target.value as AssignmentStrategy })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select
+                  value={formData.category_id}
+                  onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">All categories</option>
+                  {activeOptions(categories, formData.category_id).map((cat) => (
+                    <option key={cat.id} value={cat.id}>
+                      {cat.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {formData.strategy === 'fixed' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Owner *</label>
+                  <select
+                    value={formData.agent_id}
+                    onChange={(e) => setFormData({ ...formData, agent_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  >
+                    <option value="">Select agent</option>
+                    {agents
+                      .filter((agent) => agent.is_active || agent.id === formData.agent_id)
+                      .map((agent) => (
+                        <option key={agent.id} value={agent.id}>
+                          {agent.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Team</label>
+                  <select
+                    value={formData.team}
+                    onChange={(e) => setFormData({ ...formData, team: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Any team</option>
+                    {teams.map((team) => (
+                      <option key={team} value={team}>
+                        {team}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Order</label>
+                <input
+                  type="number"
+                  value={formData.position}
+                  onChange={(e) => setFormData({ ...formData, position: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 self-end py-2">
+                <input
+                  type="checkbox"
+                  checked={formData.is_enabled}
+                  onChange={(e) => setFormData({ ...formData, is_enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Rule'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {rules.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No rules yet. New tickets stay unassigned.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">Order</th>
+                <th className="py-2 font-medium">Name</th>
+                <th className="py-2 font-medium">Strategy</th>
+                <th className="py-2 font-medium">Category</th>
+                <th className="py-2 font-medium">Pool</th>
+                <th className="py-2 font-medium">Enabled</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rules.map((rule) => (
+                <tr key={rule.id} className={rule.is_enabled ? '' : 'opacity-50'}>
+                  <td className="py-2 text-gray-500">{rule.position}</td>
+                  <td className="py-2 font-medium text-gray-900">{rule.name}</td>
+                  <td className="py-2 text-gray-700">{STRATEGY_LABELS[rule.strategy]}</td>
+                  <td className="py-2 text-gray-700">
+                    {categories.find((cat) => cat.id === rule.category_id)?.name ?? 'All categories'}
+                  </td>
+                  <td className="py-2 text-gray-700">
+                    {rule.strategy === 'fixed'
+                      ? agents.find((agent) => agent.id === rule.agent_id)?.name ?? 'Unknown agent'
+                      : rule.team || 'Any team'}
+                  </td>
+                  <td className="py-2">
+                    <input type="checkbox" checked={rule.is_enabled} onChange={() => handleToggle(rule)} />
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => openForm(rule)}
+                      className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                      title="Edit"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Automatic Assignments</h3>
+        {log.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No automatic assignments yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">When</th>
+                <th className="py-2 font-medium">Ticket</th>
+                <th className="py-2 font-medium">Agent</th>
+                <th className="py-2 font-medium">Rule</th>
+                <th className="py-2 font-medium">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {log.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="py-2 text-gray-500 whitespace-nowrap">{formatDate(entry.created_at)}</td>
+                  <td className="py-2 font-medium text-blue-600">{entry.tickets?.ticket_number}</td>
+                  <td className="py-2 text-gray-900">{entry.agents?.name ?? 'Removed agent'}</td>
+                  <td className="py-2 text-gray-700">
+                    {entry.rule_name}
+                    <span className="ml-1 text-xs text-gray-500">({STRATEGY_LABELS[entry.strategy]})</span>
+                  </td>
+                  <td className="py-2 text-gray-600">{entry.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState, useRef } from 'react';
+import { attachmentProblem, formatFileSize, ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES } from '../lib/attachments';
+import { Paperclip, X } from 'lucide-react';
+
+interface AttachmentDropzoneProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+export default function AttachmentDropzone({ files, onChange, disabled }: AttachmentDropzoneProps) {
+  const [dragging, setDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Files that break the limits are turned away here with one message,
+  // rather than failing one by one on upload.
+  const addFiles = (added: FileList | null) => {
+    if (!added || disabled) return;
+
+    const accepted: File[] = [];
+    const problems: string[] = [];
+    Array.from(added).forEach((file) => {
+      const problem = attachmentProblem(file);
+      if (problem) problems.push(problem);
+      else accepted.push(file);
+    });
+
+    if (problems.length > 0) alert(problems.join('\n'));
+    if (accepted.length > 0) onChange([...files, ...accepted]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={`flex items-center justify-center gap-2 px-3 py-3 border-2 border-dashed rounded-lg text-sm cursor-pointer transition-colors ${
+          dragging ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+        } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        <Paperclip size={16} />
+        Drop files here or click to attach (up to {formatFileSize(MAX_ATTACHMENT_BYTES)} each)
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={[...ALLOWED_ATTACHMENT_TYPES, '.log'].join(',')}
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+          disabled={disabled}
+          className="hidden"
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full"
+            >
+              <Paperclip size={12} />
+              {file.name}
+              <span className="text-gray-500">({formatFileSize(file.size)})</span>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="text-gray-400 hover:text-gray-600"
+                title="Remove"
+              >
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { Attachment } from '../lib/supabase';
+import { isImage, formatFileSize, downloadUrl } from '../lib/attachments';
+import { Download, FileText, Trash2 } from 'lucide-react';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  urls: { [id: string]: string };
+  canDelete?: (attachment: Attachment) => boolean;
+  onDelete?: (attachment: Attachment) => void;
+}
+
+export default function AttachmentList({ attachments, urls, canDelete, onDelete }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(isImage);
+  const files = attachments.filter((attachment) => !isImage(attachment));
+
+  const renderDelete = (attachment: Attachment) =>
+    onDelete &&
+    canDelete?.(attachment) && (
+      <button
+        onClick={() => onDelete(attachment)}
+        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+        title="Delete attachment"
+      >
+        <Trash2 size={14} />
+      </button>
+    );
+
+  return (
+    <div className="mt-3 space-y-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((attachment) => (
+            <div key={attachment.id} className="relative group">
+              <a href={urls[attachment.id]} target="_blank" rel="noreferrer" title={attachment.file_name}>
+                {urls[attachment.id] ? (
+                  <img
+                    src={urls[attachment.id]}
+                    alt={attachment.file_name}
+                    className="h-24 w-24 object-cover rounded-lg border border-gray-200"
+                  />
+                ) : (
+                  <div className="h-24 w-24 rounded-lg border border-gray-200 bg-gray-100" />
+                )}
+              </a>
+              <div className="absolute top-1 right-1 hidden group-hover:flex bg-white rounded shadow">
+                {urls[attachment.id] && (
+                  <a
+                    href={downloadUrl(urls[attachment.id], attachment.file_name)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Download"
+                  >
+                    <Download size={14} />
+                  </a>
+                )}
+                {renderDelete(attachment)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-2 text-sm">
+              <FileText size={16} className="text-gray-400 shrink-0" />
+              {urls[attachment.id] ? (
+                <a
+                  href={downloadUrl(urls[attachment.id], attachment.file_name)}
+                  className="font-medium text-blue-600 hover:underline truncate"
+                >
+                  {attachment.file_name}
+                </a>
+              ) : (
+                <span className="font-medium text-gray-700 truncate">{attachment.file_name}</span>
+              )}
+              <span className="text-gray-500 shrink-0">{formatFileSize(attachment.size_bytes)}</span>
+              {renderDelete(attachment)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,824 @@
+import { useState, useEffect, Fragment } from 'react';
+import {
+  supabase,
+  Agent,
+  Category,
+  Priority,
+  Status,
+  AutomationAction,
+  AutomationCondition,
+  AutomationLogEntry,
+  AutomationOperator,
+  AutomationRule,
+  AutomationTestResult,
+  AutomationTrigger,
+} from '../lib/supabase';
+import { useLookupChanges } from '../lib/realtime';
+import {
+  useAutomationRules,
+  testAutomationRule,
+  describeAutomationChange,
+  ruleProblem,
+  isHoursField,
+  CONDITION_FIELDS,
+  TRIGGER_LABELS,
+} from '../lib/automations';
+import { useCustomFields } from '../lib/customFields';
+import { activeOptions } from '../lib/ticketSearch';
+import { PLACEHOLDERS, NOTIFICATION_PLACEHOLDERS } from '../lib/templates';
+import AgentPicker from './AgentPicker';
+import { Workflow, Plus, Trash2, Pencil, X, ArrowUp, ArrowDown, FlaskConical, RefreshCw } from 'lucide-react';
+
+type RuleForm = {
+  name: string;
+  description: string;
+  trigger_event: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  is_enabled: boolean;
+};
+
+type LogEntry = AutomationLogEntry & { tickets: { ticket_number: string } | null };
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  description: '',
+  trigger_event: 'ticket_created',
+  conditions: [],
+  actions: [],
+  is_enabled: true,
+};
+
+const OPERATOR_LABELS: { [key in AutomationOperator]: string } = {
+  is: 'is',
+  is_not: 'is not',
+  contains: 'contains',
+  not_contains: "doesn't contain",
+  at_least: 'is at least',
+  at_most: 'is at most',
+};
+
+const ACTION_LABELS: { [key in AutomationAction['type']]: string } = {
+  set_status: 'Set status',
+  set_priority: 'Set priority',
+  set_category: 'Set category',
+  assign: 'Assign to',
+  add_comment: 'Add comment',
+  notify: 'Send email',
+};
+
+const LOOKUP_FIELDS = ['category', 'priority', 'status', 'assignee', 'source', 'comment_by'];
+
+const NEW_ACTIONS: { [key in AutomationAction['type']]: AutomationAction } = {
+  set_status: { type: 'set_status', value: '' },
+  set_priority: { type: 'set_priority', value: '' },
+  set_category: { type: 'set_category', value: '' },
+  assign: { type: 'assign', value: '' },
+  add_comment: { type: 'add_comment', comment: '', is_internal: true },
+  notify: { type: 'notify', audience: 'agent', subject: '', body: '' },
+};
+
+const LOG_LIMIT = 50;
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const operatorsFor = (field: string): AutomationOperator[] => {
+  if (isHoursField(field)) return ['at_least', 'at_most'];
+  if (LOOKUP_FIELDS.includes(field)) return ['is', 'is_not'];
+  if (field.startsWith('custom.')) return ['is', 'is_not', 'contains', 'not_contains', 'at_least', 'at_most'];
+  return ['is', 'is_not', 'contains', 'not_contains'];
+};
+
+export default function AutomationAdmin() {
+  const rules = useAutomationRules();
+  const customFields = useCustomFields();
+  const [statuses, setStatuses] = useState<Status[]>([]);
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  // null while the form is closed; '' for a new rule.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<RuleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testResults, setTestResults] = useState<AutomationTestResult[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLookups();
+    loadLog();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'categories' || table === 'priorities' || table === 'statuses') loadLookups();
+  });
+
+  const loadLookups = async () => {
+    const [statusesRes, prioritiesRes, categoriesRes, agentsRes] = await Promise.all([
+      supabase.from('statuses').select('*').order('order'),
+      supabase.from('priorities').select('*').order('level'),
+      supabase.from('categories').select('*').order('position').order('name'),
+      supabase.from('agents').select('*').order('name'),
+    ]);
+    if (statusesRes.data) setStatuses(statusesRes.data);
+    if (prioritiesRes.data) setPriorities(prioritiesRes.data);
+    if (categoriesRes.data) setCategories(categoriesRes.data);
+    if (agentsRes.data) setAgents(agentsRes.data);
+  };
+
+  const loadLog = async () => {
+    const { data } = await supabase
+      .from('automation_log')
+      .select('*, tickets(ticket_number)')
+      .order('created_at', { ascending: false })
+      .limit(LOG_LIMIT);
+    if (data) setLog(data);
+  };
+
+  const openForm = (rule?: AutomationRule) => {
+    setEditingId(rule?.id ?? '');
+    setTestResults(null);
+    setFormData(
+      rule
+        ? {
+            name: rule.name,
+            description: rule.description,
+            trigger_event: rule.trigger_event,
+            conditions: rule.conditions,
+            actions: rule.actions,
+            is_enabled: rule.is_enabled,
+          }
+        : EMPTY_FORM
+    );
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setTestResults(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId === null) return;
+
+    const problem = ruleProblem(formData.trigger_event, formData.conditions, formData.actions);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    const values: Record<string, unknown> = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      trigger_event: formData.trigger_event,
+      conditions: formData.conditions,
+      actions: formData.actions,
+      is_enabled: formData.is_enabled,
+    };
+    if (!editingId) {
+      const last = rules[rules.length - 1];
+      values.position = last ? last.position + 1 : 0;
+    }
+
+    setSaving(true);
+    const { error } = editingId
+      ? await supabase.from('automation_rules').update(values).eq('id', editingId)
+      : await supabase.from('automation_rules').insert([values]);
+
+    if (error) {
+      console.error('Error saving automation rule:', error);
+      alert(`Failed to save rule: ${error.message}`);
+    } else {
+      closeForm();
+    }
+    setSaving(false);
+  };
+
+  const handleTest = async () => {
+    const problem = ruleProblem(formData.trigger_event, formData.conditions, formData.actions);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    setTesting(true);
+    try {
+      setTestResults(await testAutomationRule(formData.trigger_event, formData.conditions, formData.actions));
+    } catch (error) {
+      console.error('Error testing automation rule:', error);
+      alert(`Failed to test rule: ${(error as Error).message}`);
+    }
+    setTesting(false);
+  };
+
+  const handleToggle = async (rule: AutomationRule) => {
+    const { error } = await supabase
+      .from('automation_rules')
+      .update({ is_enabled: !rule.is_enabled })
+      .eq('id', rule.id);
+    if (error) {
+      console.error('Error updating automation rule:', error);
+      alert('Failed to update rule');
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const rule = rules[index];
+    const neighbour = rules[index + offset];
+    if (!neighbour) return;
+
+    const neighbourPosition = rule.position;
+    const rulePosition = neighbour.position === neighbourPosition ? neighbourPosition + offset : neighbour.position;
+
+    const results = await Promise.all([
+      supabase.from('automation_rules').update({ position: rulePosition }).eq('id', rule.id),
+      supabase.from('automation_rules').update({ position: neighbourPosition }).eq('id', neighbour.id),
+    ]);
+    const error = results.find((result) => result.error)?.error;
+
+    if (error) {
+      console.error('Error reordering automation rules:', error);
+      alert('Failed to reorder rules');
+    }
+  };
+
+  const handleDelete = async (rule: AutomationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Its log entries are kept.`)) return;
+
+    const { error } = await supabase.from('automation_rules').delete().eq('id', rule.id);
+    if (error) {
+      console.error('Error deleting automation rule:', error);
+      alert('Failed to delete rule');
+    }
+  };
+
+  const updateCondition = (index: number, changes: Partial<AutomationCondition>) => {
+    const conditions = formData.conditions.map((condition, i) => {
+      if (i !== index) return condition;
+      const next = { ...condition, ...changes };
+      // A new field may not take the old operator or value
+      if (changes.field !== undefined && changes.field !== condition.field) {
+        next.operator = operatorsFor(next.field)[0];
+        next.value = '';
+      }
+      return next;
+    });
+    setFormData({ ...formData, conditions });
+  };
+
+  const updateAction = (index: number, action: AutomationAction) =>
+    setFormData({ ...formData, actions: formData.actions.map((current, i) => (i === index ? action : current)) });
+
+  const formatDate = (dateString: string) =>
+    new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(new Date(dateString));
+
+  const renderOptions = (options: { id: string; name: string }[]) =>
+    options.map((option) => (
+      <option key={option.id} value={option.id}>
+        {option.name}
+      </option>
+    ));
+
+  const renderConditionValue = (condition: AutomationCondition, index: number) => {
+    const onChange = (value: string) => updateCondition(index, { value });
+    const select = (children: React.ReactNode) => (
+      <select value={condition.value} onChange={(e) => onChange(e.target.value)} className={INPUT_CLASS}>
+        <option value="">Choose...</option>
+        {children}
+      </select>
+    );
+
+    switch (condition.field) {
+      case 'category':
+        return select(renderOptions(activeOptions(categories, condition.value)));
+      case 'priority':
+        return select(renderOptions(activeOptions(priorities, condition.value)));
+      case 'status':
+        return select(renderOptions(activeOptions(statuses, condition.value)));
+      case 'assignee':
+        return (
+          <AgentPicker agents={agents} value={condition.value || null} onChange={(id) => onChange(id ?? '')} />
+        );
+      case 'source':
+        return select(
+          <>
+            <option value="web">Web</option>
+            <option value="email">Email</option>
+          </>
+        );
+      case 'comment_by':
+        return select(
+          <>
+            <option value="requester">Requester</option>
+            <option value="agent">Agent</option>
+          </>
+        );
+      default:
+        return (
+          <input
+            type={isHoursField(condition.field) ? 'number' : 'text'}
+            min={isHoursField(condition.field) ? 0 : undefined}
+            step="any"
+            value={condition.value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={isHoursField(condition.field) ? 'Hours' : 'Value'}
+            className={INPUT_CLASS}
+          />
+        );
+    }
+  };
+
+  const renderActionFields = (action: AutomationAction, index: number) => {
+    switch (action.type) {
+      case 'set_status':
+      case 'set_priority':
+      case 'set_category': {
+        const options =
+          action.type === 'set_status'
+            ? activeOptions(statuses, action.value)
+            : action.type === 'set_priority'
+              ? activeOptions(priorities, action.value)
+              : activeOptions(categories, action.value);
+        return (
+          <select
+            value={action.value}
+            onChange={(e) => updateAction(index, { ...action, value: e.target.value })}
+            className={INPUT_CLASS}
+          >
+            <option value="">Choose...</option>
+            {renderOptions(options)}
+          </select>
+        );
+      }
+      case 'assign':
+        return (
+          <AgentPicker
+            agents={agents}
+            value={action.value || null}
+            onChange={(id) => updateAction(index, { ...action, value: id ?? '' })}
+          />
+        );
+      case 'add_comment':
+        return (
+          <div className="space-y-1">
+            <textarea
+              value={action.comment}
+              onChange={(e) => updateAction(index, { ...action, comment: e.target.value })}
+              rows={3}
+              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:border-transparent ${
+                action.is_internal
+                  ? 'border-yellow-300 bg-yellow-50 focus:ring-yellow-500'
+                  : 'border-gray-300 focus:ring-blue-500'
+              }`}
+            />
+            <div className="flex items-center justify-between gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={action.is_internal}
+                  onChange={(e) => updateAction(index, { ...action, is_internal: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Internal note
+              </label>
+              <p className="text-xs text-gray-500 text-right">
+                Placeholders: {PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(', ')}
+              </p>
+            </div>
+          </div>
+        );
+      case 'notify':
+        return (
+          <div className="space-y-2">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <select
+                value={action.audience}
+                onChange={(e) => updateAction(index, { ...action, audience: e.target.value as 'requester' | 'agent' })}
+                className={INPUT_CLASS}
+              >
+                <option value="agent">Assigned agent</option>
+                <option value="requester">Requester</option>
+              </select>
+              <input
+                type="text"
+                value={action.subject}
+                onChange={(e) => updateAction(index, { ...action, subject: e.target.value })}
+                placeholder="Subject"
+                className={`${INPUT_CLASS} md:col-span-2`}
+              />
+            </div>
+            <textarea
+              value={action.body}
+              onChange={(e) => updateAction(index, { ...action, body: e.target.value })}
+              rows={3}
+              placeholder="Message"
+              className={INPUT_CLASS}
+            />
+            <p className="text-xs text-gray-500">
+              Placeholders: {NOTIFICATION_PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(', ')}
+            </p>
+          </div>
+        );
+    }
+  };
+
+  const renderTestResults = () => {
+    if (!testResults) return null;
+
+    return (
+      <div className="border-t pt-4">
+        <h5 className="text-sm font-semibold text-gray-900 mb-2">
+          Dry run: {testResults.length === 0 ? 'no open tickets match' : `${testResults.length} open tickets match`}
+        </h5>
+        {testResults.length > 0 && (
+          <ul className="text-sm divide-y divide-gray-100 max-h-64 overflow-y-auto">
+            {testResults.map((result) => (
+              <li key={result.ticket_id} className="py-2">
+                <span className="font-mono text-gray-900">{result.ticket_number}</span>
+                {result.success ? (
+                  <ul className="mt-1 text-gray-600 list-disc list-inside">
+                    {result.changes.length === 0 ? (
+                      <li>Nothing would change</li>
+                    ) : (
+                      result.changes.map((change, i) => <li key={i}>{describeAutomationChange(change)}</li>)
+                    )}
+                  </ul>
+                ) : (
+                  <p className="mt-1 text-red-600">{result.error}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900">{editingId ? 'Edit rule' : 'New rule'}</h4>
+        <button type="button" onClick={closeForm} className="text-gray-400 hover:text-gray-600 transition-colors">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className={INPUT_CLASS}
+            placeholder="e.g. Critical facilities to on-call"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            type="text"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">When</label>
+          <select
+            value={formData.trigger_event}
+            onChange={(e) => setFormData({ ...formData, trigger_event: e.target.value as AutomationTrigger })}
+            className={INPUT_CLASS}
+          >
+            {(Object.keys(TRIGGER_LABELS) as AutomationTrigger[]).map((trigger) => (
+              <option key={trigger} value={trigger}>
+                {TRIGGER_LABELS[trigger]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-700">If all of these hold</label>
+          <button
+            type="button"
+            onClick={() =>
+              setFormData({
+                ...formData,
+                conditions: [...formData.conditions, { field: 'category', operator: 'is', value: '' }],
+              })
+            }
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Plus size={14} />
+            Condition
+          </button>
+        </div>
+        {formData.conditions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {formData.trigger_event === 'time' ? 'Add an hours condition.' : 'Runs on every ticket.'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {formData.conditions.map((condition, index) => (
+              <div key={index} className="grid grid-cols-[1fr_10rem_1fr_auto] gap-2 items-start">
+                <select
+                  value={condition.field}
+                  onChange={(e) => updateCondition(index, { field: e.target.value })}
+                  className={INPUT_CLASS}
+                >
+                  {CONDITION_FIELDS.map((field) => (
+                    <option key={field.value} value={field.value}>
+                      {field.label}
+                    </option>
+                  ))}
+                  {customFields.map((field) => (
+                    <option key={field.id} value={`custom.${field.key}`}>
+                      {field.label} (custom)
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={condition.operator}
+                  onChange={(e) => updateCondition(index, { operator: e.target.value as AutomationOperator })}
+                  className={INPUT_CLASS}
+                >
+                  {operatorsFor(condition.field).map((operator) => (
+                    <option key={operator} value={operator}>
+                      {OPERATOR_LABELS[operator]}
+                    </option>
+                  ))}
+                </select>
+                {renderConditionValue(condition, index)}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setFormData({ ...formData, conditions: formData.conditions.filter((_, i) => i !== index) })
+                  }
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Remove condition"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-700">Then</label>
+          <select
+            value=""
+            onChange={(e) => {
+              const type = e.target.value as AutomationAction['type'];
+              if (type) setFormData({ ...formData, actions: [...formData.actions, NEW_ACTIONS[type]] });
+            }}
+            className="text-sm px-2 py-1 border border-gray-300 rounded-lg text-blue-600"
+          >
+            <option value="">+ Action</option>
+            {(Object.keys(ACTION_LABELS) as AutomationAction['type'][]).map((type) => (
+              <option key={type} value={type}>
+                {ACTION_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {formData.actions.length === 0 ? (
+          <p className="text-sm text-gray-500">Add at least one action.</p>
+        ) : (
+          <div className="space-y-3">
+            {formData.actions.map((action, index) => (
+              <div key={index} className="grid grid-cols-[10rem_1fr_auto] gap-2 items-start">
+                <span className="py-2 text-sm font-medium text-gray-700">{ACTION_LABELS[action.type]}</span>
+                {renderActionFields(action, index)}
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, actions: formData.actions.filter((_, i) => i !== index) })}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Remove action"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={formData.is_enabled}
+          onChange={(e) => setFormData({ ...formData, is_enabled: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+        Enabled
+      </label>
+
+      {renderTestResults()}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={handleTest}
+          disabled={testing}
+          className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          <FlaskConical size={16} />
+          {testing ? 'Testing...' : 'Dry run'}
+        </button>
+        <button
+          type="button"
+          onClick={closeForm}
+          className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <Workflow className="mr-2" size={24} />
+            Automation Rules
+          </h2>
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+          >
+            <Plus size={16} />
+            Add
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Rules change tickets as they are filed, updated or commented on, or once enough time has passed. Rules for
+          the same event run top to bottom; changes made by a rule don't set off other rules. Use a dry run to see
+          what a rule would do to the open tickets before switching it on.
+        </p>
+
+        {editingId !== null && renderForm()}
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500">No automation rules yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium w-16">Order</th>
+                <th className="py-2 font-medium">Name</th>
+                <th className="py-2 font-medium">When</th>
+                <th className="py-2 font-medium">Enabled</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rules.map((rule, index) => (
+                <tr key={rule.id}>
+                  <td className="py-2 whitespace-nowrap">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === rules.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown size={14} />
+                    </button>
+                  </td>
+                  <td className="py-2">
+                    <span className="font-medium text-gray-900">{rule.name}</span>
+                    {rule.description && <p className="text-xs text-gray-500">{rule.description}</p>}
+                  </td>
+                  <td className="py-2 text-gray-700">{TRIGGER_LABELS[rule.trigger_event]}</td>
+                  <td className="py-2">
+                    <input
+                      type="checkbox"
+                      checked={rule.is_enabled}
+                      onChange={() => handleToggle(rule)}
+                      className="rounded border-gray-300"
+                    />
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => openForm(rule)}
+                      className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                      title="Edit"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Automation Log</h3>
+          <button
+            onClick={loadLog}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <RefreshCw size={14} />
+            Refresh
+          </button>
+        </div>
+        {log.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No rules have run yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">When</th>
+                <th className="py-2 font-medium">Rule</th>
+                <th className="py-2 font-medium">Ticket</th>
+                <th className="py-2 font-medium">Trigger</th>
+                <th className="py-2 font-medium">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {log.map((entry) => (
+                <Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="py-2 text-gray-500 whitespace-nowrap">{formatDate(entry.created_at)}</td>
+                    <td className="py-2 text-gray-900">{entry.rule_name}</td>
+                    <td className="py-2 font-mono text-xs text-gray-700">{entry.tickets?.ticket_number ?? ''}</td>
+                    <td className="py-2 text-gray-700">{TRIGGER_LABELS[entry.trigger_event]}</td>
+                    <td className="py-2">
+                      {entry.success ? (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                          {entry.changes.length === 0 ? 'no changes' : `${entry.changes.length} changes`}
+                        </span>
+                      ) : (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                          failed
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr>
+                      <td colSpan={5} className="pb-3">
+                        {entry.success ? (
+                          <ul className="text-gray-600 list-disc list-inside">
+                            {entry.changes.map((change, i) => (
+                              <li key={i}>{describeAutomationChange(change)}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-red-600">{entry.error}</p>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
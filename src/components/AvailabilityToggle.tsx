@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import { supabase, Agent } from '../lib/supabase';
+
+interface AvailabilityToggleProps {
+  profileId: string;
+}
+
+export default function AvailabilityToggle({ profileId }: AvailabilityToggleProps) {
+  const [agent, setAgent] = useState<Agent | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadAgent = async () => {
+      const { data } = await supabase.from('agents').select('*').eq('profile_id', profileId).maybeSingle();
+      setAgent(data);
+    };
+    loadAgent();
+  }, [profileId]);
+
+  const handleToggle = async () => {
+    if (!agent) return;
+    setSaving(true);
+
+    const { error } = await supabase.rpc('set_my_availability', { p_is_available: !agent.is_available });
+
+    if (error) {
+      console.error('Error updating availability:', error);
+      alert('Failed to update availability');
+    } else {
+      setAgent({ ...agent, is_available: !agent.is_available });
+    }
+    setSaving(false);
+  };
+
+  if (!agent) return null;
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={saving}
+      title="Away agents don't receive automatic assignments"
+      className={`px-3 py-1 text-xs font-medium rounded-full transition-colors disabled:opacity-50 ${
+        agent.is_available
+          ? 'bg-green-100 text-green-700 hover:bg-green-200'
+          : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+      }`}
+    >
+      {agent.is_available ? 'Available' : 'Away'}
+    </button>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState } from 'react';
+import { supabase, Agent, Category, Priority, Status, MacroResult } from '../lib/supabase';
+import { useAuth, isAdmin } from '../lib/auth';
+import { activeOptions } from '../lib/ticketSearch';
+import AgentPicker from './AgentPicker';
+import MacroRunner from './MacroRunner';
+import { Layers, Play, X, CheckCircle, AlertTriangle } from 'lucide-react';
+
+type BulkAction = 'status' | 'assignee' | 'priority' | 'category' | 'comment' | 'macro' | 'delete';
+
+type BulkResult = {
+  ticket_id: string;
+  ticket_number: string | null;
+  success: boolean;
+  error: string | null;
+};
+
+interface BulkActionsProps {
+  selectedCount: number;
+  // Resolved only when the action runs, since "all matching" can be more
+  // tickets than are loaded on the page.
+  getTicketIds: () => Promise<string[]>;
+  statuses: Status[];
+  priorities: Priority[];
+  categories: Category[];
+  agents: Agent[];
+  onClear: () => void;
+}
+
+const ACTION_LABELS: { [key in BulkAction]: string } = {
+  status: 'Change status',
+  assignee: 'Reassign',
+  priority: 'Change priority',
+  category: 'Change category',
+  comment: 'Add comment',
+  macro: 'Run macro',
+  delete: 'Delete',
+};
+
+// Keeps each request comfortably inside PostgREST's body limits; a normal
+// selection goes in a single call.
+const BATCH_SIZE = 500;
+
+export default function BulkActions({
+  selectedCount,
+  getTicketIds,
+  statuses,
+  priorities,
+  categories,
+  agents,
+  onClear,
+}: BulkActionsProps) {
+  const { profile } = useAuth();
+  const admin = isAdmin(profile);
+  const [action, setAction] = useState<BulkAction>('status');
+  const [value, setValue] = useState('');
+  const [assigneeId, setAssigneeId] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<BulkResult[] | null>(null);
+
+  const running = progress !== null;
+  const ready =
+    action === 'comment'
+      ? comment.trim() !== ''
+      : action === 'assignee' || action === 'delete' || value !== '';
+
+  const selectAction = (next: BulkAction) => {
+    setAction(next);
+    setValue('');
+    setResults(null);
+  };
+
+  const handleRun = async () => {
+    if (action === 'delete' && !confirm(`Delete ${selectedCount} tickets? This can't be undone.`)) return;
+
+    setResults(null);
+    setProgress({ done: 0, total: selectedCount });
+
+    try {
+      const ids = await getTicketIds();
+      const collected: BulkResult[] = [];
+      setProgress({ done: 0, total: ids.length });
+
+      for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+        const batch = ids.slice(start, start + BATCH_SIZE);
+        const { data, error } = await supabase.rpc('bulk_update_tickets', {
+          p_ticket_ids: batch,
+          p_action: action,
+          p_value: action === 'assignee' ? assigneeId : value || null,
+          // Status changes carry an optional note for moves that require one.
+          p_comment: action === 'comment' || action === 'status' ? comment.trim() || null : null,
+          p_is_internal: (action === 'comment' || action === 'status') && isInternal,
+        });
+
+        if (error) {
+          console.error('Error running bulk action:', error);
+          batch.forEach((id) =>
+            collected.push({ ticket_id: id, ticket_number: null, success: false, error: error.message })
+          );
+        } else {
+          collected.push(...((data as BulkResult[] | null) || []));
+        }
+        setProgress({ done: Math.min(start + batch.length, ids.length), total: ids.length });
+      }
+
+      setResults(collected);
+      if (collected.every((result) => result.success)) {
+        setComment('');
+        setIsInternal(false);
+      }
+    } catch (error) {
+      console.error('Error running bulk action:', error);
+      alert('Failed to run bulk action');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // The macro runner previews and applies on its own; only its results are
+  // reported here.
+  const handleMacroApplied = (macroResults: MacroResult[]) => setResults(macroResults);
+
+  const succeeded = results?.filter((result) => result.success).length ?? 0;
+  const failed = results?.filter((result) => !result.success) ?? [];
+
+  const renderComment = (placeholder: string) => (
+    <div className="flex-1 min-w-[16rem] space-y-2">
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder={isInternal ? 'Internal note (only agents can see this)...' : placeholder}
+        rows={2}
+        disabled={running}
+        className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:border-transparent ${
+          isInternal ? 'border-yellow-300 bg-yellow-50 focus:ring-yellow-500' : 'border-gray-300 focus:ring-blue-500'
+        }`}
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={isInternal}
+          onChange={(e) => setIsInternal(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        Internal note
+      </label>
+    </div>
+  );
+
+  const renderValueInput = () => {
+    const selectClass =
+      'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+    const options =
+      action === 'status'
+        ? activeOptions(statuses)
+        : action === 'priority'
+        ? activeOptions(priorities)
+        : action === 'category'
+        ? activeOptions(categories)
+        : null;
+
+    if (options) {
+      const select = (
+        <select value={value} onChange={(e) => setValue(e.target.value)} disabled={running} className={selectClass}>
+          <option value="">Choose...</option>
+          {options.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      );
+
+      if (action !== 'status') return select;
+      return (
+        <>
+          {select}
+          {renderComment('Optional note, required for some moves (e.g. resolving)...')}
+        </>
+      );
+    }
+
+    if (action === 'assignee') {
+      return (
+        <div className="w-64">
+          <AgentPicker agents={agents} value={assigneeId} onChange={setAssigneeId} disabled={running} />
+        </div>
+      );
+    }
+
+    if (action === 'comment') {
+      return renderComment('Comment for every selected ticket...');
+    }
+
+    if (action === 'macro') {
+      return (
+        <MacroRunner ticketCount={selectedCount} getTicketIds={getTicketIds} onApplied={handleMacroApplied} />
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3 border-l-4 border-blue-600">
+      <div className="flex flex-wrap items-start gap-3">
+        <div className="flex items-center gap-2 py-2 text-sm font-medium text-gray-900">
+          <Layers size={18} className="text-blue-600" />
+          {selectedCount} selected
+        </div>
+
+        <select
+          value={action}
+          onChange={(e) => selectAction(e.target.value as BulkAction)}
+          disabled={running}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {(Object.keys(ACTION_LABELS) as BulkAction[])
+            .filter((option) => option !== 'delete' || admin)
+            .map((option) => (
+              <option key={option} value={option}>
+                {ACTION_LABELS[option]}
+              </option>
+            ))}
+        </select>
+
+        {renderValueInput()}
+
+        {action !== 'macro' && (
+          <button
+            onClick={handleRun}
+            disabled={running || !ready}
+            className={`flex items-center gap-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 ${
+              action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            <Play size={16} />
+            {running ? 'Working...' : `Apply to ${selectedCount}`}
+          </button>
+        )}
+
+        <button
+          onClick={onClear}
+          disabled={running}
+          className="ml-auto p-2 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+          title="Clear selection"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      {progress && (
+        <div>
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>{ACTION_LABELS[action]}...</span>
+            <span>
+              {progress.done} / {progress.total}
+            </span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${progress.total === 0 ? 0 : (progress.done / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {results && (
+        <div className="text-sm space-y-2">
+          <div className="flex items-center gap-4">
+            <span className="flex items-center gap-1 text-green-700">
+              <CheckCircle size={16} />
+              {succeeded} {succeeded === 1 ? 'ticket' : 'tickets'} {action === 'delete' ? 'deleted' : 'updated'}
+            </span>
+            {failed.length > 0 && (
+              <span className="flex items-center gap-1 text-red-700">
+                <AlertTriangle size={16} />
+                {failed.length} failed
+              </span>
+            )}
+          </div>
+          {failed.length > 0 && (
+            <ul className="max-h-40 overflow-y-auto px-3 py-2 bg-red-50 rounded-lg text-xs text-red-700 space-y-1">
+              {failed.map((result) => (
+                <li key={result.ticket_id}>
+                  <span className="font-medium">{result.ticket_number ?? result.ticket_id}</span>: {result.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
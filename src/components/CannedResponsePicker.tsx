@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { supabase, CannedResponse, TicketWithRelations } from '../lib/supabase';
+import { useAuth, isAdmin } from '../lib/auth';
+import { useCannedResponses, placeholderValues, fillPlaceholders, PLACEHOLDERS } from '../lib/templates';
+import { MessageSquareText, Users, Trash2, X } from 'lucide-react';
+
+interface CannedResponsePickerProps {
+  ticket: TicketWithRelations;
+  // The composer's current text, offered for saving as a new response.
+  draft: string;
+  onInsert: (text: string) => void;
+}
+
+// Lives inside the comment form, so the save controls are plain buttons
+// rather than a nested form.
+export default function CannedResponsePicker({ ticket, draft, onInsert }: CannedResponsePickerProps) {
+  const { profile } = useAuth();
+  const admin = isAdmin(profile);
+  const { responses, reload } = useCannedResponses();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const needle = filter.trim().toLowerCase();
+  const matching = responses.filter(
+    (response) =>
+      !needle || response.name.toLowerCase().includes(needle) || response.body.toLowerCase().includes(needle)
+  );
+
+  const handleInsert = (response: CannedResponse) => {
+    onInsert(fillPlaceholders(response.body, placeholderValues(ticket, profile)));
+    setOpen(false);
+    setFilter('');
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !draft.trim()) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('canned_responses')
+      .insert([{ name: name.trim(), body: draft, is_shared: isShared }]);
+
+    if (error) {
+      console.error('Error saving canned response:', error);
+      alert('Failed to save canned response');
+    } else {
+      setName('');
+      setIsShared(false);
+      reload();
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (response: CannedResponse) => {
+    if (!confirm(`Delete the canned response "${response.name}"?`)) return;
+
+    const { error } = await supabase.from('canned_responses').delete().eq('id', response.id);
+    if (error) {
+      console.error('Error deleting canned response:', error);
+      alert('Failed to delete canned response');
+      return;
+    }
+    reload();
+  };
+
+  const canDelete = (response: CannedResponse) =>
+    response.owner_id === profile?.id || (response.is_shared && admin);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+      >
+        <MessageSquareText size={14} />
+        Canned responses
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-1 w-96 bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              autoFocus
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  if (matching[0]) handleInsert(matching[0]);
+                }
+              }}
+              placeholder="Search responses..."
+              className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          {matching.length > 0 ? (
+            <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+              {matching.map((response) => (
+                <li key={response.id} className="group flex items-start">
+                  <button
+                    type="button"
+                    onClick={() => handleInsert(response)}
+                    className="flex-1 min-w-0 px-2 py-2 text-left rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <span className="flex items-center gap-1 text-sm font-medium text-gray-900">
+                      {response.name}
+                      {response.is_shared && <Users size={12} className="text-gray-400" />}
+                    </span>
+                    <span className="block text-xs text-gray-500 truncate">{response.body}</span>
+                  </button>
+                  {canDelete(response) && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(response)}
+                      className="mt-2 p-1 text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-600 transition"
+                      title="Delete canned response"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {responses.length === 0 ? 'No canned responses yet.' : 'No responses match.'}
+            </p>
+          )}
+
+          <div className="border-t pt-3 space-y-2">
+            <span className="block text-sm font-medium text-gray-700">Save current reply</span>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleSave();
+                  }
+                }}
+                placeholder="Name, e.g. Printer driver"
+                className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving || !name.trim() || !draft.trim()}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isShared}
+                onChange={(e) => setIsShared(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Share with the team
+            </label>
+            <p className="text-xs text-gray-500">
+              Placeholders: {PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(', ')}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { useConnectionStatus, ConnectionStatus } from '../lib/realtime';
+
+const STATUS_STYLES: { [key in ConnectionStatus]: { label: string; dot: string; text: string } } = {
+  connected: { label: 'Live', dot: 'bg-green-500', text: 'text-green-700' },
+  connecting: { label: 'Connecting...', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-700' },
+  reconnecting: { label: 'Reconnecting...', dot: 'bg-orange-500 animate-pulse', text: 'text-orange-700' },
+  offline: { label: 'Offline', dot: 'bg-gray-400', text: 'text-gray-500' },
+};
+
+export default function ConnectionIndicator() {
+  const status = useConnectionStatus();
+  const style = STATUS_STYLES[status];
+
+  return (
+    <div
+      className={`flex items-center gap-2 text-sm font-medium ${style.text}`}
+      title={status === 'connected' ? 'Receiving live updates' : 'Live updates paused'}
+    >
+      <span className={`inline-block w-2.5 h-2.5 rounded-full ${style.dot}`} />
+      {style.label}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { CustomField, CustomFieldValues } from '../lib/supabase';
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  disabled?: boolean;
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function CustomFieldInputs({ fields, values, onChange, disabled }: CustomFieldInputsProps) {
+  if (fields.length === 0) return null;
+
+  // Cleared inputs are dropped rather than stored as empty strings.
+  const setValue = (key: string, value: string | number | boolean | undefined) => {
+    const next = { ...values };
+    if (value === undefined || value === '') delete next[key];
+    else next[key] = value;
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map((field) => {
+        const value = values[field.key];
+
+        if (field.field_type === 'checkbox') {
+          return (
+            <label key={field.id} className="flex items-center gap-2 text-sm text-gray-700 self-end pb-2">
+              <input
+                type="checkbox"
+                checked={value === true}
+                onChange={(e) => setValue(field.key, e.target.checked)}
+                disabled={disabled}
+              />
+              {field.label}
+              {field.is_required && ' *'}
+            </label>
+          );
+        }
+
+        return (
+          <div key={field.id}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {field.label}
+              {field.is_required && ' *'}
+            </label>
+            {field.field_type === 'select' ? (
+              <select
+                value={value === undefined ? '' : String(value)}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                disabled={disabled}
+                className={INPUT_CLASS}
+              >
+                <option value="">Select {field.label.toLowerCase()}</option>
+                {field.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : field.field_type === 'number' ? (
+              <input
+                type="number"
+                step="any"
+                value={value === undefined ? '' : String(value)}
+                min={field.min_value ?? undefined}
+                max={field.max_value ?? undefined}
+                onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : Number(e.target.value))}
+                disabled={disabled}
+                className={INPUT_CLASS}
+              />
+            ) : (
+              <input
+                type={field.field_type === 'date' ? 'date' : 'text'}
+                value={value === undefined ? '' : String(value)}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                disabled={disabled}
+                className={INPUT_CLASS}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+import { useState, useEffect } from 'react';
+import { supabase, Category, CustomField, CustomFieldType } from '../lib/supabase';
+import { useLookupChanges } from '../lib/realtime';
+import { useCustomFields, fieldsForCategory } from '../lib/customFields';
+import { SlidersHorizontal, Plus, Trash2, Pencil, X, ArrowUp, ArrowDown } from 'lucide-react';
+
+type FieldForm = {
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string;
+  is_required: boolean;
+  min_value: string;
+  max_value: string;
+};
+
+const FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'select', label: 'Select' },
+  { value: 'date', label: 'Date' },
+  { value: 'checkbox', label: 'Checkbox' },
+];
+
+const EMPTY_FORM: FieldForm = {
+  key: '',
+  label: '',
+  field_type: 'text',
+  options: '',
+  is_required: false,
+  min_value: '',
+  max_value: '',
+};
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function CustomFieldsAdmin() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryId, setCategoryId] = useState('');
+  const fields = useCustomFields();
+  // null while the form is closed; '' for a new field.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<FieldForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'categories') loadCategories();
+  });
+
+  const loadCategories = async () => {
+    const { data } = await supabase.from('categories').select('*').order('position').order('name');
+    if (data) {
+      setCategories(data);
+      setCategoryId((current) => current || data[0]?.id || '');
+    }
+  };
+
+  const list = fieldsForCategory(fields, categoryId);
+
+  const openForm = (field?: CustomField) => {
+    setEditingId(field?.id ?? '');
+    setFormData(
+      field
+        ? {
+            key: field.key,
+            label: field.label,
+            field_type: field.field_type,
+            options: field.options.join(', '),
+            is_required: field.is_required,
+            min_value: field.min_value?.toString() ?? '',
+            max_value: field.max_value?.toString() ?? '',
+          }
+        : EMPTY_FORM
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId === null) return;
+
+    const isNumber = formData.field_type === 'number';
+    const values: Record<string, unknown> = {
+      key: formData.key.trim(),
+      label: formData.label.trim(),
+      field_type: formData.field_type,
+      options:
+        formData.field_type === 'select'
+          ? formData.options
+              .split(',')
+              .map((option) => option.trim())
+              .filter(Boolean)
+          : [],
+      is_required: formData.is_required,
+      min_value: isNumber && formData.min_value !== '' ? Number(formData.min_value) : null,
+      max_value: isNumber && formData.max_value !== '' ? Number(formData.max_value) : null,
+    };
+
+    if (formData.field_type === 'select' && (values.options as string[]).length === 0) {
+      alert('A select field needs at least one option');
+      return;
+    }
+
+    // New fields go to the end of the form.
+    if (!editingId) {
+      values.category_id = categoryId;
+      values.position = list.length > 0 ? list[list.length - 1].position + 1 : 0;
+    }
+
+    setSaving(true);
+    const { error } = editingId
+      ? await supabase.from('custom_fields').update(values).eq('id', editingId)
+      : await supabase.from('custom_fields').insert([values]);
+
+    if (error) {
+      console.error('Error saving custom field:', error);
+      alert(`Failed to save field: ${error.message}`);
+    } else {
+      setEditingId(null);
+    }
+    setSaving(false);
+  };
+
+  // Swaps positions with the neighbour, the same way LookupAdmin reorders.
+  const handleMove = async (index: number, offset: number) => {
+    const field = list[index];
+    const neighbour = list[index + offset];
+    if (!neighbour) return;
+
+    const neighbourPosition = field.position;
+    const fieldPosition =
+      neighbour.position === neighbourPosition ? neighbourPosition + offset : neighbour.position;
+
+    const results = await Promise.all([
+      supabase.from('custom_fields').update({ position: fieldPosition }).eq('id', field.id),
+      supabase.from('custom_fields').update({ position: neighbourPosition }).eq('id', neighbour.id),
+    ]);
+    const error = results.find((result) => result.error)?.error;
+
+    if (error) {
+      console.error('Error reordering custom fields:', error);
+      alert('Failed to reorder fields');
+    }
+  };
+
+  const handleDelete = async (field: CustomField) => {
+    if (!confirm(`Delete ${field.label}? Values already on tickets are kept but no longer shown.`)) return;
+
+    const { error } = await supabase.from('custom_fields').delete().eq('id', field.id);
+    if (error) {
+      console.error('Error deleting custom field:', error);
+      alert('Failed to delete field');
+    }
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900">{editingId ? 'Edit field' : 'New field'}</h4>
+        <button
+          type="button"
+          onClick={() => setEditingId(null)}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Label *</label>
+          <input
+            type="text"
+            value={formData.label}
+            onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+            className={INPUT_CLASS}
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Key *</label>
+          <input
+            type="text"
+            value={formData.key}
+            onChange={(e) => setFormData({ ...formData, key: e.target.value })}
+            className={`${INPUT_CLASS} font-mono`}
+            placeholder="asset_tag"
+            pattern="[a-z][a-z0-9_]*"
+            title="Lowercase letters, digits and underscores, starting with a letter"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+          <select
+            value={formData.field_type}
+            onChange={(e) => setFormData({ ...formData, field_type: e.target.value as CustomFieldType })}
+            className={INPUT_CLASS}
+          >
+            {FIELD_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {formData.field_type === 'select' && (
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Options *</label>
+            <input
+              type="text"
+              value={formData.options}
+              onChange={(e) => setFormData({ ...formData, options: e.target.value })}
+              className={INPUT_CLASS}
+              placeholder="Windows, macOS, Linux"
+            />
+          </div>
+        )}
+
+        {formData.field_type === 'number' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum</label>
+              <input
+                type="number"
+                step="any"
+                value={formData.min_value}
+                onChange={(e) => setFormData({ ...formData, min_value: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Maximum</label>
+              <input
+                type="number"
+                step="any"
+                value={formData.max_value}
+                onChange={(e) => setFormData({ ...formData, max_value: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={formData.is_required}
+          onChange={(e) => setFormData({ ...formData, is_required: e.target.checked })}
+        />
+        Required when a ticket is created
+      </label>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={() => setEditingId(null)}
+          className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+
+  const describe = (field: CustomField) => {
+    if (field.field_type === 'select') return field.options.join(', ');
+    if (field.field_type === 'number' && (field.min_value !== null || field.max_value !== null)) {
+      return `${field.min_value ?? '…'} to ${field.max_value ?? '…'}`;
+    }
+    return '';
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-900 flex items-center mb-4">
+        <SlidersHorizontal className="mr-2" size={24} />
+        Custom Fields
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Extra fields shown on the ticket form for a category. Search them by key, e.g.{' '}
+        <code className="font-mono">asset_tag:A-1234</code>.
+      </p>
+
+      <div className="flex items-center justify-between mb-3">
+        <select
+          value={categoryId}
+          onChange={(e) => {
+            setCategoryId(e.target.value);
+            setEditingId(null);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => openForm()}
+          disabled={!categoryId}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Plus size={16} />
+          Add
+        </button>
+      </div>
+
+      {editingId !== null && renderForm()}
+
+      {list.length === 0 ? (
+        <p className="text-sm text-gray-500">No custom fields for this category.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium w-16">Order</th>
+              <th className="py-2 font-medium">Label</th>
+              <th className="py-2 font-medium">Key</th>
+              <th className="py-2 font-medium">Type</th>
+              <th className="py-2 font-medium">Options</th>
+              <th className="py-2 font-medium">Required</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {list.map((field, index) => (
+              <tr key={field.id}>
+                <td className="py-2 whitespace-nowrap">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === list.length - 1}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                </td>
+                <td className="py-2 font-medium text-gray-900">{field.label}</td>
+                <td className="py-2 font-mono text-gray-700">{field.key}</td>
+                <td className="py-2 text-gray-700">
+                  {FIELD_TYPES.find((type) => type.value === field.field_type)?.label}
+                </td>
+                <td className="py-2 text-gray-600">{describe(field) || '—'}</td>
+                <td className="py-2 text-gray-700">{field.is_required ? 'Yes' : 'No'}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => openForm(field)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(field)}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,8 @@
 import { useState, useEffect } from 'react';
-import { supabase, TicketWithRelations } from '../lib/supabase';
-import { BarChart3, Clock, CheckCircle, AlertCircle, TrendingUp } from 'lucide-react';
-
-interface DashboardProps {
-  refreshTrigger: number;
-}
+import { supabase, TicketWithRelations, Agent } from '../lib/supabase';
+import { useTicketChanges, applyTicketChange } from '../lib/realtime';
+import { statusPhase } from '../lib/tickets';
+import { BarChart3, Clock, CheckCircle, AlertCircle, TrendingUp, Users } from 'lucide-react';
 
 interface Stats {
   total: number;
@@ -17,86 +15,123 @@ interface Stats {
   avgResolutionTime: string;
 }
 
-export default function Dashboard({ refreshTrigger }: DashboardProps) {
-  const [stats, setStats] = useState<Stats>({
-    total: 0,
-    open: 0,
-    inProgress: 0,
-    resolved: 0,
-    closed: 0,
-    byCategory: {},
-    byPriority: {},
-    avgResolutionTime: 'N/A',
+const calculateStats = (tickets: TicketWithRelations[]): Stats => {
+  const total = tickets.length;
+  const open = tickets.filter((t) => statusPhase(t.statuses) === 'new').length;
+  const inProgress = tickets.filter((t) => statusPhase(t.statuses) === 'active').length;
+  const resolved = tickets.filter((t) => statusPhase(t.statuses) === 'resolved').length;
+  const closed = tickets.filter((t) => statusPhase(t.statuses) === 'closed').length;
+
+  const byCategory: { [key: string]: number } = {};
+  const byPriority: { [key: string]: number } = {};
+
+  tickets.forEach((ticket) => {
+    const catName = ticket.categories.name;
+    const priName = ticket.priorities.name;
+    byCategory[catName] = (byCategory[catName] || 0) + 1;
+    byPriority[priName] = (byPriority[priName] || 0) + 1;
   });
-  const [recentTickets, setRecentTickets] = useState<TicketWithRelations[]>([]);
+
+  const resolvedTickets = tickets.filter((t) => t.resolved_at);
+  let avgResolutionTime = 'N/A';
+
+  if (resolvedTickets.length > 0) {
+    const totalTime = resolvedTickets.reduce((sum, ticket) => {
+      const created = new Date(ticket.created_at).getTime();
+      const resolved = new Date(ticket.resolved_at!).getTime();
+      return sum + (resolved - created);
+    }, 0);
+
+    const avgMilliseconds = totalTime / resolvedTickets.length;
+    const avgHours = Math.round(avgMilliseconds / (1000 * 60 * 60));
+    avgResolutionTime = `${avgHours} hours`;
+  }
+
+  return {
+    total,
+    open,
+    inProgress,
+    resolved,
+    closed,
+    byCategory,
+    byPriority,
+    avgResolutionTime,
+  };
+};
+
+type AgentWorkload = {
+  id: string | null;
+  name: string;
+  team: string;
+  isActive: boolean;
+  open: number;
+};
+
+const calculateWorkload = (tickets: TicketWithRelations[], agents: Agent[]): AgentWorkload[] => {
+  const openTickets = tickets.filter((t) => !t.statuses.is_closed && !t.resolved_at);
+  const counts: { [key: string]: number } = {};
+
+  openTickets.forEach((ticket) => {
+    const key = ticket.assignee_id ?? '';
+    counts[key] = (counts[key] || 0) + 1;
+  });
+
+  const workload: AgentWorkload[] = agents
+    .filter((agent) => agent.is_active || counts[agent.id])
+    .map((agent) => ({
+      id: agent.id,
+      name: agent.name,
+      team: agent.team,
+      isActive: agent.is_active,
+      open: counts[agent.id] || 0,
+    }))
+    .sort((a, b) => b.open - a.open || a.name.localeCompare(b.name));
+
+  if (counts['']) {
+    workload.push({ id: null, name: 'Unassigned', team: '', isActive: true, open: counts[''] });
+  }
+
+  return workload;
+};
+
+export default function Dashboard() {
+  const [tickets, setTickets] = useState<TicketWithRelations[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadDashboardData();
-  }, [refreshTrigger]);
+  }, []);
 
-  const loadDashboardData = async () => {
-    setLoading(true);
+  useTicketChanges(
+    (change) => setTickets((prev) => applyTicketChange(prev, change)),
+    () => loadDashboardData()
+  );
 
-    const { data: tickets } = await supabase
+  const loadDashboardData = async () => {
+    const agentsRes = supabase.from('agents').select('*').order('name');
+    const { data } = await supabase
       .from('tickets')
       .select(`
         *,
         categories (*),
         priorities (*),
-        statuses (*)
+        statuses (*),
+        agents (*)
       `)
       .order('created_at', { ascending: false });
 
-    if (tickets) {
-      const total = tickets.length;
-      const open = tickets.filter((t) => t.statuses.name === 'Open').length;
-      const inProgress = tickets.filter((t) => t.statuses.name === 'In Progress').length;
-      const resolved = tickets.filter((t) => t.statuses.name === 'Resolved').length;
-      const closed = tickets.filter((t) => t.statuses.name === 'Closed').length;
-
-      const byCategory: { [key: string]: number } = {};
-      const byPriority: { [key: string]: number } = {};
-
-      tickets.forEach((ticket) => {
-        const catName = ticket.categories.name;
-        const priName = ticket.priorities.name;
-        byCategory[catName] = (byCategory[catName] || 0) + 1;
-        byPriority[priName] = (byPriority[priName] || 0) + 1;
-      });
-
-      const resolvedTickets = tickets.filter((t) => t.resolved_at);
-      let avgResolutionTime = 'N/A';
-
-      if (resolvedTickets.length > 0) {
-        const totalTime = resolvedTickets.reduce((sum, ticket) => {
-          const created = new Date(ticket.created_at).getTime();
-          const resolved = new Date(ticket.resolved_at!).getTime();
-          return sum + (resolved - created);
-        }, 0);
-
-        const avgMilliseconds = totalTime / resolvedTickets.length;
-        const avgHours = Math.round(avgMilliseconds / (1000 * 60 * 60));
-        avgResolutionTime = `${avgHours} hours`;
-      }
-
-      setStats({
-        total,
-        open,
-        inProgress,
-        resolved,
-        closed,
-        byCategory,
-        byPriority,
-        avgResolutionTime,
-      });
-
-      setRecentTickets(tickets.slice(0, 5));
-    }
-
+    if (data) setTickets(data);
+    const { data: agentsData } = await agentsRes;
+    if (agentsData) setAgents(agentsData);
     setLoading(false);
   };
 
+  const stats = calculateStats(tickets);
+  const recentTickets = tickets.slice(0, 5);
+  const workload = calculateWorkload(tickets, agents);
+  const maxWorkload = Math.max(1, ...workload.map((w) => w.open));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -238,6 +273,34 @@ export default function Dashboard({ refreshTrigger }: DashboardProps) {
         </div>
       </div>
 
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Users className="mr-2" size={20} />
+          Agent Workload
+        </h3>
+        <div className="space-y-3">
+          {workload.map((entry) => (
+            <div key={entry.id ?? 'unassigned'} className={entry.isActive ? '' : 'opacity-60'}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-gray-700">
+                  {entry.name}
+                  {entry.team && <span className="ml-2 text-xs text-gray-500">{entry.team}</span>}
+                  {!entry.isActive && <span className="ml-2 text-xs text-gray-400">(inactive)</span>}
+                </span>
+                <span className="font-medium text-gray-900">{entry.open} open</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`${entry.id ? 'bg-blue-600' : 'bg-gray-400'} h-2 rounded-full transition-all`}
+                  style={{ width: `${(entry.open / maxWorkload) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+          {workload.length === 0 && <p className="text-center text-gray-500 py-4">No agents yet</p>}
+        </div>
+      </div>
+
       <div className="bg-white rounded-lg shadow p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Tickets</h3>
         <div className="space-y-3">
@@ -0,0 +1,376 @@
+import { useState, useEffect } from 'react';
+import { supabase, Agent, EscalationPolicy, EscalationReport, Priority } from '../lib/supabase';
+import { activeOptions } from '../lib/ticketSearch';
+import { describeChange } from '../lib/macros';
+import AgentPicker from './AgentPicker';
+import { Flame, Plus, Trash2, Pencil, X, Play, Eye } from 'lucide-react';
+
+type PolicyForm = {
+  priority_id: string;
+  idle_hours: number;
+  escalate_to_priority_id: string;
+  reassign_to_id: string | null;
+  is_enabled: boolean;
+};
+
+const EMPTY_FORM: PolicyForm = {
+  priority_id: '',
+  idle_hours: 24,
+  escalate_to_priority_id: '',
+  reassign_to_id: null,
+  is_enabled: true,
+};
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function EscalationPolicies() {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<PolicyForm>(EMPTY_FORM);
+  const [report, setReport] = useState<EscalationReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    const [policiesRes, prioritiesRes, agentsRes] = await Promise.all([
+      supabase.from('escalation_policies').select('*'),
+      supabase.from('priorities').select('*').order('level'),
+      supabase.from('agents').select('*').order('name'),
+    ]);
+
+    if (policiesRes.data) setPolicies(policiesRes.data);
+    if (prioritiesRes.data) setPriorities(prioritiesRes.data);
+    if (agentsRes.data) setAgents(agentsRes.data);
+    setLoading(false);
+  };
+
+  const priorityName = (priorityId: string | null) =>
+    priorities.find((priority) => priority.id === priorityId)?.name ?? 'Removed priority';
+  const agentName = (agentId: string | null) => agents.find((agent) => agent.id === agentId)?.name ?? 'Removed agent';
+
+  // Lowest priority first, as the escalation ladder climbs.
+  const priorityLevel = (priorityId: string) => priorities.find((priority) => priority.id === priorityId)?.level ?? 0;
+  const sortedPolicies = [...policies].sort((a, b) => priorityLevel(a.priority_id) - priorityLevel(b.priority_id));
+
+  const openForm = (policy?: EscalationPolicy) => {
+    setEditingId(policy?.id ?? null);
+    setFormData(
+      policy
+        ? {
+            priority_id: policy.priority_id,
+            idle_hours: policy.idle_hours,
+            escalate_to_priority_id: policy.escalate_to_priority_id ?? '',
+            reassign_to_id: policy.reassign_to_id,
+            is_enabled: policy.is_enabled,
+          }
+        : EMPTY_FORM
+    );
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.escalate_to_priority_id && !formData.reassign_to_id) {
+      alert('Choose a priority to bump to, an agent to reassign to, or both');
+      return;
+    }
+    if (formData.escalate_to_priority_id === formData.priority_id) {
+      alert('Bump tickets to a different priority');
+      return;
+    }
+
+    setSaving(true);
+    const values = {
+      ...formData,
+      escalate_to_priority_id: formData.escalate_to_priority_id || null,
+    };
+
+    const { error } = editingId
+      ? await supabase.from('escalation_policies').update(values).eq('id', editingId)
+      : await supabase.from('escalation_policies').insert([values]);
+
+    if (error) {
+      console.error('Error saving escalation policy:', error);
+      alert(
+        error.code === '23505'
+          ? 'That priority already has an escalation policy'
+          : `Failed to save escalation policy: ${error.message}`
+      );
+    } else {
+      setShowForm(false);
+      loadData();
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (policy: EscalationPolicy) => {
+    if (!confirm(`Delete the escalation policy for ${priorityName(policy.priority_id)} tickets?`)) return;
+
+    const { error } = await supabase.from('escalation_policies').delete().eq('id', policy.id);
+
+    if (error) {
+      console.error('Error deleting escalation policy:', error);
+      alert('Failed to delete escalation policy');
+    } else {
+      loadData();
+    }
+  };
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('Escalate every ticket that is due now?')) return;
+
+    setRunning(true);
+    const { data, error } = await supabase.functions.invoke('escalate-tickets', { body: { dry_run: dryRun } });
+    if (error) {
+      console.error('Error running escalation:', error);
+      alert('Failed to run escalation');
+    } else {
+      setReport(data as EscalationReport);
+    }
+    setRunning(false);
+  };
+
+  const describePolicy = (policy: EscalationPolicy) => {
+    const parts: string[] = [];
+    if (policy.escalate_to_priority_id) parts.push(`Bump to ${priorityName(policy.escalate_to_priority_id)}`);
+    if (policy.reassign_to_id) parts.push(`Reassign to ${agentName(policy.reassign_to_id)}`);
+    return parts.join(', ') || 'Nothing (fix or delete this policy)';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading escalation policies...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <Flame className="mr-2" size={24} />
+          Escalation
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleRun(true)}
+            disabled={running}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <Eye size={18} />
+            Preview
+          </button>
+          <button
+            onClick={() => handleRun(false)}
+            disabled={running}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <Play size={18} />
+            Run Now
+          </button>
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={18} />
+            New Policy
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Open tickets that go longer than their priority allows without an agent commenting on or changing them are
+        bumped up or handed to someone else, with an internal note saying why. Tickets waiting on the requester are
+        left alone. The escalate-tickets job checks on a schedule.
+      </p>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">{editingId ? 'Edit Policy' : 'New Policy'}</h3>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tickets at *</label>
+              <select
+                value={formData.priority_id}
+                onChange={(e) => setFormData({ ...formData, priority_id: e.target.value })}
+                className={INPUT_CLASS}
+                required
+              >
+                <option value="">Choose a priority</option>
+                {activeOptions(priorities, formData.priority_id).map((priority) => (
+                  <option key={priority.id} value={priority.id}>
+                    {priority.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Idle for (hours) *</label>
+              <input
+                type="number"
+                min={0.25}
+                step="any"
+                value={formData.idle_hours}
+                onChange={(e) => setFormData({ ...formData, idle_hours: Number(e.target.value) })}
+                className={INPUT_CLASS}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Bump to</label>
+              <select
+                value={formData.escalate_to_priority_id}
+                onChange={(e) => setFormData({ ...formData, escalate_to_priority_id: e.target.value })}
+                className={INPUT_CLASS}
+              >
+                <option value="">Keep the priority</option>
+                {activeOptions(priorities, formData.escalate_to_priority_id).map((priority) => (
+                  <option key={priority.id} value={priority.id}>
+                    {priority.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reassign to</label>
+              <AgentPicker
+                agents={agents}
+                value={formData.reassign_to_id}
+                onChange={(agentId) => setFormData({ ...formData, reassign_to_id: agentId })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.is_enabled}
+                onChange={(e) => setFormData({ ...formData, is_enabled: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              Enabled
+            </label>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Policy'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {policies.length === 0 ? (
+        <p className="text-center text-gray-500 py-4">No escalation policies yet. Stale tickets stay as they are.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Priority</th>
+              <th className="py-2 font-medium">Idle for</th>
+              <th className="py-2 font-medium">Then</th>
+              <th className="py-2 font-medium">Enabled</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {sortedPolicies.map((policy) => (
+              <tr key={policy.id}>
+                <td className="py-2 font-medium text-gray-900">{priorityName(policy.priority_id)}</td>
+                <td className="py-2 text-gray-700">{policy.idle_hours} hours</td>
+                <td className="py-2 text-gray-700">{describePolicy(policy)}</td>
+                <td className="py-2 text-gray-700">{policy.is_enabled ? 'Yes' : 'No'}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => openForm(policy)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(policy)}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {report && (
+        <div className="mt-4 border-t pt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900">
+              {report.dry_run ? 'Would escalate' : 'Escalated'} {report.escalated}
+              {report.failed > 0 && `, ${report.failed} failed`}
+            </h3>
+            <button onClick={() => setReport(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X size={16} />
+            </button>
+          </div>
+          {report.tickets.length === 0 ? (
+            <p className="text-sm text-gray-500">No tickets are due for escalation.</p>
+          ) : (
+            <ul className="text-sm divide-y divide-gray-100 max-h-64 overflow-y-auto">
+              {report.tickets.map((ticket) => (
+                <li key={ticket.ticket_id} className="py-2">
+                  <span className="font-mono text-gray-900">{ticket.ticket_number}</span>
+                  {ticket.success ? (
+                    <ul className="mt-1 text-gray-600 list-disc list-inside">
+                      {ticket.changes
+                        .filter((change) => change.field !== 'comment')
+                        .map((change, i) => (
+                          <li key={i}>{describeChange(change)}</li>
+                        ))}
+                    </ul>
+                  ) : (
+                    <p className="mt-1 text-red-600">{ticket.error}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,499 @@
+import { useState, useEffect } from 'react';
+import { supabase, Category, Priority, Status } from '../lib/supabase';
+import { useLookupChanges, LookupTable } from '../lib/realtime';
+import { ListOrdered, Plus, Trash2, Pencil, X, ArrowUp, ArrowDown, Archive, ArchiveRestore } from 'lucide-react';
+
+type LookupKind = 'category' | 'priority' | 'status';
+
+type LookupValue = Category | Priority | Status;
+
+type LookupForm = {
+  name: string;
+  color: string;
+  description: string;
+  is_closed: boolean;
+  is_resolved: boolean;
+  is_paused: boolean;
+};
+
+type Editing = { kind: LookupKind; id: string | null };
+
+type Deleting = { kind: LookupKind; value: LookupValue; replacementId: string };
+
+// Each kind keeps its display order in a different column: priorities sort
+// by level and statuses by their workflow order.
+const KINDS: Record<LookupKind, { table: LookupTable; orderColumn: string; title: string; singular: string }> = {
+  category: { table: 'categories', orderColumn: 'position', title: 'Categories', singular: 'category' },
+  priority: { table: 'priorities', orderColumn: 'level', title: 'Priorities', singular: 'priority' },
+  status: { table: 'statuses', orderColumn: 'order', title: 'Statuses', singular: 'status' },
+};
+
+const KIND_ORDER: LookupKind[] = ['category', 'priority', 'status'];
+
+const EMPTY_FORM: LookupForm = {
+  name: '',
+  color: '#6b7280',
+  description: '',
+  is_closed: false,
+  is_resolved: false,
+  is_paused: false,
+};
+
+// The flags that decide what entering a status does to a ticket.
+const LIFECYCLE_FLAGS: { key: 'is_resolved' | 'is_closed' | 'is_paused'; label: string }[] = [
+  { key: 'is_resolved', label: 'Resolves the ticket' },
+  { key: 'is_closed', label: 'Closes the ticket' },
+  { key: 'is_paused', label: 'Pauses the SLA clock' },
+];
+
+const orderOf = (kind: LookupKind, value: LookupValue) => {
+  if (kind === 'category') return (value as Category).position;
+  if (kind === 'priority') return (value as Priority).level;
+  return (value as Status).order;
+};
+
+export default function LookupAdmin() {
+  const [values, setValues] = useState<Record<LookupKind, LookupValue[]>>({ category: [], priority: [], status: [] });
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [formData, setFormData] = useState<LookupForm>(EMPTY_FORM);
+  const [deleting, setDeleting] = useState<Deleting | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Another admin's edits arrive here too, so two open consoles stay in step.
+  useLookupChanges((table) => {
+    if (table === 'categories' || table === 'priorities' || table === 'statuses') loadData();
+  });
+
+  const loadData = async () => {
+    const [categoriesRes, prioritiesRes, statusesRes, usageRes] = await Promise.all([
+      supabase.from('categories').select('*').order('position').order('name'),
+      supabase.from('priorities').select('*').order('level'),
+      supabase.from('statuses').select('*').order('order'),
+      supabase.rpc('lookup_usage'),
+    ]);
+
+    setValues({
+      category: categoriesRes.data ?? [],
+      priority: prioritiesRes.data ?? [],
+      status: statusesRes.data ?? [],
+    });
+    if (usageRes.data) {
+      setUsage(
+        Object.fromEntries(
+          (usageRes.data as { kind: LookupKind; id: string; ticket_count: number }[]).map((row) => [
+            `${row.kind}:${row.id}`,
+            Number(row.ticket_count),
+          ])
+        )
+      );
+    }
+    setLoading(false);
+  };
+
+  const ticketCount = (kind: LookupKind, id: string) => usage[`${kind}:${id}`] ?? 0;
+
+  const openForm = (kind: LookupKind, value?: LookupValue) => {
+    setEditing({ kind, id: value?.id ?? null });
+    setFormData(
+      value
+        ? {
+            name: value.name,
+            color: value.color,
+            description: kind === 'category' ? (value as Category).description ?? '' : '',
+            is_closed: kind === 'status' ? (value as Status).is_closed : false,
+            is_resolved: kind === 'status' ? (value as Status).is_resolved : false,
+            is_paused: kind === 'status' ? (value as Status).is_paused : false,
+          }
+        : EMPTY_FORM
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setSaving(true);
+
+    const { kind, id } = editing;
+    const { table, orderColumn } = KINDS[kind];
+    const fields: Record<string, unknown> = { name: formData.name.trim(), color: formData.color };
+    if (kind === 'category') fields.description = formData.description;
+    if (kind === 'status') {
+      LIFECYCLE_FLAGS.forEach(({ key }) => (fields[key] = formData[key]));
+    }
+
+    // New values go to the end of the list.
+    if (!id) {
+      const last = values[kind][values[kind].length - 1];
+      fields[orderColumn] = last ? orderOf(kind, last) + 1 : 0;
+    }
+
+    const { error } = id
+      ? await supabase.from(table).update(fields).eq('id', id)
+      : await supabase.from(table).insert([fields]);
+
+    if (error) {
+      console.error(`Error saving ${KINDS[kind].singular}:`, error);
+      alert(`Failed to save ${KINDS[kind].singular}: ${error.message}`);
+    } else {
+      setEditing(null);
+      loadData();
+    }
+    setSaving(false);
+  };
+
+  // Swaps the order value with the neighbour, so values that share a number
+  // still end up in a definite order.
+  const handleMove = async (kind: LookupKind, index: number, offset: number) => {
+    const list = values[kind];
+    const value = list[index];
+    const neighbour = list[index + offset];
+    if (!neighbour) return;
+
+    const { table, orderColumn } = KINDS[kind];
+    const neighbourOrder = orderOf(kind, value);
+    const swapped = orderOf(kind, neighbour);
+    const valueOrder = swapped === neighbourOrder ? neighbourOrder + offset : swapped;
+
+    const results = await Promise.all([
+      supabase.from(table).update({ [orderColumn]: valueOrder }).eq('id', value.id),
+      supabase.from(table).update({ [orderColumn]: neighbourOrder }).eq('id', neighbour.id),
+    ]);
+    const error = results.find((result) => result.error)?.error;
+
+    if (error) {
+      console.error(`Error reordering ${KINDS[kind].title.toLowerCase()}:`, error);
+      alert(`Failed to reorder ${KINDS[kind].title.toLowerCase()}`);
+    }
+    loadData();
+  };
+
+  const handleArchive = async (kind: LookupKind, value: LookupValue) => {
+    if (kind === 'status' && (value as Status).is_default && !value.is_archived) {
+      alert('Make another status the default before archiving this one');
+      return;
+    }
+
+    const { error } = await supabase
+      .from(KINDS[kind].table)
+      .update({ is_archived: !value.is_archived })
+      .eq('id', value.id);
+
+    if (error) {
+      console.error(`Error archiving ${KINDS[kind].singular}:`, error);
+      alert(`Failed to update ${KINDS[kind].singular}`);
+    } else {
+      loadData();
+    }
+  };
+
+  const handleSetDefault = async (status: Status) => {
+    const { error } = await supabase.rpc('set_default_status', { p_status_id: status.id });
+
+    if (error) {
+      console.error('Error setting default status:', error);
+      alert(`Failed to set default status: ${error.message}`);
+    } else {
+      loadData();
+    }
+  };
+
+  const startDelete = (kind: LookupKind, value: LookupValue) => {
+    if (kind === 'status' && (value as Status).is_default) {
+      alert('Make another status the default before deleting this one');
+      return;
+    }
+
+    if (ticketCount(kind, value.id) === 0) {
+      if (!confirm(`Delete the ${KINDS[kind].singular} "${value.name}"?`)) return;
+      deleteValue(kind, value, null);
+      return;
+    }
+
+    setDeleting({ kind, value, replacementId: '' });
+  };
+
+  const deleteValue = async (kind: LookupKind, value: LookupValue, replacementId: string | null) => {
+    setSaving(true);
+    const { error } = await supabase.rpc('delete_lookup_value', {
+      p_kind: kind,
+      p_id: value.id,
+      p_replacement_id: replacementId,
+    });
+
+    if (error) {
+      console.error(`Error deleting ${KINDS[kind].singular}:`, error);
+      alert(`Failed to delete ${KINDS[kind].singular}: ${error.message}`);
+    } else {
+      setDeleting(null);
+      loadData();
+    }
+    setSaving(false);
+  };
+
+  const renderForm = (kind: LookupKind) => (
+    <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900">
+          {editing?.id ? `Edit ${KINDS[kind].singular}` : `New ${KINDS[kind].singular}`}
+        </h4>
+        <button
+          type="button"
+          onClick={() => setEditing(null)}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+          <input
+            type="color"
+            value={formData.color}
+            onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+            className="w-full h-10 px-1 py-1 border border-gray-300 rounded-lg"
+          />
+        </div>
+
+        {kind === 'category' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        )}
+
+        {kind === 'status' && (
+          <div className="flex flex-col gap-1 text-sm text-gray-700">
+            {LIFECYCLE_FLAGS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData[key]}
+                  onChange={(e) => setFormData({ ...formData, [key]: e.target.checked })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={() => setEditing(null)}
+          className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderDeleteForm = ({ kind, value, replacementId }: Deleting) => {
+    const count = ticketCount(kind, value.id);
+    const replacements = values[kind].filter((item) => item.id !== value.id && !item.is_archived);
+
+    return (
+      <div className="border border-red-200 bg-red-50 rounded-lg p-4 mb-4 space-y-3">
+        <p className="text-sm text-gray-800">
+          <span className="font-medium">{value.name}</span> is used by {count} {count === 1 ? 'ticket' : 'tickets'}.
+          Choose where to move {count === 1 ? 'it' : 'them'} before it's deleted.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={replacementId}
+            onChange={(e) => setDeleting({ kind, value, replacementId: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Select replacement</option>
+            {replacements.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => deleteValue(kind, value, replacementId)}
+            disabled={!replacementId || saving}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Deleting...' : 'Move tickets and delete'}
+          </button>
+          <button
+            onClick={() => setDeleting(null)}
+            className="px-4 py-2 text-gray-700 bg-white rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSection = (kind: LookupKind) => {
+    const list = values[kind];
+
+    return (
+      <div key={kind}>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-gray-900">{KINDS[kind].title}</h3>
+          <button
+            onClick={() => openForm(kind)}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+          >
+            <Plus size={16} />
+            Add
+          </button>
+        </div>
+
+        {editing?.kind === kind && renderForm(kind)}
+        {deleting?.kind === kind && renderDeleteForm(deleting)}
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium w-16">Order</th>
+              <th className="py-2 font-medium">Name</th>
+              {kind === 'category' && <th className="py-2 font-medium">Description</th>}
+              {kind === 'status' && <th className="py-2 font-medium">Lifecycle</th>}
+              {kind === 'status' && <th className="py-2 font-medium">Initial</th>}
+              <th className="py-2 font-medium">Tickets</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {list.map((value, index) => (
+              <tr key={value.id} className={value.is_archived ? 'opacity-50' : ''}>
+                <td className="py-2 whitespace-nowrap">
+                  <button
+                    onClick={() => handleMove(kind, index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleMove(kind, index, 1)}
+                    disabled={index === list.length - 1}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                </td>
+                <td className="py-2">
+                  <span className="flex items-center gap-2 font-medium text-gray-900">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: value.color }} />
+                    {value.name}
+                    {value.is_archived && <span className="text-xs font-normal text-gray-500">(archived)</span>}
+                  </span>
+                </td>
+                {kind === 'category' && (
+                  <td className="py-2 text-gray-600">{(value as Category).description}</td>
+                )}
+                {kind === 'status' && (
+                  <td className="py-2 text-gray-700">
+                    {LIFECYCLE_FLAGS.filter(({ key }) => (value as Status)[key])
+                      .map(({ label }) => label)
+                      .join(', ') || '—'}
+                  </td>
+                )}
+                {kind === 'status' && (
+                  <td className="py-2">
+                    <input
+                      type="radio"
+                      name="default-status"
+                      checked={(value as Status).is_default}
+                      disabled={value.is_archived}
+                      onChange={() => handleSetDefault(value as Status)}
+                      title="New tickets start in this status"
+                    />
+                  </td>
+                )}
+                <td className="py-2 text-gray-700">{ticketCount(kind, value.id)}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => openForm(kind, value)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleArchive(kind, value)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title={value.is_archived ? 'Restore' : 'Archive'}
+                  >
+                    {value.is_archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                  </button>
+                  <button
+                    onClick={() => startDelete(kind, value)}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading categories, priorities and statuses...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-900 flex items-center mb-4">
+        <ListOrdered className="mr-2" size={24} />
+        Categories, Priorities and Statuses
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Archived values stay on existing tickets but aren't offered for new ones. A value still used by tickets can
+        only be deleted by moving those tickets to another value.
+      </p>
+
+      <div className="space-y-8">{KIND_ORDER.map(renderSection)}</div>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+import { useState, useEffect } from 'react';
+import { supabase, Agent, Category, Priority, Status, Macro, MacroAssigneeAction } from '../lib/supabase';
+import { useLookupChanges } from '../lib/realtime';
+import { useMacros } from '../lib/macros';
+import { activeOptions } from '../lib/ticketSearch';
+import { PLACEHOLDERS } from '../lib/templates';
+import AgentPicker from './AgentPicker';
+import { Zap, Plus, Trash2, Pencil, X, ArrowUp, ArrowDown } from 'lucide-react';
+
+type MacroForm = {
+  name: string;
+  description: string;
+  status_id: string;
+  priority_id: string;
+  category_id: string;
+  assignee_action: MacroAssigneeAction;
+  assignee_id: string | null;
+  comment: string;
+  comment_is_internal: boolean;
+};
+
+const EMPTY_FORM: MacroForm = {
+  name: '',
+  description: '',
+  status_id: '',
+  priority_id: '',
+  category_id: '',
+  assignee_action: 'keep',
+  assignee_id: null,
+  comment: '',
+  comment_is_internal: false,
+};
+
+const ASSIGNEE_ACTIONS: { value: MacroAssigneeAction; label: string }[] = [
+  { value: 'keep', label: "Don't change" },
+  { value: 'me', label: 'Whoever runs the macro' },
+  { value: 'set', label: 'A specific agent' },
+  { value: 'unassign', label: 'Unassign' },
+];
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function MacroAdmin() {
+  const macros = useMacros();
+  const [statuses, setStatuses] = useState<Status[]>([]);
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  // null while the form is closed; '' for a new macro.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<MacroForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadLookups();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'categories' || table === 'priorities' || table === 'statuses') loadLookups();
+  });
+
+  const loadLookups = async () => {
+    const [statusesRes, prioritiesRes, categoriesRes, agentsRes] = await Promise.all([
+      supabase.from('statuses').select('*').order('order'),
+      supabase.from('priorities').select('*').order('level'),
+      supabase.from('categories').select('*').order('position').order('name'),
+      supabase.from('agents').select('*').order('name'),
+    ]);
+    if (statusesRes.data) setStatuses(statusesRes.data);
+    if (prioritiesRes.data) setPriorities(prioritiesRes.data);
+    if (categoriesRes.data) setCategories(categoriesRes.data);
+    if (agentsRes.data) setAgents(agentsRes.data);
+  };
+
+  const openForm = (macro?: Macro) => {
+    setEditingId(macro?.id ?? '');
+    setFormData(
+      macro
+        ? {
+            name: macro.name,
+            description: macro.description,
+            status_id: macro.status_id ?? '',
+            priority_id: macro.priority_id ?? '',
+            category_id: macro.category_id ?? '',
+            assignee_action: macro.assignee_action,
+            assignee_id: macro.assignee_id,
+            comment: macro.comment,
+            comment_is_internal: macro.comment_is_internal,
+          }
+        : EMPTY_FORM
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId === null) return;
+
+    if (formData.assignee_action === 'set' && !formData.assignee_id) {
+      alert('Choose the agent to assign to');
+      return;
+    }
+
+    const values: Record<string, unknown> = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      status_id: formData.status_id || null,
+      priority_id: formData.priority_id || null,
+      category_id: formData.category_id || null,
+      assignee_action: formData.assignee_action,
+      assignee_id: formData.assignee_action === 'set' ? formData.assignee_id : null,
+      comment: formData.comment,
+      comment_is_internal: formData.comment_is_internal,
+    };
+    if (!editingId) {
+      const last = macros[macros.length - 1];
+      values.position = last ? last.position + 1 : 0;
+    }
+
+    setSaving(true);
+    const { error } = editingId
+      ? await supabase.from('macros').update(values).eq('id', editingId)
+      : await supabase.from('macros').insert([values]);
+
+    if (error) {
+      console.error('Error saving macro:', error);
+      alert(`Failed to save macro: ${error.message}`);
+    } else {
+      setEditingId(null);
+    }
+    setSaving(false);
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const macro = macros[index];
+    const neighbour = macros[index + offset];
+    if (!neighbour) return;
+
+    const neighbourPosition = macro.position;
+    const macroPosition = neighbour.position === neighbourPosition ? neighbourPosition + offset : neighbour.position;
+
+    const results = await Promise.all([
+      supabase.from('macros').update({ position: macroPosition }).eq('id', macro.id),
+      supabase.from('macros').update({ position: neighbourPosition }).eq('id', neighbour.id),
+    ]);
+    const error = results.find((result) => result.error)?.error;
+
+    if (error) {
+      console.error('Error reordering macros:', error);
+      alert('Failed to reorder macros');
+    }
+  };
+
+  const handleDelete = async (macro: Macro) => {
+    if (!confirm(`Delete the macro "${macro.name}"?`)) return;
+
+    const { error } = await supabase.from('macros').delete().eq('id', macro.id);
+    if (error) {
+      console.error('Error deleting macro:', error);
+      alert('Failed to delete macro');
+    }
+  };
+
+  const nameOf = (list: { id: string; name: string }[], id: string | null) =>
+    list.find((item) => item.id === id)?.name ?? '?';
+
+  const summarize = (macro: Macro) => {
+    const parts: string[] = [];
+    if (macro.status_id) parts.push(`Status → ${nameOf(statuses, macro.status_id)}`);
+    if (macro.priority_id) parts.push(`Priority → ${nameOf(priorities, macro.priority_id)}`);
+    if (macro.category_id) parts.push(`Category → ${nameOf(categories, macro.category_id)}`);
+    if (macro.assignee_action === 'me') parts.push('Assign to runner');
+    if (macro.assignee_action === 'set') parts.push(`Assign to ${nameOf(agents, macro.assignee_id)}`);
+    if (macro.assignee_action === 'unassign') parts.push('Unassign');
+    if (macro.comment.trim()) parts.push(macro.comment_is_internal ? 'Internal note' : 'Public reply');
+    return parts.join(', ') || 'Does nothing';
+  };
+
+  const renderLookupSelect = (
+    label: string,
+    field: 'status_id' | 'priority_id' | 'category_id',
+    options: { id: string; name: string }[]
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <select
+        value={formData[field]}
+        onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+        className={INPUT_CLASS}
+      >
+        <option value="">Don't change</option>
+        {options.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900">{editingId ? 'Edit macro' : 'New macro'}</h4>
+        <button
+          type="button"
+          onClick={() => setEditingId(null)}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className={INPUT_CLASS}
+            placeholder="e.g. Close as duplicate"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            type="text"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {renderLookupSelect('Status', 'status_id', activeOptions(statuses, formData.status_id))}
+        {renderLookupSelect('Priority', 'priority_id', activeOptions(priorities, formData.priority_id))}
+        {renderLookupSelect('Category', 'category_id', activeOptions(categories, formData.category_id))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Assign to</label>
+          <select
+            value={formData.assignee_action}
+            onChange={(e) => setFormData({ ...formData, assignee_action: e.target.value as MacroAssigneeAction })}
+            className={INPUT_CLASS}
+          >
+            {ASSIGNEE_ACTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {formData.assignee_action === 'set' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Agent *</label>
+            <AgentPicker
+              agents={agents}
+              value={formData.assignee_id}
+              onChange={(assigneeId) => setFormData({ ...formData, assignee_id: assigneeId })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Comment</label>
+        <textarea
+          value={formData.comment}
+          onChange={(e) => setFormData({ ...formData, comment: e.target.value })}
+          rows={5}
+          placeholder="Optional; posted with the changes"
+          className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:border-transparent ${
+            formData.comment_is_internal
+              ? 'border-yellow-300 bg-yellow-50 focus:ring-yellow-500'
+              : 'border-gray-300 focus:ring-blue-500'
+          }`}
+        />
+        <div className="mt-1 flex items-center justify-between gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.comment_is_internal}
+              onChange={(e) => setFormData({ ...formData, comment_is_internal: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Internal note
+          </label>
+          <p className="text-xs text-gray-500 text-right">
+            Placeholders: {PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(', ')}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={() => setEditingId(null)}
+          className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <Zap className="mr-2" size={24} />
+          Macros
+        </h2>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+        >
+          <Plus size={16} />
+          Add
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        A macro makes several changes to a ticket in one step, from the ticket view or on a selection. Agents see a
+        preview first, and each ticket gets all of the changes or none of them.
+      </p>
+
+      {editingId !== null && renderForm()}
+
+      {macros.length === 0 ? (
+        <p className="text-sm text-gray-500">No macros yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium w-16">Order</th>
+              <th className="py-2 font-medium">Name</th>
+              <th className="py-2 font-medium">Changes</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {macros.map((macro, index) => (
+              <tr key={macro.id}>
+                <td className="py-2 whitespace-nowrap">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === macros.length - 1}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                </td>
+                <td className="py-2">
+                  <span className="font-medium text-gray-900">{macro.name}</span>
+                  {macro.description && <p className="text-xs text-gray-500">{macro.description}</p>}
+                </td>
+                <td className="py-2 text-gray-700">{summarize(macro)}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => openForm(macro)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(macro)}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
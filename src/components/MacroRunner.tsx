@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { MacroResult } from '../lib/supabase';
+import { useMacros, runMacro, describeChange } from '../lib/macros';
+import { Eye, Play, X, AlertTriangle } from 'lucide-react';
+
+interface MacroRunnerProps {
+  ticketCount: number;
+  getTicketIds: () => Promise<string[]>;
+  onApplied: (results: MacroResult[]) => void;
+  disabled?: boolean;
+}
+
+// Nothing is changed until the preview has been seen. The ids are resolved
+// once for the preview and reused for the run, so "all matching" applies to
+// exactly the tickets that were previewed.
+export default function MacroRunner({ ticketCount, getTicketIds, onApplied, disabled }: MacroRunnerProps) {
+  const macros = useMacros();
+  const [macroId, setMacroId] = useState('');
+  const [ticketIds, setTicketIds] = useState<string[]>([]);
+  const [preview, setPreview] = useState<MacroResult[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const running = progress !== null;
+  const macro = macros.find((item) => item.id === macroId);
+
+  const selectMacro = (id: string) => {
+    setMacroId(id);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    setProgress({ done: 0, total: ticketCount });
+    try {
+      const ids = await getTicketIds();
+      setTicketIds(ids);
+      setPreview(await runMacro(macroId, ids, true, (done, total) => setProgress({ done, total })));
+    } catch (error) {
+      console.error('Error previewing macro:', error);
+      alert('Failed to preview macro');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Tickets the preview already showed failing are left out of the run.
+  const handleApply = async () => {
+    const ids = (preview ?? []).filter((result) => result.success).map((result) => result.ticket_id);
+    setProgress({ done: 0, total: ids.length });
+    try {
+      const results = await runMacro(macroId, ids, false, (done, total) => setProgress({ done, total }));
+      setPreview(null);
+      onApplied(results);
+    } catch (error) {
+      console.error('Error applying macro:', error);
+      alert('Failed to apply macro');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const willChange = preview?.filter((result) => result.success) ?? [];
+  const willFail = preview?.filter((result) => !result.success) ?? [];
+
+  return (
+    <div className="flex-1 min-w-[16rem] space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={macroId}
+          onChange={(e) => selectMacro(e.target.value)}
+          disabled={disabled || running}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Choose a macro...</option>
+          {macros.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+        {!preview && (
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={disabled || running || !macroId}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <Eye size={16} />
+            {running ? 'Checking...' : 'Preview'}
+          </button>
+        )}
+      </div>
+
+      {macro?.description && <p className="text-xs text-gray-500">{macro.description}</p>}
+
+      {progress && progress.total > 1 && (
+        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${progress.total === 0 ? 0 : (progress.done / progress.total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {preview && (
+        <div className="border border-gray-200 rounded-lg p-3 space-y-3 text-sm">
+          <ul className="max-h-60 overflow-y-auto space-y-2">
+            {preview.map((result) => (
+              <li key={result.ticket_id}>
+                {ticketIds.length > 1 && (
+                  <span className="font-medium text-gray-900">{result.ticket_number ?? result.ticket_id}</span>
+                )}
+                {!result.success ? (
+                  <p className="flex items-center gap-1 text-red-700">
+                    <AlertTriangle size={14} />
+                    {result.error}
+                  </p>
+                ) : result.changes.length === 0 ? (
+                  <p className="text-gray-500">Nothing to change</p>
+                ) : (
+                  <ul className="text-gray-700">
+                    {result.changes.map((change, index) => (
+                      <li key={index} className="whitespace-pre-wrap">
+                        {describeChange(change)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-center justify-end gap-2 border-t pt-3">
+            {willFail.length > 0 && (
+              <span className="mr-auto text-xs text-red-700">
+                {willFail.length} {willFail.length === 1 ? 'ticket' : 'tickets'} will be skipped
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => setPreview(null)}
+              disabled={running}
+              className="flex items-center gap-1 px-3 py-1.5 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <X size={14} />
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={running || willChange.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Play size={14} />
+              {running
+                ? 'Applying...'
+                : ticketIds.length > 1
+                ? `Apply to ${willChange.length}`
+                : 'Apply'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
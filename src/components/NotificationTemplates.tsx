@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { supabase, NotificationEvent, NotificationTemplate } from '../lib/supabase';
+import { NOTIFICATION_PLACEHOLDERS } from '../lib/templates';
+import { Bell, Pencil, X } from 'lucide-react';
+
+type TemplateForm = {
+  subject: string;
+  body: string;
+};
+
+const EVENT_LABELS: { [key in NotificationEvent]: string } = {
+  ticket_created: 'Ticket created',
+  ticket_assigned: 'Ticket assigned',
+  comment_added: 'Comment added',
+  ticket_resolved: 'Ticket resolved',
+};
+
+const EVENT_ORDER = Object.keys(EVENT_LABELS) as NotificationEvent[];
+
+export default function NotificationTemplates() {
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<TemplateForm>({ subject: '', body: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    const { data, error } = await supabase.from('notification_templates').select('*');
+
+    if (error) {
+      console.error('Error loading notification templates:', error);
+    } else if (data) {
+      setTemplates(
+        [...data].sort(
+          (a, b) => EVENT_ORDER.indexOf(a.event) - EVENT_ORDER.indexOf(b.event) || a.audience.localeCompare(b.audience)
+        )
+      );
+    }
+    setLoading(false);
+  };
+
+  const editing = templates.find((template) => template.id === editingId);
+
+  const openForm = (template: NotificationTemplate) => {
+    setEditingId(template.id);
+    setFormData({ subject: template.subject, body: template.body });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+    setSaving(true);
+
+    const { error } = await supabase
+      .from('notification_templates')
+      .update({ ...formData, updated_at: new Date().toISOString() })
+      .eq('id', editingId);
+
+    if (error) {
+      console.error('Error saving notification template:', error);
+      alert('Failed to save notification template');
+    } else {
+      setEditingId(null);
+      loadTemplates();
+    }
+    setSaving(false);
+  };
+
+  const handleToggle = async (template: NotificationTemplate) => {
+    const { error } = await supabase
+      .from('notification_templates')
+      .update({ is_enabled: !template.is_enabled })
+      .eq('id', template.id);
+
+    if (error) {
+      console.error('Error updating notification template:', error);
+      alert('Failed to update notification template');
+    } else {
+      loadTemplates();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading notifications...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-900 flex items-center mb-4">
+        <Bell className="mr-2" size={24} />
+        Email Notifications
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Requesters hear about their ticket being created, agent replies and resolution; assignees hear about new
+        assignments and comments. Internal notes are never sent to requesters.
+      </p>
+
+      {editing && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">
+              {EVENT_LABELS[editing.event]} — to the {editing.audience === 'agent' ? 'assignee' : 'requester'}
+            </h3>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subject *</label>
+            <input
+              type="text"
+              value={formData.subject}
+              onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Message *</label>
+            <textarea
+              value={formData.body}
+              onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+              rows={8}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Placeholders: {NOTIFICATION_PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(', ')}. Keep{' '}
+              {'{{ticket_number}}'} in the subject so email replies find their ticket.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {templates.length === 0 ? (
+        <p className="text-center text-gray-500 py-4">No notification templates</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Event</th>
+              <th className="py-2 font-medium">Sent to</th>
+              <th className="py-2 font-medium">Subject</th>
+              <th className="py-2 font-medium">Enabled</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {templates.map((template) => (
+              <tr key={template.id}>
+                <td className="py-2 text-gray-900">{EVENT_LABELS[template.event]}</td>
+                <td className="py-2 text-gray-700">{template.audience === 'agent' ? 'Assignee' : 'Requester'}</td>
+                <td className="py-2 text-gray-700 font-mono text-xs">{template.subject}</td>
+                <td className="py-2">
+                  <input
+                    type="checkbox"
+                    checked={template.is_enabled}
+                    onChange={() => handleToggle(template)}
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() => openForm(template)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,39 @@
 import { useState, useEffect } from 'react';
 import { supabase, TicketWithRelations } from '../lib/supabase';
+import { useTicketChanges, applyTicketChange } from '../lib/realtime';
+import { getTicketSla, calculateSlaCompliance, SlaCompliance } from '../lib/sla';
+import { useLocation, navigate, withParams } from '../lib/router';
+import { statusPhase } from '../lib/tickets';
+import { useCustomFields, formatCustomValue } from '../lib/customFields';
 import { Download, Calendar, FileText, TrendingUp } from 'lucide-react';
 
-interface ReportsProps {
-  refreshTrigger: number;
-}
-
-export default function Reports({ refreshTrigger }: ReportsProps) {
+export default function Reports() {
   const [tickets, setTickets] = useState<TicketWithRelations[]>([]);
-  const [startDate, setStartDate] = useState('');
-  const [endDate, setEndDate] = useState('');
+  const location = useLocation();
+  const params = new URLSearchParams(location.search);
+  const startDate = params.get('from') ?? '';
+  const endDate = params.get('to') ?? '';
   const [loading, setLoading] = useState(true);
+  const customFields = useCustomFields();
 
   useEffect(() => {
     loadTickets();
-  }, [refreshTrigger]);
+  }, []);
+
+  useTicketChanges(
+    (change) => setTickets((prev) => applyTicketChange(prev, change)),
+    () => loadTickets()
+  );
 
   const loadTickets = async () => {
-    setLoading(true);
     const { data } = await supabase
       .from('tickets')
       .select(`
         *,
         categories (*),
         priorities (*),
-        statuses (*)
+        statuses (*),
+        agents (*)
       `)
       .order('created_at', { ascending: false });
 
@@ -32,6 +41,13 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
     setLoading(false);
   };
 
+  // The date range lives in the URL so a report can be shared as a link.
+  // Editing a date replaces the history entry rather than adding one per
+  // keystroke in the date input.
+  const setDateRange = (changes: { from?: string; to?: string }) => {
+    navigate(`/reports${withParams(location.search, changes)}`, { replace: true });
+  };
+
   const filterTicketsByDate = () => {
     if (!startDate && !endDate) return tickets;
 
@@ -53,6 +69,8 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
 
   const exportToCSV = () => {
     const filteredTickets = filterTicketsByDate();
+    // One column per field key; categories that share a key share a column.
+    const customKeys = [...new Set(customFields.map((field) => field.key))];
 
     const headers = [
       'Ticket Number',
@@ -68,6 +86,10 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
       'Updated At',
       'Resolved At',
       'Closed At',
+      'Response Due',
+      'First Response At',
+      'Resolution Due',
+      ...customKeys.map((key) => customFields.find((field) => field.key === key)!.label),
     ];
 
     const rows = filteredTickets.map((ticket) => [
@@ -79,11 +101,18 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
       ticket.statuses.name,
       ticket.requester_name,
       ticket.requester_email,
-      ticket.assigned_to,
+      ticket.agents?.name ?? '',
       ticket.created_at,
       ticket.updated_at,
       ticket.resolved_at || '',
       ticket.closed_at || '',
+      ticket.first_response_due_at || '',
+      ticket.first_responded_at || '',
+      ticket.resolution_due_at || '',
+      ...customKeys.map((key) => {
+        const field = customFields.find((f) => f.key === key && f.category_id === ticket.category_id);
+        return field ? formatCustomValue(field, ticket.custom_fields[key]) : '';
+      }),
     ]);
 
     const csvContent = [headers, ...rows].map((row) => row.map((cell) => `"${cell}"`).join(',')).join('\n');
@@ -105,8 +134,8 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
     const total = filteredTickets.length;
     const resolved = filteredTickets.filter((t) => t.resolved_at).length;
     const closed = filteredTickets.filter((t) => t.closed_at).length;
-    const open = filteredTickets.filter((t) => t.statuses.name === 'Open').length;
-    const inProgress = filteredTickets.filter((t) => t.statuses.name === 'In Progress').length;
+    const open = filteredTickets.filter((t) => statusPhase(t.statuses) === 'new').length;
+    const inProgress = filteredTickets.filter((t) => statusPhase(t.statuses) === 'active').length;
 
     const resolvedTickets = filteredTickets.filter((t) => t.resolved_at);
     let avgResolutionHours = 0;
@@ -128,6 +157,18 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
       byPriority[ticket.priorities.name] = (byPriority[ticket.priorities.name] || 0) + 1;
     });
 
+    const now = Date.now();
+    const slaByTicket = filteredTickets.map((ticket) => ({ ticket, sla: getTicketSla(ticket, now) }));
+    const slaByPriority: { [key: string]: { response: SlaCompliance; resolution: SlaCompliance } } = {};
+
+    [...new Set(filteredTickets.map((t) => t.priorities.name))].forEach((priority) => {
+      const entries = slaByTicket.filter(({ ticket }) => ticket.priorities.name === priority);
+      slaByPriority[priority] = {
+        response: calculateSlaCompliance(entries.map(({ sla }) => sla.response)),
+        resolution: calculateSlaCompliance(entries.map(({ sla }) => sla.resolution)),
+      };
+    });
+
     return {
       total,
       resolved,
@@ -137,9 +178,15 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
       avgResolutionHours,
       byCategory,
       byPriority,
+      responseCompliance: calculateSlaCompliance(slaByTicket.map(({ sla }) => sla.response)),
+      resolutionCompliance: calculateSlaCompliance(slaByTicket.map(({ sla }) => sla.resolution)),
+      slaByPriority,
     };
   };
 
+  const formatCompliance = (compliance: SlaCompliance) =>
+    compliance.percent === null ? 'N/A' : `${compliance.percent}%`;
+
   const metrics = calculateMetrics();
 
   if (loading) {
@@ -167,7 +214,7 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
             <input
               type="date"
               value={startDate}
-              onChange={(e) => setStartDate(e.target.value)}
+              onChange={(e) => setDateRange({ from: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
@@ -180,7 +227,7 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
             <input
               type="date"
               value={endDate}
-              onChange={(e) => setEndDate(e.target.value)}
+              onChange={(e) => setDateRange({ to: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
@@ -317,6 +364,48 @@ export default function Reports({ refreshTrigger }: ReportsProps) {
         </div>
       </div>
 
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">SLA Compliance</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div className="border-l-4 border-blue-600 pl-4">
+            <p className="text-sm text-gray-600">First Response</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCompliance(metrics.responseCompliance)}</p>
+            <p className="text-xs text-gray-500">
+              {metrics.responseCompliance.met} met, {metrics.responseCompliance.breached} breached
+            </p>
+          </div>
+          <div className="border-l-4 border-green-600 pl-4">
+            <p className="text-sm text-gray-600">Resolution</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCompliance(metrics.resolutionCompliance)}</p>
+            <p className="text-xs text-gray-500">
+              {metrics.resolutionCompliance.met} met, {metrics.resolutionCompliance.breached} breached
+            </p>
+          </div>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Priority</th>
+              <th className="py-2 font-medium text-right">Response</th>
+              <th className="py-2 font-medium text-right">Resolution</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {Object.entries(metrics.slaByPriority).map(([priority, compliance]) => (
+              <tr key={priority}>
+                <td className="py-2 text-gray-700">{priority}</td>
+                <td className="py-2 text-right font-medium text-gray-900">
+                  {formatCompliance(compliance.response)}
+                </td>
+                <td className="py-2 text-right font-medium text-gray-900">
+                  {formatCompliance(compliance.resolution)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
       <div className="bg-white rounded-lg shadow p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Summary</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
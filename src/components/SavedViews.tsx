@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase, SavedView } from '../lib/supabase';
+import { useAuth, isAgent, isAdmin } from '../lib/auth';
+import { useLocation, navigate } from '../lib/router';
+import { useTicketChanges } from '../lib/realtime';
+import { resolveSearch, searchTicketsArgs, SearchLookups } from '../lib/searchQuery';
+import { viewToSearch, viewFromSearch, isCurrentView, viewSelection } from '../lib/savedViews';
+import { Bookmark, Users, Plus, Trash2, X, Inbox } from 'lucide-react';
+
+interface SavedViewsProps {
+  lookups: SearchLookups;
+}
+
+const COUNT_DEBOUNCE_MS = 1000;
+
+// Counts run the same search the list would, so tokens like assignee:me
+// and created:7d resolve for whoever is looking. A view whose filters no
+// longer resolve (say, a deleted category) shows no count.
+const fetchCount = async (view: SavedView, lookups: SearchLookups) => {
+  const search = resolveSearch(viewSelection(view), lookups, new Date());
+  if (search.errors.length > 0) return null;
+
+  const { count, error } = await supabase
+    .rpc('search_tickets', searchTicketsArgs(search, { column: 'created_at', ascending: false }), {
+      count: 'exact',
+    })
+    .select('id')
+    .range(0, 0);
+
+  if (error) {
+    console.error('Error counting saved view:', error);
+    return null;
+  }
+  return count;
+};
+
+export default function SavedViews({ lookups }: SavedViewsProps) {
+  const { profile } = useAuth();
+  const agent = isAgent(profile);
+  const admin = isAdmin(profile);
+  const location = useLocation();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [counts, setCounts] = useState<{ [viewId: string]: number | null }>({});
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const countTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadViews = async () => {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .select('*')
+      .order('position')
+      .order('name');
+
+    if (error) console.error('Error loading saved views:', error);
+    if (data) setViews(data);
+  };
+
+  useEffect(() => {
+    loadViews();
+  }, []);
+
+  const loadCounts = useCallback(async () => {
+    if (lookups.statuses.length === 0) return;
+    const results = await Promise.all(views.map((view) => fetchCount(view, lookups)));
+    const next: { [viewId: string]: number | null } = {};
+    views.forEach((view, index) => {
+      next[view.id] = results[index];
+    });
+    setCounts(next);
+  }, [views, lookups]);
+
+  useEffect(() => {
+    loadCounts();
+  }, [loadCounts]);
+
+  useEffect(() => {
+    return () => {
+      if (countTimerRef.current) clearTimeout(countTimerRef.current);
+    };
+  }, []);
+
+  // A busy queue would otherwise recount every view on every change.
+  useTicketChanges(
+    () => {
+      if (countTimerRef.current) clearTimeout(countTimerRef.current);
+      countTimerRef.current = setTimeout(() => {
+        countTimerRef.current = null;
+        loadCounts();
+      }, COUNT_DEBOUNCE_MS);
+    },
+    () => loadCounts()
+  );
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    const settings = viewFromSearch(location.search);
+    const { error } = await supabase.from('saved_views').insert([
+      {
+        ...settings,
+        name: name.trim(),
+        is_shared: agent && isShared,
+        position: views.length,
+      },
+    ]);
+
+    if (error) {
+      console.error('Error saving view:', error);
+      alert('Failed to save view');
+    } else {
+      setName('');
+      setIsShared(false);
+      setShowForm(false);
+      loadViews();
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+
+    const { error } = await supabase.from('saved_views').delete().eq('id', view.id);
+    if (error) {
+      console.error('Error deleting view:', error);
+      alert('Failed to delete view');
+      return;
+    }
+    setViews((prev) => prev.filter((item) => item.id !== view.id));
+  };
+
+  const canDelete = (view: SavedView) => view.owner_id === profile?.id || (view.is_shared && admin);
+
+  const personal = views.filter((view) => !view.is_shared);
+  const shared = views.filter((view) => view.is_shared);
+  const noFilters = viewToSearch(viewFromSearch(location.search)) === '';
+
+  const renderView = (view: SavedView) => {
+    const active = isCurrentView(view, location.search);
+    const count = counts[view.id];
+
+    return (
+      <li key={view.id} className="group flex items-center">
+        <button
+          onClick={() => navigate(`/tickets${viewToSearch(view)}`)}
+          className={`flex-1 min-w-0 flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${
+            active ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          <span className="truncate">{view.name}</span>
+          <span className="text-xs text-gray-500">{count ?? '–'}</span>
+        </button>
+        {canDelete(view) && (
+          <button
+            onClick={() => handleDelete(view)}
+            className="ml-1 p-1 text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-600 transition"
+            title="Delete view"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <aside className="bg-white rounded-lg shadow p-4 lg:w-64 lg:flex-shrink-0 self-start space-y-4">
+      <button
+        onClick={() => navigate('/tickets')}
+        className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${
+          noFilters ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        <Inbox size={16} />
+        {agent ? 'All tickets' : 'My tickets'}
+      </button>
+
+      {shared.length > 0 && (
+        <div>
+          <h3 className="flex items-center gap-1 px-3 mb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <Users size={12} />
+            Team views
+          </h3>
+          <ul className="space-y-0.5">{shared.map(renderView)}</ul>
+        </div>
+      )}
+
+      <div>
+        <h3 className="flex items-center gap-1 px-3 mb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">
+          <Bookmark size={12} />
+          My views
+        </h3>
+        {personal.length > 0 ? (
+          <ul className="space-y-0.5">{personal.map(renderView)}</ul>
+        ) : (
+          <p className="px-3 text-xs text-gray-400">Save the current filters to get back to them quickly.</p>
+        )}
+      </div>
+
+      {showForm ? (
+        <form onSubmit={handleSave} className="space-y-2 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">Save current view</span>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <input
+            type="text"
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. My open Criticals"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          {agent && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isShared}
+                onChange={(e) => setIsShared(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Share with the team
+            </label>
+          )}
+          <p className="text-xs text-gray-500">
+            Use assignee:me and dates like created:7d so the view works for everyone, every day.
+          </p>
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="w-full px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save View'}
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm text-blue-600 border border-dashed border-blue-300 rounded-lg hover:bg-blue-50 transition-colors"
+        >
+          <Plus size={16} />
+          Save current view
+        </button>
+      )}
+    </aside>
+  );
+}
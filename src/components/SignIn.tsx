@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { signIn, signUp } from '../lib/auth';
+import { LogIn, UserPlus } from 'lucide-react';
+
+export default function SignIn() {
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in');
+  const [fullName, setFullName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      if (mode === 'sign-in') {
+        await signIn(email, password);
+      } else {
+        const signedIn = await signUp(fullName, email, password);
+        if (!signedIn) {
+          setMessage('Check your email to confirm your account, then sign in.');
+          setMode('sign-in');
+        }
+      }
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="border-b px-6 py-4">
+          <h1 className="text-2xl font-bold text-gray-900">Service Desk</h1>
+          <p className="text-sm text-gray-600">
+            {mode === 'sign-in' ? 'Sign in to continue' : 'Create an account to file tickets'}
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && <div className="px-3 py-2 text-sm text-red-700 bg-red-50 rounded-lg">{error}</div>}
+          {message && <div className="px-3 py-2 text-sm text-green-700 bg-green-50 rounded-lg">{message}</div>}
+
+          {mode === 'sign-up' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Full Name *</label>
+              <input
+                type="text"
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="John Doe"
+                required
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email *</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="john@example.com"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password *</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              minLength={6}
+              required
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {mode === 'sign-in' ? <LogIn size={18} /> : <UserPlus size={18} />}
+            {loading ? 'Please wait...' : mode === 'sign-in' ? 'Sign In' : 'Create Account'}
+          </button>
+
+          <p className="text-sm text-center text-gray-600">
+            {mode === 'sign-in' ? "Don't have an account?" : 'Already have an account?'}{' '}
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in');
+                setError('');
+              }}
+              className="font-medium text-blue-600 hover:underline"
+            >
+              {mode === 'sign-in' ? 'Sign up' : 'Sign in'}
+            </button>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { SlaTarget, formatDuration } from '../lib/sla';
+import { Clock, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+
+interface SlaBadgeProps {
+  label: string;
+  target: SlaTarget;
+}
+
+const BADGE_STYLES = {
+  on_track: 'bg-blue-50 text-blue-700',
+  at_risk: 'bg-orange-100 text-orange-700',
+  breached: 'bg-red-100 text-red-700',
+  met: 'bg-green-100 text-green-700',
+};
+
+export default function SlaBadge({ label, target }: SlaBadgeProps) {
+  if (target.state === 'none') return null;
+
+  let text: string;
+  let Icon = Clock;
+
+  if (target.state === 'met') {
+    text = 'met';
+    Icon = CheckCircle;
+  } else if (target.state === 'breached') {
+    text = `overdue ${formatDuration(target.remainingMs)}`;
+    Icon = XCircle;
+  } else {
+    text = `${formatDuration(target.remainingMs)} left`;
+    if (target.state === 'at_risk') Icon = AlertTriangle;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${BADGE_STYLES[target.state]}`}
+      title={target.dueAt ? `Due ${new Date(target.dueAt).toLocaleString()}` : undefined}
+    >
+      <Icon size={12} />
+      {label} {text}
+    </span>
+  );
+}
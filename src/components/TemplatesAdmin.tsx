@@ -0,0 +1,499 @@
+import { useState, useEffect } from 'react';
+import {
+  supabase,
+  Category,
+  Priority,
+  CannedResponse,
+  TicketTemplate,
+  CustomFieldValues,
+} from '../lib/supabase';
+import { useLookupChanges } from '../lib/realtime';
+import { useCannedResponses, useTicketTemplates, PLACEHOLDERS } from '../lib/templates';
+import { useCustomFields, fieldsForCategory, customFieldProblems } from '../lib/customFields';
+import CustomFieldInputs from './CustomFieldInputs';
+import { FileText, Plus, Trash2, Pencil, X, ArrowUp, ArrowDown } from 'lucide-react';
+
+type TemplateForm = {
+  name: string;
+  title: string;
+  description: string;
+  category_id: string;
+  priority_id: string;
+  custom_fields: CustomFieldValues;
+};
+
+type ResponseForm = {
+  name: string;
+  body: string;
+};
+
+// Which form is open; id is null for a new row.
+type Editing = { kind: 'template' | 'response'; id: string | null };
+
+const EMPTY_TEMPLATE: TemplateForm = {
+  name: '',
+  title: '',
+  description: '',
+  category_id: '',
+  priority_id: '',
+  custom_fields: {},
+};
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function TemplatesAdmin() {
+  const templates = useTicketTemplates();
+  const { responses, reload: reloadResponses } = useCannedResponses();
+  const customFields = useCustomFields();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [templateForm, setTemplateForm] = useState<TemplateForm>(EMPTY_TEMPLATE);
+  const [responseForm, setResponseForm] = useState<ResponseForm>({ name: '', body: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadLookups();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'categories' || table === 'priorities') loadLookups();
+  });
+
+  const loadLookups = async () => {
+    const [categoriesRes, prioritiesRes] = await Promise.all([
+      supabase.from('categories').select('*').eq('is_archived', false).order('position').order('name'),
+      supabase.from('priorities').select('*').eq('is_archived', false).order('level'),
+    ]);
+    if (categoriesRes.data) setCategories(categoriesRes.data);
+    if (prioritiesRes.data) setPriorities(prioritiesRes.data);
+  };
+
+  // Admins see every shared response; personal ones belong to their authors.
+  const shared = responses.filter((response) => response.is_shared);
+  const templateFields = fieldsForCategory(customFields, templateForm.category_id);
+
+  const openTemplate = (template?: TicketTemplate) => {
+    setEditing({ kind: 'template', id: template?.id ?? null });
+    setTemplateForm(
+      template
+        ? {
+            name: template.name,
+            title: template.title,
+            description: template.description,
+            category_id: template.category_id ?? '',
+            priority_id: template.priority_id ?? '',
+            custom_fields: template.custom_fields,
+          }
+        : EMPTY_TEMPLATE
+    );
+  };
+
+  const openResponse = (response?: CannedResponse) => {
+    setEditing({ kind: 'response', id: response?.id ?? null });
+    setResponseForm(response ? { name: response.name, body: response.body } : { name: '', body: '' });
+  };
+
+  const handleSaveTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    // Required fields are left for the requester, but what is filled in has
+    // to be valid.
+    const problems = customFieldProblems(
+      templateFields.map((field) => ({ ...field, is_required: false })),
+      templateForm.custom_fields
+    );
+    if (problems.length > 0) {
+      alert(problems.join('\n'));
+      return;
+    }
+
+    const values: Record<string, unknown> = {
+      name: templateForm.name.trim(),
+      title: templateForm.title,
+      description: templateForm.description,
+      category_id: templateForm.category_id || null,
+      priority_id: templateForm.priority_id || null,
+      // Only the chosen category's fields, as on the ticket form.
+      custom_fields: Object.fromEntries(
+        templateFields
+          .filter((field) => templateForm.custom_fields[field.key] !== undefined)
+          .map((field) => [field.key, templateForm.custom_fields[field.key]])
+      ),
+    };
+    if (!editing.id) {
+      const last = templates[templates.length - 1];
+      values.position = last ? last.position + 1 : 0;
+    }
+
+    setSaving(true);
+    const { error } = editing.id
+      ? await supabase.from('ticket_templates').update(values).eq('id', editing.id)
+      : await supabase.from('ticket_templates').insert([values]);
+
+    if (error) {
+      console.error('Error saving ticket template:', error);
+      alert(`Failed to save template: ${error.message}`);
+    } else {
+      setEditing(null);
+    }
+    setSaving(false);
+  };
+
+  // New responses written here are shared; agents keep personal ones from
+  // the composer.
+  const handleSaveResponse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const values = { name: responseForm.name.trim(), body: responseForm.body };
+
+    setSaving(true);
+    const { error } = editing.id
+      ? await supabase.from('canned_responses').update(values).eq('id', editing.id)
+      : await supabase.from('canned_responses').insert([{ ...values, is_shared: true }]);
+
+    if (error) {
+      console.error('Error saving canned response:', error);
+      alert(`Failed to save canned response: ${error.message}`);
+    } else {
+      setEditing(null);
+      reloadResponses();
+    }
+    setSaving(false);
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const template = templates[index];
+    const neighbour = templates[index + offset];
+    if (!neighbour) return;
+
+    const neighbourPosition = template.position;
+    const templatePosition =
+      neighbour.position === neighbourPosition ? neighbourPosition + offset : neighbour.position;
+
+    const results = await Promise.all([
+      supabase.from('ticket_templates').update({ position: templatePosition }).eq('id', template.id),
+      supabase.from('ticket_templates').update({ position: neighbourPosition }).eq('id', neighbour.id),
+    ]);
+    const error = results.find((result) => result.error)?.error;
+
+    if (error) {
+      console.error('Error reordering ticket templates:', error);
+      alert('Failed to reorder templates');
+    }
+  };
+
+  const handleDeleteTemplate = async (template: TicketTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+
+    const { error } = await supabase.from('ticket_templates').delete().eq('id', template.id);
+    if (error) {
+      console.error('Error deleting ticket template:', error);
+      alert('Failed to delete template');
+    }
+  };
+
+  const handleDeleteResponse = async (response: CannedResponse) => {
+    if (!confirm(`Delete the canned response "${response.name}"?`)) return;
+
+    const { error } = await supabase.from('canned_responses').delete().eq('id', response.id);
+    if (error) {
+      console.error('Error deleting canned response:', error);
+      alert('Failed to delete canned response');
+      return;
+    }
+    reloadResponses();
+  };
+
+  const renderFormHeader = (title: string) => (
+    <div className="flex items-center justify-between">
+      <h4 className="font-semibold text-gray-900">{title}</h4>
+      <button
+        type="button"
+        onClick={() => setEditing(null)}
+        className="text-gray-400 hover:text-gray-600 transition-colors"
+      >
+        <X size={20} />
+      </button>
+    </div>
+  );
+
+  const renderFormButtons = () => (
+    <div className="flex justify-end gap-3">
+      <button
+        type="button"
+        onClick={() => setEditing(null)}
+        className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+      >
+        Cancel
+      </button>
+      <button
+        type="submit"
+        disabled={saving}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+    </div>
+  );
+
+  const renderTemplateForm = () => (
+    <form onSubmit={handleSaveTemplate} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+      {renderFormHeader(editing?.id ? 'Edit template' : 'New template')}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+          <input
+            type="text"
+            value={templateForm.name}
+            onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+            className={INPUT_CLASS}
+            placeholder="e.g. New starter setup"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+          <select
+            value={templateForm.category_id}
+            onChange={(e) => setTemplateForm({ ...templateForm, category_id: e.target.value })}
+            className={INPUT_CLASS}
+          >
+            <option value="">Requester chooses</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+          <select
+            value={templateForm.priority_id}
+            onChange={(e) => setTemplateForm({ ...templateForm, priority_id: e.target.value })}
+            className={INPUT_CLASS}
+          >
+            <option value="">Requester chooses</option>
+            {priorities.map((priority) => (
+              <option key={priority.id} value={priority.id}>
+                {priority.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+        <input
+          type="text"
+          value={templateForm.title}
+          onChange={(e) => setTemplateForm({ ...templateForm, title: e.target.value })}
+          className={INPUT_CLASS}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+        <textarea
+          value={templateForm.description}
+          onChange={(e) => setTemplateForm({ ...templateForm, description: e.target.value })}
+          rows={5}
+          className={INPUT_CLASS}
+        />
+      </div>
+
+      <CustomFieldInputs
+        fields={templateFields}
+        values={templateForm.custom_fields}
+        onChange={(custom_fields) => setTemplateForm({ ...templateForm, custom_fields })}
+        disabled={saving}
+      />
+
+      {renderFormButtons()}
+    </form>
+  );
+
+  const renderResponseForm = () => (
+    <form onSubmit={handleSaveResponse} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+      {renderFormHeader(editing?.id ? 'Edit canned response' : 'New shared canned response')}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+        <input
+          type="text"
+          value={responseForm.name}
+          onChange={(e) => setResponseForm({ ...responseForm, name: e.target.value })}
+          className={INPUT_CLASS}
+          required
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Body *</label>
+        <textarea
+          value={responseForm.body}
+          onChange={(e) => setResponseForm({ ...responseForm, body: e.target.value })}
+          rows={8}
+          className={`${INPUT_CLASS} font-mono text-sm`}
+          required
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Placeholders: {PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(', ')}
+        </p>
+      </div>
+
+      {renderFormButtons()}
+    </form>
+  );
+
+  const renderAddButton = (onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+    >
+      <Plus size={16} />
+      Add
+    </button>
+  );
+
+  const lookupName = (list: { id: string; name: string }[], id: string | null) =>
+    list.find((item) => item.id === id)?.name ?? '—';
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-900 flex items-center mb-4">
+        <FileText className="mr-2" size={24} />
+        Templates and Canned Responses
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Templates pre-fill the new ticket form. Canned responses are inserted from the comment box, with
+        placeholders filled in from the ticket; agents can also keep their own.
+      </p>
+
+      <div className="space-y-8">
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">Ticket Templates</h3>
+            {renderAddButton(() => openTemplate())}
+          </div>
+
+          {editing?.kind === 'template' && renderTemplateForm()}
+
+          {templates.length === 0 ? (
+            <p className="text-sm text-gray-500">No ticket templates yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 font-medium w-16">Order</th>
+                  <th className="py-2 font-medium">Name</th>
+                  <th className="py-2 font-medium">Title</th>
+                  <th className="py-2 font-medium">Category</th>
+                  <th className="py-2 font-medium">Priority</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {templates.map((template, index) => (
+                  <tr key={template.id}>
+                    <td className="py-2 whitespace-nowrap">
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === templates.length - 1}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown size={14} />
+                      </button>
+                    </td>
+                    <td className="py-2 font-medium text-gray-900">{template.name}</td>
+                    <td className="py-2 text-gray-600">{template.title || '—'}</td>
+                    <td className="py-2 text-gray-700">{lookupName(categories, template.category_id)}</td>
+                    <td className="py-2 text-gray-700">{lookupName(priorities, template.priority_id)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => openTemplate(template)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Edit"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteTemplate(template)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">Shared Canned Responses</h3>
+            {renderAddButton(() => openResponse())}
+          </div>
+
+          {editing?.kind === 'response' && renderResponseForm()}
+
+          {shared.length === 0 ? (
+            <p className="text-sm text-gray-500">No shared canned responses yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 font-medium">Name</th>
+                  <th className="py-2 font-medium">Body</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {shared.map((response) => (
+                  <tr key={response.id}>
+                    <td className="py-2 font-medium text-gray-900 whitespace-nowrap">{response.name}</td>
+                    <td className="py-2 text-gray-600 max-w-md truncate">{response.body}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => openResponse(response)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Edit"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteResponse(response)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
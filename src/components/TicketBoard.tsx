@@ -0,0 +1,290 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase, TicketWithRelations, Status } from '../lib/supabase';
+import { useTicketChanges, applyTicketChange } from '../lib/realtime';
+import { searchTicketsArgs } from '../lib/searchQuery';
+import { useSearchLookups, useResolvedSearch } from '../lib/ticketSearch';
+import { useLocation, navigate, setParams, ticketPath } from '../lib/router';
+import { changeTicketStatus, findTransition, useStatusTransitions, StatusNote } from '../lib/tickets';
+import TicketFilters from './TicketFilters';
+import { User, Rows3 } from 'lucide-react';
+
+type Swimlanes = 'none' | 'assignee' | 'category';
+
+type Lane = { key: string; label: string; color?: string };
+
+// The board shows every matching ticket at once, so it stops at a size that
+// still renders quickly; narrower filters bring the rest into view.
+const BOARD_LIMIT = 500;
+const RELOAD_DEBOUNCE_MS = 500;
+
+const readSwimlanes = (search: string): Swimlanes => {
+  const lanes = new URLSearchParams(search).get('lanes');
+  return lanes === 'assignee' || lanes === 'category' ? lanes : 'none';
+};
+
+const laneKey = (ticket: TicketWithRelations, swimlanes: Swimlanes) => {
+  if (swimlanes === 'assignee') return ticket.assignee_id ?? 'unassigned';
+  if (swimlanes === 'category') return ticket.category_id;
+  return 'all';
+};
+
+export default function TicketBoard() {
+  const location = useLocation();
+  const swimlanes = readSwimlanes(location.search);
+  const lookups = useSearchLookups();
+  const { categories, priorities, statuses } = lookups;
+  const search = useResolvedSearch(lookups);
+  const transitions = useStatusTransitions();
+  const [tickets, setTickets] = useState<TicketWithRelations[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const requestRef = useRef(0);
+  const reloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadTickets = useCallback(async () => {
+    const request = ++requestRef.current;
+
+    const { data, count, error } = await supabase
+      .rpc('search_tickets', searchTicketsArgs(search, { column: 'priority', ascending: false }), {
+        count: 'exact',
+      })
+      .select(`
+        *,
+        categories (*),
+        priorities (*),
+        statuses (*),
+        agents (*)
+      `)
+      .range(0, BOARD_LIMIT - 1);
+
+    if (request !== requestRef.current) return;
+
+    if (error) {
+      console.error('Error loading board:', error);
+    } else {
+      setTickets((data as TicketWithRelations[] | null) || []);
+      setTotalCount(count ?? 0);
+    }
+    setLoading(false);
+  }, [search]);
+
+  useEffect(() => {
+    loadTickets();
+  }, [loadTickets]);
+
+  useEffect(() => {
+    return () => {
+      if (reloadTimerRef.current) clearTimeout(reloadTimerRef.current);
+    };
+  }, []);
+
+  const scheduleReload = () => {
+    if (reloadTimerRef.current) clearTimeout(reloadTimerRef.current);
+    reloadTimerRef.current = setTimeout(() => {
+      reloadTimerRef.current = null;
+      loadTickets();
+    }, RELOAD_DEBOUNCE_MS);
+  };
+
+  useTicketChanges(
+    (change) => {
+      if (change.type === 'UPDATE' && tickets.some((ticket) => ticket.id === change.ticket.id)) {
+        setTickets((prev) => applyTicketChange(prev, change));
+        return;
+      }
+      scheduleReload();
+    },
+    () => loadTickets()
+  );
+
+  const handleDrop = async (ticketId: string, status: Status) => {
+    const ticket = tickets.find((item) => item.id === ticketId);
+    if (!ticket || ticket.status_id === status.id) return;
+
+    const transition = findTransition(transitions, ticket.status_id, status.id);
+    if (!transition) return;
+
+    if (transition.requires_assignee && !ticket.assignee_id) {
+      alert(`Assign ${ticket.ticket_number} before moving it to ${status.name}`);
+      return;
+    }
+
+    let note: StatusNote | undefined;
+    if (transition.requires_comment) {
+      const comment = prompt(`A note is required to move ${ticket.ticket_number} to ${status.name}:`);
+      if (!comment?.trim()) return;
+      note = { comment, isInternal: false };
+    }
+
+    // Move the card straight away; realtime brings the authoritative row.
+    setTickets((prev) =>
+      prev.map((item) => (item.id === ticketId ? { ...item, status_id: status.id, statuses: status } : item))
+    );
+
+    try {
+      await changeTicketStatus(ticket, status, note);
+    } catch (error) {
+      console.error('Error updating status:', error);
+      alert(`Failed to update status: ${(error as Error).message}`);
+      setTickets((prev) => prev.map((item) => (item.id === ticketId ? ticket : item)));
+    }
+  };
+
+  const lanes: Lane[] = (() => {
+    if (swimlanes === 'none') return [{ key: 'all', label: '' }];
+
+    const seen = new Map<string, Lane>();
+    tickets.forEach((ticket) => {
+      const key = laneKey(ticket, swimlanes);
+      if (seen.has(key)) return;
+      if (swimlanes === 'assignee') {
+        seen.set(key, { key, label: ticket.agents?.name ?? 'Unassigned' });
+      } else {
+        seen.set(key, { key, label: ticket.categories.name, color: ticket.categories.color });
+      }
+    });
+
+    return [...seen.values()].sort((a, b) => {
+      // Unassigned work is what needs attention, so it leads.
+      if (a.key === 'unassigned') return -1;
+      if (b.key === 'unassigned') return 1;
+      return a.label.localeCompare(b.label);
+    });
+  })();
+
+  // Archived statuses only keep a column while tickets still sit in them.
+  const columns = statuses.filter(
+    (status) => !status.is_archived || tickets.some((ticket) => ticket.status_id === status.id)
+  );
+
+  const renderCard = (ticket: TicketWithRelations) => (
+    <div
+      key={ticket.id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', ticket.id);
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggingId(ticket.id);
+      }}
+      onDragEnd={() => {
+        setDraggingId(null);
+        setDropTarget(null);
+      }}
+      onClick={() => navigate(ticketPath(ticket.ticket_number, location.search, '/board'))}
+      className={`bg-white rounded-lg border border-gray-200 p-3 shadow-sm cursor-pointer hover:shadow transition ${
+        draggingId === ticket.id ? 'opacity-50' : ''
+      }`}
+    >
+      <div className="text-xs font-medium text-blue-600">{ticket.ticket_number}</div>
+      <div className="mt-1 text-sm font-medium text-gray-900 line-clamp-2">{ticket.title}</div>
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <span
+          className="px-2 py-0.5 text-xs font-medium rounded-full"
+          style={{
+            backgroundColor: `${ticket.priorities.color}20`,
+            color: ticket.priorities.color,
+          }}
+        >
+          {ticket.priorities.name}
+        </span>
+        <span className={`flex items-center gap-1 text-xs truncate ${ticket.agents ? 'text-gray-600' : 'text-gray-400'}`}>
+          <User size={12} />
+          {ticket.agents?.name ?? 'Unassigned'}
+        </span>
+      </div>
+    </div>
+  );
+
+  const renderLane = (lane: Lane) => (
+    <div key={lane.key} className="space-y-2">
+      {lane.label && (
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+          {lane.color && <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: lane.color }} />}
+          {lane.label}
+        </h3>
+      )}
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {columns.map((status) => {
+          const target = `${lane.key}:${status.id}`;
+          const cards = tickets.filter(
+            (ticket) => ticket.status_id === status.id && laneKey(ticket, swimlanes) === lane.key
+          );
+          const dragged = tickets.find((ticket) => ticket.id === draggingId);
+          // Cards only move between statuses the workflow allows; the lane is
+          // the assignee or category, which the board doesn't change.
+          const accepts =
+            dragged !== undefined &&
+            laneKey(dragged, swimlanes) === lane.key &&
+            findTransition(transitions, dragged.status_id, status.id) !== undefined;
+
+          return (
+            <div
+              key={status.id}
+              onDragOver={(e) => {
+                if (!accepts) return;
+                e.preventDefault();
+                setDropTarget(target);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === target ? null : current))}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDropTarget(null);
+                handleDrop(e.dataTransfer.getData('text/plain'), status);
+              }}
+              className={`w-72 flex-shrink-0 rounded-lg p-3 transition-colors ${
+                dropTarget === target ? 'bg-blue-100' : 'bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: status.color }} />
+                  {status.name}
+                </span>
+                <span className="text-xs text-gray-500">{cards.length}</span>
+              </div>
+              <div className="space-y-2 min-h-[4rem]">{cards.map(renderCard)}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading board...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <TicketFilters categories={categories} priorities={priorities} statuses={statuses} errors={search.errors}>
+        <div className="relative">
+          <Rows3 className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+          <select
+            value={swimlanes}
+            onChange={(e) => setParams({ lanes: e.target.value === 'none' ? null : e.target.value })}
+            className="pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="none">No swimlanes</option>
+            <option value="assignee">By assignee</option>
+            <option value="category">By category</option>
+          </select>
+        </div>
+      </TicketFilters>
+
+      {totalCount > tickets.length && (
+        <div className="px-4 py-2 text-sm text-orange-700 bg-orange-50 rounded-lg">
+          Showing the {tickets.length} highest-priority of {totalCount} matching tickets. Narrow the filters to see the
+          rest.
+        </div>
+      )}
+
+      <div className="space-y-6">{lanes.map(renderLane)}</div>
+    </div>
+  );
+}
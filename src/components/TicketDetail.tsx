@@ -1,71 +1,258 @@
-import { useState, useEffect } from 'react';
-import { supabase, TicketWithRelations, Status, TicketComment } from '../lib/supabase';
-import { X, Clock, User, Mail, Tag, AlertCircle, MessageSquare, Send } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import {
+  supabase,
+  TicketWithRelations,
+  Status,
+  TicketComment,
+  TicketEvent,
+  Agent,
+  Attachment,
+  CustomFieldValues,
+  MacroResult,
+} from '../lib/supabase';
+import {
+  useTicketChanges,
+  useCommentChanges,
+  useLookupChanges,
+  useAttachmentChanges,
+  applyCommentChange,
+} from '../lib/realtime';
+import { getTicketSla, useNow } from '../lib/sla';
+import { useAuth, isAgent, isAdmin } from '../lib/auth';
+import { uploadAttachments, attachmentUrls, deleteAttachment } from '../lib/attachments';
+import { useCustomFields, fieldsForCategory, customFieldProblems, formatCustomValue } from '../lib/customFields';
+import { changeTicketStatus, findTransition, nextStatuses, useStatusTransitions, StatusNote } from '../lib/tickets';
+import SlaBadge from './SlaBadge';
+import TicketTimeline from './TicketTimeline';
+import AgentPicker from './AgentPicker';
+import AttachmentDropzone from './AttachmentDropzone';
+import AttachmentList from './AttachmentList';
+import CustomFieldInputs from './CustomFieldInputs';
+import CannedResponsePicker from './CannedResponsePicker';
+import MacroRunner from './MacroRunner';
+import { X, Clock, User, Mail, Tag, AlertCircle, MessageSquare, Send, Lock, ListChecks } from 'lucide-react';
 
 interface TicketDetailProps {
+  ticketNumber: string;
+  onClose: () => void;
+  onUpdate: () => void;
+}
+
+interface TicketDetailContentProps {
   ticket: TicketWithRelations;
   onClose: () => void;
   onUpdate: () => void;
 }
 
-export default function TicketDetail({ ticket, onClose, onUpdate }: TicketDetailProps) {
+// The ticket is looked up by its number so /tickets/:ticketNumber works on
+// its own, whether opened from the list, a pasted link or a refresh.
+export default function TicketDetail({ ticketNumber, onClose, onUpdate }: TicketDetailProps) {
+  const [ticket, setTicket] = useState<TicketWithRelations | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .from('tickets')
+      .select(`
+        *,
+        categories (*),
+        priorities (*),
+        statuses (*),
+        agents (*)
+      `)
+      .eq('ticket_number', ticketNumber)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error('Error loading ticket:', error);
+        setTicket(data);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketNumber]);
+
+  if (ticket && ticket.ticket_number === ticketNumber) {
+    return <TicketDetailContent key={ticket.id} ticket={ticket} onClose={onClose} onUpdate={onUpdate} />;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="border-b px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-900">{ticketNumber}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+        <div className="p-6 text-center text-gray-500">
+          {loading ? 'Loading ticket...' : "This ticket doesn't exist or you don't have access to it."}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TicketDetailContent({ ticket: initialTicket, onClose, onUpdate }: TicketDetailContentProps) {
+  const [ticket, setTicket] = useState(initialTicket);
+  const { profile } = useAuth();
+  const agent = isAgent(profile);
   const [statuses, setStatuses] = useState<Status[]>([]);
   const [comments, setComments] = useState<TicketComment[]>([]);
+  const [events, setEvents] = useState<TicketEvent[]>([]);
   const [newComment, setNewComment] = useState('');
-  const [commentAuthor, setCommentAuthor] = useState('');
-  const [assignedTo, setAssignedTo] = useState(ticket.assigned_to || '');
+  const commentRef = useRef<HTMLTextAreaElement>(null);
+  const [newFiles, setNewFiles] = useState<File[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [urls, setUrls] = useState<{ [id: string]: string }>({});
+  const [isInternal, setIsInternal] = useState(false);
+  const [agents, setAgents] = useState<Agent[]>([]);
   const [currentStatus, setCurrentStatus] = useState(ticket.status_id);
+  const transitions = useStatusTransitions();
+  // A move that needs a note waits here until the note is written.
+  const [pendingStatus, setPendingStatus] = useState<Status | null>(null);
+  const [statusNote, setStatusNote] = useState('');
+  const [statusNoteInternal, setStatusNoteInternal] = useState(false);
   const [loading, setLoading] = useState(false);
+  const customFields = useCustomFields();
+  const categoryFields = fieldsForCategory(customFields, ticket.category_id);
+  // Set while an agent is editing the custom fields.
+  const [fieldDraft, setFieldDraft] = useState<CustomFieldValues | null>(null);
+  const now = useNow();
+  const sla = getTicketSla(ticket, now);
 
   useEffect(() => {
     loadStatuses();
+    loadAgents();
     loadComments();
+    loadEvents();
+    loadAttachments();
   }, []);
 
+  useTicketChanges((change) => {
+    if (change.type === 'DELETE') {
+      if (change.id === ticket.id) onClose();
+      return;
+    }
+    if (change.ticket.id !== ticket.id) return;
+
+    setTicket(change.ticket);
+    // History rows are written by a trigger in the same transaction as the
+    // ticket change, so they're ready to read by the time we hear about it.
+    loadEvents();
+    setCurrentStatus(change.ticket.status_id);
+  });
+
+  useLookupChanges((table) => {
+    if (table === 'statuses') loadStatuses();
+  });
+
+  useCommentChanges(
+    ticket.id,
+    (change) => {
+      // RLS already keeps internal notes out of a requester's stream; this
+      // also drops a comment that was switched to internal after the fact.
+      if (!agent && change.type !== 'DELETE' && change.comment.is_internal) {
+        setComments((prev) => applyCommentChange(prev, { type: 'DELETE', id: change.comment.id }));
+        return;
+      }
+      setComments((prev) => applyCommentChange(prev, change));
+    },
+    () => {
+      loadComments();
+      loadEvents();
+    }
+  );
+
+  useAttachmentChanges(ticket.id, () => loadAttachments());
+
   const loadStatuses = async () => {
     const { data } = await supabase.from('statuses').select('*').order('order');
     if (data) setStatuses(data);
   };
 
+  const loadAgents = async () => {
+    const { data } = await supabase.from('agents').select('*').order('name');
+    if (data) setAgents(data);
+  };
+
   const loadComments = async () => {
+    let query = supabase.from('ticket_comments').select('*').eq('ticket_id', ticket.id);
+    if (!agent) query = query.eq('is_internal', false);
+
+    const { data } = await query.order('created_at', { ascending: true });
+    if (data) setComments(data);
+  };
+
+  // RLS leaves out files on internal notes for requesters.
+  const loadAttachments = async () => {
     const { data } = await supabase
-      .from('ticket_comments')
+      .from('attachments')
       .select('*')
       .eq('ticket_id', ticket.id)
       .order('created_at', { ascending: true });
-    if (data) setComments(data);
+    if (data) {
+      setAttachments(data);
+      setUrls(await attachmentUrls(data));
+    }
+  };
+
+  const loadEvents = async () => {
+    const { data } = await supabase
+      .from('ticket_events')
+      .select('*')
+      .eq('ticket_id', ticket.id)
+      .order('created_at', { ascending: true });
+    if (data) setEvents(data);
   };
 
   const handleStatusChange = async (newStatusId: string) => {
-    setLoading(true);
     const newStatus = statuses.find((s) => s.id === newStatusId);
-    const updates: any = { status_id: newStatusId };
+    const transition = findTransition(transitions, currentStatus, newStatusId);
+    if (!newStatus || !transition) return;
 
-    if (newStatus?.name === 'Resolved' && !ticket.resolved_at) {
-      updates.resolved_at = new Date().toISOString();
+    if (transition.requires_assignee && !ticket.assignee_id) {
+      alert(`Assign the ticket before moving it to ${newStatus.name}`);
+      return;
     }
 
-    if (newStatus?.is_closed && !ticket.closed_at) {
-      updates.closed_at = new Date().toISOString();
+    if (transition.requires_comment) {
+      setPendingStatus(newStatus);
+      return;
     }
 
-    const { error } = await supabase.from('tickets').update(updates).eq('id', ticket.id);
+    applyStatusChange(newStatus);
+  };
 
-    if (error) {
-      console.error('Error updating status:', error);
-      alert('Failed to update status');
-    } else {
-      setCurrentStatus(newStatusId);
+  const applyStatusChange = async (newStatus: Status, note?: StatusNote) => {
+    setLoading(true);
+    try {
+      await changeTicketStatus(ticket, newStatus, note);
+      setCurrentStatus(newStatus.id);
+      setPendingStatus(null);
+      setStatusNote('');
+      setStatusNoteInternal(false);
       onUpdate();
+    } catch (error) {
+      console.error('Error updating status:', error);
+      alert(`Failed to update status: ${(error as Error).message}`);
     }
     setLoading(false);
   };
 
-  const handleAssignmentChange = async () => {
+  const handleAssignmentChange = async (assigneeId: string | null) => {
     setLoading(true);
     const { error } = await supabase
       .from('tickets')
-      .update({ assigned_to: assignedTo })
+      .update({ assignee_id: assigneeId })
       .eq('id', ticket.id);
 
     if (error) {
@@ -77,30 +264,120 @@ export default function TicketDetail({ ticket, onClose, onUpdate }: TicketDetail
     setLoading(false);
   };
 
+  const handleSaveFields = async () => {
+    if (!fieldDraft) return;
+
+    const problems = customFieldProblems(categoryFields, fieldDraft);
+    if (problems.length > 0) {
+      alert(problems.join('\n'));
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await supabase
+      .from('tickets')
+      .update({ custom_fields: fieldDraft })
+      .eq('id', ticket.id);
+
+    if (error) {
+      console.error('Error updating custom fields:', error);
+      alert(`Failed to update fields: ${error.message}`);
+    } else {
+      setTicket({ ...ticket, custom_fields: fieldDraft });
+      setFieldDraft(null);
+      onUpdate();
+    }
+    setLoading(false);
+  };
+
+  // Every change in the macro has landed, or none has.
+  const handleMacroApplied = ([result]: MacroResult[]) => {
+    if (result && !result.success) {
+      alert(`Failed to apply macro: ${result.error}`);
+      return;
+    }
+    onUpdate();
+  };
+
+  // Canned text goes in at the cursor, replacing any selection.
+  const handleInsertResponse = (text: string) => {
+    const textarea = commentRef.current;
+    const start = textarea?.selectionStart ?? newComment.length;
+    const end = textarea?.selectionEnd ?? newComment.length;
+    setNewComment(newComment.slice(0, start) + text + newComment.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
   const handleAddComment = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newComment.trim() || !commentAuthor.trim()) return;
+    if (!newComment.trim()) return;
 
     setLoading(true);
-    const { error } = await supabase.from('ticket_comments').insert([
-      {
-        ticket_id: ticket.id,
-        comment: newComment,
-        author_name: commentAuthor,
-        is_internal: false,
-      },
-    ]);
+    const { data, error } = await supabase
+      .from('ticket_comments')
+      .insert([
+        {
+          ticket_id: ticket.id,
+          comment: newComment,
+          author_name: profile?.full_name ?? '',
+          is_internal: agent && isInternal,
+        },
+      ])
+      .select()
+      .single();
 
     if (error) {
       console.error('Error adding comment:', error);
       alert('Failed to add comment');
     } else {
       setNewComment('');
-      loadComments();
+      setIsInternal(false);
+      setComments((prev) => applyCommentChange(prev, { type: 'INSERT', comment: data }));
+
+      // The comment is already posted, so a failed upload is reported but
+      // doesn't bring the text back.
+      if (newFiles.length > 0) {
+        try {
+          await uploadAttachments(newFiles, ticket.id, data.id);
+        } catch (uploadError) {
+          console.error('Error uploading attachments:', uploadError);
+          alert(`Comment added, but some files couldn't be attached: ${(uploadError as Error).message}`);
+        }
+        setNewFiles([]);
+        loadAttachments();
+      }
     }
     setLoading(false);
   };
 
+  const handleDeleteAttachment = async (attachment: Attachment) => {
+    if (!confirm(`Delete ${attachment.file_name}?`)) return;
+
+    try {
+      await deleteAttachment(attachment);
+      setAttachments((prev) => prev.filter((item) => item.id !== attachment.id));
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      alert('Failed to delete attachment');
+    }
+  };
+
+  const canDeleteAttachment = (attachment: Attachment) =>
+    attachment.uploaded_by === profile?.id || isAdmin(profile);
+
+  const renderAttachments = (commentId: string | null) => (
+    <AttachmentList
+      attachments={attachments.filter((attachment) => attachment.comment_id === commentId)}
+      urls={urls}
+      canDelete={canDeleteAttachment}
+      onDelete={handleDeleteAttachment}
+    />
+  );
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return new Intl.DateTimeFormat('en-US', {
@@ -131,41 +408,112 @@ export default function TicketDetail({ ticket, onClose, onUpdate }: TicketDetail
         <div className="p-6 space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
-                <select
-                  value={currentStatus}
-                  onChange={(e) => handleStatusChange(e.target.value)}
-                  disabled={loading}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                >
-                  {statuses.map((status) => (
-                    <option key={status.id} value={status.id}>
-                      {status.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {agent ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
+                    <select
+                      value={pendingStatus?.id ?? currentStatus}
+                      onChange={(e) => handleStatusChange(e.target.value)}
+                      disabled={loading || pendingStatus !== null}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {nextStatuses(statuses, transitions, currentStatus).map((status) => (
+                        <option key={status.id} value={status.id}>
+                          {status.name}
+                        </option>
+                      ))}
+                    </select>
+                    {pendingStatus && (
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          applyStatusChange(pendingStatus, { comment: statusNote, isInternal: statusNoteInternal });
+                        }}
+                        className="mt-2 space-y-2"
+                      >
+                        <textarea
+                          value={statusNote}
+                          onChange={(e) => setStatusNote(e.target.value)}
+                          placeholder={`A note is required to move to ${pendingStatus.name}...`}
+                          rows={3}
+                          className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:border-transparent ${
+                            statusNoteInternal
+                              ? 'border-yellow-300 bg-yellow-50 focus:ring-yellow-500'
+                              : 'border-gray-300 focus:ring-blue-500'
+                          }`}
+                        />
+                        <div className="flex items-center justify-between">
+                          <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={statusNoteInternal}
+                              onChange={(e) => setStatusNoteInternal(e.target.checked)}
+                              className="rounded border-gray-300"
+                            />
+                            Internal note
+                          </label>
+                          <div className="flex gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setPendingStatus(null)}
+                              className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="submit"
+                              disabled={loading || !statusNote.trim()}
+                              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                            >
+                              Move to {pendingStatus.name}
+                            </button>
+                          </div>
+                        </div>
+                      </form>
+                    )}
+                  </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Assigned To</label>
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    value={assignedTo}
-                    onChange={(e) => setAssignedTo(e.target.value)}
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Enter name"
-                  />
-                  <button
-                    onClick={handleAssignmentChange}
-                    disabled={loading || assignedTo === ticket.assigned_to}
-                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
-                  >
-                    Update
-                  </button>
-                </div>
-              </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Assigned To</label>
+                    <AgentPicker
+                      agents={agents}
+                      value={ticket.assignee_id}
+                      onChange={handleAssignmentChange}
+                      disabled={loading}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Macro</label>
+                    <MacroRunner
+                      ticketCount={1}
+                      getTicketIds={async () => [ticket.id]}
+                      onApplied={handleMacroApplied}
+                      disabled={loading || pendingStatus !== null}
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-700">Status:</span>
+                    <span
+                      className="px-2 py-1 text-xs font-medium rounded-full"
+                      style={{
+                        backgroundColor: `${ticket.statuses.color}20`,
+                        color: ticket.statuses.color,
+                      }}
+                    >
+                      {ticket.statuses.name}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-700">Assigned to:</span>
+                    <span className="font-medium text-gray-900">{ticket.agents?.name ?? 'Unassigned'}</span>
+                  </div>
+                </>
+              )}
 
               <div className="flex items-center gap-2 text-sm">
                 <Tag size={16} className="text-gray-400" />
@@ -216,8 +564,27 @@ export default function TicketDetail({ ticket, onClose, onUpdate }: TicketDetail
                 <Clock size={16} className="text-gray-400" />
                 <span className="text-gray-700">Created:</span>
                 <span className="font-medium text-gray-900">{formatDate(ticket.created_at)}</span>
+                {ticket.source === 'email' && <span className="text-gray-500">via email</span>}
               </div>
 
+              {ticket.first_response_due_at && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Clock size={16} className="text-gray-400" />
+                  <span className="text-gray-700">Response due:</span>
+                  <span className="font-medium text-gray-900">{formatDate(ticket.first_response_due_at)}</span>
+                  <SlaBadge label="Response" target={sla.response} />
+                </div>
+              )}
+
+              {ticket.resolution_due_at && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Clock size={16} className="text-gray-400" />
+                  <span className="text-gray-700">Resolution due:</span>
+                  <span className="font-medium text-gray-900">{formatDate(ticket.resolution_due_at)}</span>
+                  <SlaBadge label="Resolve" target={sla.resolution} />
+                </div>
+              )}
+
               {ticket.resolved_at && (
                 <div className="flex items-center gap-2 text-sm">
                   <Clock size={16} className="text-gray-400" />
@@ -228,57 +595,131 @@ export default function TicketDetail({ ticket, onClose, onUpdate }: TicketDetail
             </div>
           </div>
 
+          {categoryFields.length > 0 && (
+            <div className="border-t pt-6">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <ListChecks className="mr-2" size={20} />
+                  {ticket.categories.name} Details
+                </h3>
+                {agent && !fieldDraft && (
+                  <button
+                    onClick={() => setFieldDraft({ ...ticket.custom_fields })}
+                    className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Edit
+                  </button>
+                )}
+              </div>
+              {fieldDraft ? (
+                <div className="space-y-3">
+                  <CustomFieldInputs
+                    fields={categoryFields}
+                    values={fieldDraft}
+                    onChange={setFieldDraft}
+                    disabled={loading}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setFieldDraft(null)}
+                      className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSaveFields}
+                      disabled={loading}
+                      className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                  {categoryFields.map((field) => (
+                    <div key={field.id} className="flex gap-2">
+                      <dt className="text-gray-700">{field.label}:</dt>
+                      <dd className="font-medium text-gray-900">
+                        {formatCustomValue(field, ticket.custom_fields[field.key]) || '—'}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </div>
+          )}
+
           <div className="border-t pt-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-3">Description</h3>
             <p className="text-gray-700 whitespace-pre-wrap">{ticket.description}</p>
+            {renderAttachments(null)}
           </div>
 
           <div className="border-t pt-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
               <MessageSquare className="mr-2" size={20} />
-              Comments ({comments.length})
+              Activity ({comments.length} {comments.length === 1 ? 'comment' : 'comments'})
             </h3>
 
-            <div className="space-y-4 mb-4">
-              {comments.map((comment) => (
-                <div key={comment.id} className="bg-gray-50 rounded-lg p-4">
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="font-medium text-gray-900">{comment.author_name}</span>
-                    <span className="text-sm text-gray-500">{formatDate(comment.created_at)}</span>
-                  </div>
-                  <p className="text-gray-700 whitespace-pre-wrap">{comment.comment}</p>
-                </div>
-              ))}
-
-              {comments.length === 0 && (
-                <p className="text-center text-gray-500 py-4">No comments yet</p>
-              )}
+            <div className="mb-4">
+              <TicketTimeline
+                comments={comments}
+                events={events}
+                formatDate={formatDate}
+                renderAttachments={(comment) => renderAttachments(comment.id)}
+              />
             </div>
 
             <form onSubmit={handleAddComment} className="space-y-3">
-              <input
-                type="text"
-                value={commentAuthor}
-                onChange={(e) => setCommentAuthor(e.target.value)}
-                placeholder="Your name"
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                required
-              />
+              {agent && (
+                <div className="flex items-center justify-between gap-3">
+                  <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setIsInternal(false)}
+                      className={`flex items-center gap-1 px-3 py-1.5 transition-colors ${
+                        !isInternal ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      <MessageSquare size={14} />
+                      Public reply
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setIsInternal(true)}
+                      className={`flex items-center gap-1 px-3 py-1.5 border-l border-gray-300 transition-colors ${
+                        isInternal ? 'bg-yellow-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      <Lock size={14} />
+                      Internal note
+                    </button>
+                  </div>
+                  <CannedResponsePicker ticket={ticket} draft={newComment} onInsert={handleInsertResponse} />
+                </div>
+              )}
               <textarea
+                ref={commentRef}
                 value={newComment}
                 onChange={(e) => setNewComment(e.target.value)}
-                placeholder="Add a comment..."
+                placeholder={isInternal ? 'Add an internal note (only agents can see this)...' : 'Add a comment...'}
                 rows={3}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:border-transparent ${
+                  isInternal ? 'border-yellow-300 bg-yellow-50 focus:ring-yellow-500' : 'border-gray-300 focus:ring-blue-500'
+                }`}
                 required
               />
+              <AttachmentDropzone files={newFiles} onChange={setNewFiles} disabled={loading} />
               <button
                 type="submit"
-                disabled={loading || !newComment.trim() || !commentAuthor.trim()}
-                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                disabled={loading || !newComment.trim()}
+                className={`flex items-center gap-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 ${
+                  isInternal ? 'bg-yellow-500 hover:bg-yellow-600' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
               >
-                <Send size={16} />
-                Add Comment
+                {isInternal ? <Lock size={16} /> : <Send size={16} />}
+                {isInternal ? 'Add Internal Note' : 'Add Comment'}
               </button>
             </form>
           </div>
@@ -0,0 +1,116 @@
+import { useState, useEffect, useRef, ReactNode } from 'react';
+import { Category, Priority, Status } from '../lib/supabase';
+import { useLocation, setParams } from '../lib/router';
+import { readSelection, activeOptions } from '../lib/ticketSearch';
+import { Search } from 'lucide-react';
+
+interface TicketFiltersProps {
+  categories: Category[];
+  priorities: Priority[];
+  statuses: Status[];
+  errors: string[];
+  // Extra controls for the view, shown after the dropdowns.
+  children?: ReactNode;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Any filter change starts again from the first page. Typing replaces the
+// current history entry instead of adding one per search.
+const updateFilter = (changes: Record<string, string>, replace = false) =>
+  setParams({ ...changes, page: null }, { replace });
+
+export default function TicketFilters({ categories, priorities, statuses, errors, children }: TicketFiltersProps) {
+  const location = useLocation();
+  const selection = readSelection(location.search);
+  const [searchTerm, setSearchTerm] = useState(selection.q);
+  const writtenSearchRef = useRef(selection.q);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const next = searchTerm.trim();
+      if (next === writtenSearchRef.current) return;
+      writtenSearchRef.current = next;
+      updateFilter({ q: next }, true);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Back/forward and saved views can change the query under us; only then
+  // does the box need to follow the URL.
+  useEffect(() => {
+    if (selection.q === writtenSearchRef.current) return;
+    writtenSearchRef.current = selection.q;
+    setSearchTerm(selection.q);
+  }, [selection.q]);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="flex-1 relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+          <input
+            type="text"
+            placeholder='Search tickets... e.g. status:open priority:high assignee:me "printer jam"'
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="Filter with status:, priority:, category:, assignee: (me, none or a name) and created: or updated: (today, 7d, >30d or 2026-01-16), or a custom field key such as asset_tag:A-1234. Quote phrases."
+          />
+        </div>
+
+        <div className="flex gap-2 flex-wrap">
+          <select
+            value={selection.categoryId}
+            onChange={(e) => updateFilter({ category: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All Categories</option>
+            {activeOptions(categories, selection.categoryId).map((cat) => (
+              <option key={cat.id} value={cat.id}>
+                {cat.name}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={selection.priorityId}
+            onChange={(e) => updateFilter({ priority: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All Priorities</option>
+            {activeOptions(priorities, selection.priorityId).map((priority) => (
+              <option key={priority.id} value={priority.id}>
+                {priority.name}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={selection.statusId}
+            onChange={(e) => updateFilter({ status: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All Statuses</option>
+            {activeOptions(statuses, selection.statusId).map((status) => (
+              <option key={status.id} value={status.id}>
+                {status.name}
+              </option>
+            ))}
+          </select>
+
+          {children}
+        </div>
+      </div>
+      {errors.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {errors.map((message) => (
+            <span key={message} className="px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-700">
+              {message}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,38 @@
 import { useState, useEffect } from "react";
-import { supabase, Category, Priority } from "../lib/supabase";
+import {
+  supabase,
+  Category,
+  Priority,
+  CustomFieldValues,
+  TicketTemplate,
+} from "../lib/supabase";
+import { useAuth, isAgent } from "../lib/auth";
+import { useLookupChanges } from "../lib/realtime";
+import { uploadAttachments } from "../lib/attachments";
+import { useTicketTemplates } from "../lib/templates";
+import {
+  useCustomFields,
+  fieldsForCategory,
+  customFieldProblems,
+} from "../lib/customFields";
+import AttachmentDropzone from "./AttachmentDropzone";
+import CustomFieldInputs from "./CustomFieldInputs";
 import { X } from "lucide-react";
 
 interface TicketFormProps {
   onClose: () => void;
-  onSuccess: () => void;
 }
 
-export default function TicketForm({ onClose, onSuccess }: TicketFormProps) {
+export default function TicketForm({ onClose }: TicketFormProps) {
+  const { profile } = useAuth();
+  const agent = isAgent(profile);
   const [categories, setCategories] = useState<Category[]>([]);
   const [priorities, setPriorities] = useState<Priority[]>([]);
+  const customFields = useCustomFields();
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const templates = useTicketTemplates();
+  const [templateId, setTemplateId] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     title: "",
@@ -24,43 +47,110 @@ export default function TicketForm({ onClose, onSuccess }: TicketFormProps) {
     loadFormData();
   }, []);
 
+  useLookupChanges((table) => {
+    if (table === "categories" || table === "priorities") loadFormData();
+  });
+
   const loadFormData = async () => {
     const [categoriesRes, prioritiesRes] = await Promise.all([
-      supabase.from("categories").select("*").order("name"),
-      supabase.from("priorities").select("*").order("level"),
+      supabase
+        .from("categories")
+        .select("*")
+        .eq("is_archived", false)
+        .order("position")
+        .order("name"),
+      supabase
+        .from("priorities")
+        .select("*")
+        .eq("is_archived", false)
+        .order("level"),
     ]);
 
     if (categoriesRes.data) setCategories(categoriesRes.data);
     if (prioritiesRes.data) setPriorities(prioritiesRes.data);
   };
 
+  // A template fills in what it has and leaves the rest as typed. Archived
+  // categories and priorities aren't offered, so those parts are skipped.
+  const applyTemplate = (template: TicketTemplate | undefined) => {
+    setTemplateId(template?.id ?? "");
+    if (!template) return;
+
+    const categoryId = categories.some((c) => c.id === template.category_id)
+      ? template.category_id!
+      : formData.category_id;
+    const priorityId = priorities.some((p) => p.id === template.priority_id)
+      ? template.priority_id!
+      : formData.priority_id;
+
+    setFormData({
+      ...formData,
+      title: template.title || formData.title,
+      description: template.description || formData.description,
+      category_id: categoryId,
+      priority_id: priorityId,
+    });
+    setCustomValues({ ...customValues, ...template.custom_fields });
+  };
+
+  const categoryFields = fieldsForCategory(customFields, formData.category_id);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const problems = customFieldProblems(categoryFields, customValues);
+    if (problems.length > 0) {
+      alert(problems.join("\n"));
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const openStatus = await supabase
-        .from("statuses")
-        .select("id")
-        .eq("name", "Open")
-        .maybeSingle();
-
-      if (!openStatus.data) {
-        alert("Error: Could not find Open status");
-        return;
-      }
+      // Requesters always file for themselves; the database enforces this too.
+      const requester = agent
+        ? {}
+        : {
+            requester_name: profile?.full_name ?? "",
+            requester_email: profile?.email ?? "",
+          };
 
-      const { error } = await supabase.from("tickets").insert([
-        {
-          ...formData,
-          status_id: openStatus.data.id,
-          ticket_number: "",
-        },
-      ]);
+      const { data, error } = await supabase
+        .from("tickets")
+        .insert([
+          {
+            ...formData,
+            ...requester,
+            // Only the chosen category's fields; values typed in before
+            // switching category are dropped.
+            custom_fields: Object.fromEntries(
+              categoryFields
+                .filter((field) => customValues[field.key] !== undefined)
+                .map((field) => [field.key, customValues[field.key]])
+            ),
+            ticket_number: "",
+          },
+        ])
+        .select("id")
+        .single();
 
       if (error) throw error;
 
-      onSuccess();
+      // Files go into the new ticket's folder, so they're uploaded once it
+      // exists. The ticket stands even if an upload fails.
+      if (files.length > 0) {
+        try {
+          await uploadAttachments(files, data.id);
+        } catch (uploadError) {
+          console.error("Error uploading attachments:", uploadError);
+          alert(
+            `Ticket created, but some files couldn't be attached: ${
+              (uploadError as Error).message
+            }`
+          );
+        }
+      }
+
       onClose();
     } catch (error) {
       console.error("Error creating ticket:", error);
@@ -86,6 +176,28 @@ export default function TicketForm({ onClose, onSuccess }: TicketFormProps) {
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {templates.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Start from a template
+              </label>
+              <select
+                value={templateId}
+                onChange={(e) =>
+                  applyTemplate(templates.find((t) => t.id === e.target.value))
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">No template</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Title *
@@ -158,36 +270,56 @@ export default function TicketForm({ onClose, onSuccess }: TicketFormProps) {
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Your Name *
-              </label>
-              <input
-                type="text"
-                value={formData.requester_name}
-                onChange={(e) =>
-                  setFormData({ ...formData, requester_name: e.target.value })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="John Doe"
-              />
-            </div>
+          <CustomFieldInputs
+            fields={categoryFields}
+            values={customValues}
+            onChange={setCustomValues}
+            disabled={loading}
+          />
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Your Email *
-              </label>
-              <input
-                type="email"
-                value={formData.requester_email}
-                onChange={(e) =>
-                  setFormData({ ...formData, requester_email: e.target.value })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="john@example.com"
-              />
+          {agent && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Requester Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.requester_name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, requester_name: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="John Doe"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Requester Email *
+                </label>
+                <input
+                  type="email"
+                  value={formData.requester_email}
+                  onChange={(e) =>
+                    setFormData({ ...formData, requester_email: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="john@example.com"
+                />
+              </div>
             </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Attachments
+            </label>
+            <AttachmentDropzone
+              files={files}
+              onChange={setFiles}
+              disabled={loading}
+            />
           </div>
 
           <div className="flex justify-end gap-3 pt-4 border-t">
@@ -1,94 +1,342 @@
-import { useState, useEffect } from 'react';
-import { supabase, TicketWithRelations, Category, Priority, Status } from '../lib/supabase';
-import { Search, Filter, Clock, User } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase, TicketWithRelations } from '../lib/supabase';
+import { useTicketChanges, applyTicketChange } from '../lib/realtime';
+import { getTicketSla, getWorstSlaState, useNow } from '../lib/sla';
+import { searchTicketsArgs, splitHighlights } from '../lib/searchQuery';
+import { useSearchLookups, useResolvedSearch } from '../lib/ticketSearch';
+import { useLocation, navigate, setParams, ticketPath } from '../lib/router';
+import { useAuth, isAgent } from '../lib/auth';
+import SlaBadge from './SlaBadge';
+import SavedViews from './SavedViews';
+import BulkActions from './BulkActions';
+import TicketFilters from './TicketFilters';
+import {
+  Filter,
+  Clock,
+  User,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  Columns,
+  Flame,
+} from 'lucide-react';
 
-interface TicketListProps {
-  onTicketClick: (ticket: TicketWithRelations) => void;
-  refreshTrigger: number;
+type SortColumn =
+  | 'relevance'
+  | 'ticket_number'
+  | 'title'
+  | 'category'
+  | 'priority'
+  | 'status'
+  | 'assignee'
+  | 'sla'
+  | 'requester'
+  | 'created_at';
+
+type Sort = { column: SortColumn; ascending: boolean };
+
+const SORT_COLUMNS: SortColumn[] = [
+  'relevance',
+  'ticket_number',
+  'title',
+  'category',
+  'priority',
+  'status',
+  'assignee',
+  'sla',
+  'requester',
+  'created_at',
+];
+
+// Relevance only applies while searching; otherwise the server falls back
+// to newest first.
+const DEFAULT_SORT: Sort = { column: 'relevance', ascending: false };
+
+// Filters, sort and page are kept in the query string (?q=&status=&sort=
+// &dir=&page=) so a filtered list can be shared and survives a refresh.
+const readSort = (params: URLSearchParams): Sort => {
+  const column = params.get('sort') as SortColumn | null;
+  if (!column || !SORT_COLUMNS.includes(column)) return DEFAULT_SORT;
+  return { column, ascending: params.get('dir') === 'asc' };
+};
+
+// Ticket and title are always shown; the rest can be hidden per view.
+type OptionalColumn = 'category' | 'priority' | 'status' | 'assignee' | 'sla' | 'requester' | 'created_at';
+
+const OPTIONAL_COLUMNS: { column: OptionalColumn; label: string }[] = [
+  { column: 'category', label: 'Category' },
+  { column: 'priority', label: 'Priority' },
+  { column: 'status', label: 'Status' },
+  { column: 'assignee', label: 'Assignee' },
+  { column: 'sla', label: 'SLA' },
+  { column: 'requester', label: 'Requester' },
+  { column: 'created_at', label: 'Created' },
+];
+
+const readColumns = (params: URLSearchParams) => {
+  const requested = (params.get('cols') ?? '').split(',').filter(Boolean);
+  const known = OPTIONAL_COLUMNS.map(({ column }) => column).filter((column) => requested.includes(column));
+  return new Set<OptionalColumn>(known.length > 0 ? known : OPTIONAL_COLUMNS.map(({ column }) => column));
+};
+
+const readPage = (params: URLSearchParams) => {
+  const page = parseInt(params.get('page') ?? '', 10);
+  return Number.isFinite(page) && page > 1 ? page - 1 : 0;
+};
+
+// Any change other than paging starts again from the first page.
+const updateParams = (changes: Record<string, string | number | null>, replace = false) =>
+  setParams({ page: null, ...changes }, { replace });
+
+type SearchSnippet = {
+  ticket_id: string;
+  rank: number;
+  title_snippet: string;
+  description_snippet: string | null;
+  comment_snippet: string | null;
+};
+
+// Snippets are only computed for the page on screen, since highlighting is
+// the expensive part of a search.
+const fetchSnippets = async (text: string, rows: TicketWithRelations[]) => {
+  const { data, error } = await supabase.rpc('ticket_search_snippets', {
+    p_search: text,
+    p_ticket_ids: rows.map((ticket) => ticket.id),
+  });
+
+  const byTicket: { [ticketId: string]: SearchSnippet } = {};
+  if (error) {
+    console.error('Error loading search snippets:', error);
+    return byTicket;
+  }
+
+  ((data as SearchSnippet[] | null) || []).forEach((snippet) => {
+    byTicket[snippet.ticket_id] = snippet;
+  });
+  return byTicket;
+};
+
+function Highlighted({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitHighlights(snippet).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+interface SortableHeaderProps {
+  label: string;
+  column: SortColumn;
+  sort: Sort;
+  onSort: (column: SortColumn) => void;
+}
+
+const PAGE_SIZE = 25;
+// PostgREST caps a single response at 1000 rows by default.
+const ID_PAGE_SIZE = 1000;
+const RELOAD_DEBOUNCE_MS = 500;
+
+function SortableHeader({ label, column, sort, onSort }: SortableHeaderProps) {
+  const active = sort.column === column;
+  const Icon = !active ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+
+  return (
+    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+      <button
+        type="button"
+        onClick={() => onSort(column)}
+        className={`flex items-center gap-1 uppercase tracking-wider hover:text-gray-700 ${
+          active ? 'text-gray-900' : ''
+        }`}
+      >
+        {label}
+        <Icon size={12} className={active ? '' : 'opacity-40'} />
+      </button>
+    </th>
+  );
 }
 
-export default function TicketList({ onTicketClick, refreshTrigger }: TicketListProps) {
+export default function TicketList() {
+  const location = useLocation();
+  const params = useMemo(() => new URLSearchParams(location.search), [location.search]);
+  const { column: sortColumn, ascending: sortAscending } = readSort(params);
+  const sort = useMemo(() => ({ column: sortColumn, ascending: sortAscending }), [sortColumn, sortAscending]);
+  const page = readPage(params);
+  const visibleColumns = readColumns(params);
   const [tickets, setTickets] = useState<TicketWithRelations[]>([]);
-  const [filteredTickets, setFilteredTickets] = useState<TicketWithRelations[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('');
-  const [selectedPriority, setSelectedPriority] = useState('');
-  const [selectedStatus, setSelectedStatus] = useState('');
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [priorities, setPriorities] = useState<Priority[]>([]);
-  const [statuses, setStatuses] = useState<Status[]>([]);
+  const [snippets, setSnippets] = useState<{ [ticketId: string]: SearchSnippet }>({});
+  const [showColumns, setShowColumns] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [allMatching, setAllMatching] = useState(false);
+  const { profile } = useAuth();
+  const agent = isAgent(profile);
+  const requestRef = useRef(0);
+  const reloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const now = useNow();
 
-  useEffect(() => {
-    loadTickets();
-    loadFilters();
-  }, [refreshTrigger]);
+  const lookups = useSearchLookups();
+  const { categories, priorities, statuses, agents } = lookups;
+  const search = useResolvedSearch(lookups);
 
+  // A selection only makes sense for the filters it was made under.
   useEffect(() => {
-    filterTickets();
-  }, [tickets, searchTerm, selectedCategory, selectedPriority, selectedStatus]);
-
-  const loadFilters = async () => {
-    const [categoriesRes, prioritiesRes, statusesRes] = await Promise.all([
-      supabase.from('categories').select('*').order('name'),
-      supabase.from('priorities').select('*').order('level'),
-      supabase.from('statuses').select('*').order('order'),
-    ]);
-
-    if (categoriesRes.data) setCategories(categoriesRes.data);
-    if (prioritiesRes.data) setPriorities(prioritiesRes.data);
-    if (statusesRes.data) setStatuses(statusesRes.data);
-  };
+    setSelectedIds(new Set());
+    setAllMatching(false);
+  }, [search]);
 
-  const loadTickets = async () => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('tickets')
+  const loadTickets = useCallback(async () => {
+    const request = ++requestRef.current;
+    const from = page * PAGE_SIZE;
+
+    const { data, count, error } = await supabase
+      .rpc('search_tickets', searchTicketsArgs(search, sort), { count: 'exact' })
       .select(`
         *,
         categories (*),
         priorities (*),
-        statuses (*)
+        statuses (*),
+        agents (*)
       `)
-      .order('created_at', { ascending: false });
+      .range(from, from + PAGE_SIZE - 1);
+
+    // A slower response for an older filter combination must not win.
+    if (request !== requestRef.current) return;
 
     if (error) {
       console.error('Error loading tickets:', error);
     } else {
-      setTickets(data || []);
+      const rows = (data as TicketWithRelations[] | null) || [];
+      setTickets(rows);
+      if (search.text && rows.length > 0) {
+        fetchSnippets(search.text, rows).then((result) => {
+          if (request === requestRef.current) setSnippets(result);
+        });
+      } else {
+        setSnippets({});
+      }
+      setTotalCount(count ?? 0);
+      // Deleted tickets can leave us past the last page.
+      if (count !== null && page > 0 && from >= count) {
+        const lastPage = Math.max(0, Math.ceil(count / PAGE_SIZE) - 1);
+        updateParams({ page: lastPage > 0 ? lastPage + 1 : null }, true);
+      }
     }
     setLoading(false);
+  }, [search, sort, page]);
+
+  useEffect(() => {
+    loadTickets();
+  }, [loadTickets]);
+
+  useEffect(() => {
+    return () => {
+      if (reloadTimerRef.current) clearTimeout(reloadTimerRef.current);
+    };
+  }, []);
+
+  const scheduleReload = () => {
+    if (reloadTimerRef.current) clearTimeout(reloadTimerRef.current);
+    reloadTimerRef.current = setTimeout(() => {
+      reloadTimerRef.current = null;
+      loadTickets();
+    }, RELOAD_DEBOUNCE_MS);
   };
 
-  const filterTickets = () => {
-    let filtered = [...tickets];
-
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(
-        (ticket) =>
-          ticket.ticket_number.toLowerCase().includes(term) ||
-          ticket.title.toLowerCase().includes(term) ||
-          ticket.description.toLowerCase().includes(term) ||
-          ticket.requester_name.toLowerCase().includes(term)
-      );
-    }
+  useTicketChanges(
+    (change) => {
+      // Tickets already on screen are patched in place; anything else may
+      // change which tickets belong on this page or the total, so the page
+      // is fetched again.
+      if (change.type === 'UPDATE' && tickets.some((ticket) => ticket.id === change.ticket.id)) {
+        setTickets((prev) => applyTicketChange(prev, change));
+        return;
+      }
+      scheduleReload();
+    },
+    () => loadTickets()
+  );
 
-    if (selectedCategory) {
-      filtered = filtered.filter((ticket) => ticket.category_id === selectedCategory);
-    }
+  const handleSort = (column: SortColumn) => {
+    const ascending =
+      sort.column === column ? !sort.ascending : column !== 'created_at' && column !== 'priority';
+    updateParams({ sort: column, dir: ascending ? 'asc' : 'desc' });
+  };
+
+  const goToPage = (next: number) => updateParams({ page: next > 0 ? next + 1 : null });
+
+  const pageSelected = tickets.length > 0 && tickets.every((ticket) => selectedIds.has(ticket.id));
+  const selectedCount = allMatching ? totalCount : selectedIds.size;
 
-    if (selectedPriority) {
-      filtered = filtered.filter((ticket) => ticket.priority_id === selectedPriority);
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatching(false);
+  };
+
+  const toggleTicket = (ticketId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(ticketId)) {
+      next.delete(ticketId);
+    } else {
+      next.add(ticketId);
     }
+    setSelectedIds(next);
+    setAllMatching(false);
+  };
 
-    if (selectedStatus) {
-      filtered = filtered.filter((ticket) => ticket.status_id === selectedStatus);
+  const togglePage = () => {
+    const next = new Set(selectedIds);
+    tickets.forEach((ticket) => (pageSelected ? next.delete(ticket.id) : next.add(ticket.id)));
+    setSelectedIds(next);
+    setAllMatching(false);
+  };
+
+  const getSelectedTicketIds = async () => {
+    if (!allMatching) return [...selectedIds];
+
+    const ids: string[] = [];
+    for (let from = 0; from < totalCount; from += ID_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .rpc('search_tickets', searchTicketsArgs(search, { column: 'created_at', ascending: false }))
+        .select('id')
+        .range(from, from + ID_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      const rows = (data as { id: string }[] | null) || [];
+      ids.push(...rows.map((row) => row.id));
+      if (rows.length < ID_PAGE_SIZE) break;
     }
+    return ids;
+  };
 
-    setFilteredTickets(filtered);
+  const toggleColumn = (column: OptionalColumn) => {
+    const next = new Set(visibleColumns);
+    if (next.has(column)) {
+      next.delete(column);
+    } else {
+      next.add(column);
+    }
+    if (next.size === 0) return;
+    const all = next.size === OPTIONAL_COLUMNS.length;
+    const cols = OPTIONAL_COLUMNS.map((option) => option.column).filter((option) => next.has(option));
+    setParams({ cols: all ? null : cols.join(',') }, { replace: true });
   };
 
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const firstShown = totalCount === 0 ? 0 : page * PAGE_SIZE + 1;
+  const lastShown = Math.min(totalCount, (page + 1) * PAGE_SIZE);
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return new Intl.DateTimeFormat('en-US', {
@@ -109,161 +357,267 @@ export default function TicketList({ onTicketClick, refreshTrigger }: TicketList
   }
 
   return (
-    <div className="space-y-4">
-      <div className="bg-white rounded-lg shadow p-4">
-        <div className="flex flex-col lg:flex-row gap-4">
-          <div className="flex-1 relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
-            <input
-              type="text"
-              placeholder="Search tickets..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            />
-          </div>
+    <div className="flex flex-col lg:flex-row gap-4">
+      <SavedViews lookups={lookups} />
 
-          <div className="flex gap-2 flex-wrap">
-            <select
-              value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value)}
-              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            >
-              <option value="">All Categories</option>
-              {categories.map((cat) => (
-                <option key={cat.id} value={cat.id}>
-                  {cat.name}
-                </option>
-              ))}
-            </select>
-
-            <select
-              value={selectedPriority}
-              onChange={(e) => setSelectedPriority(e.target.value)}
-              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      <div className="flex-1 min-w-0 space-y-4">
+        <TicketFilters categories={categories} priorities={priorities} statuses={statuses} errors={search.errors}>
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowColumns(!showColumns)}
+              className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
             >
-              <option value="">All Priorities</option>
-              {priorities.map((priority) => (
-                <option key={priority.id} value={priority.id}>
-                  {priority.name}
-                </option>
-              ))}
-            </select>
-
-            <select
-              value={selectedStatus}
-              onChange={(e) => setSelectedStatus(e.target.value)}
-              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            >
-              <option value="">All Statuses</option>
-              {statuses.map((status) => (
-                <option key={status.id} value={status.id}>
-                  {status.name}
-                </option>
-              ))}
-            </select>
-          </div>
-        </div>
-      </div>
-
-      <div className="bg-white rounded-lg shadow overflow-hidden">
-        {filteredTickets.length === 0 ? (
-          <div className="text-center py-12 text-gray-500">
-            <Filter size={48} className="mx-auto mb-4 opacity-50" />
-            <p>No tickets found</p>
-          </div>
-        ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gray-50 border-b">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Ticket
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Title
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Category
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Priority
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Status
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Requester
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Created
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {filteredTickets.map((ticket) => (
-                  <tr
-                    key={ticket.id}
-                    onClick={() => onTicketClick(ticket)}
-                    className="hover:bg-gray-50 cursor-pointer transition-colors"
+              <Columns size={16} />
+              Columns
+            </button>
+            {showColumns && (
+              <div className="absolute right-0 z-10 mt-1 w-44 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+                {OPTIONAL_COLUMNS.map(({ column, label }) => (
+                  <label
+                    key={column}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 cursor-pointer"
                   >
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-blue-600">{ticket.ticket_number}</div>
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="text-sm text-gray-900 font-medium">{ticket.title}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        className="px-2 py-1 text-xs font-medium rounded-full"
-                        style={{
-                          backgroundColor: `${ticket.categories.color}20`,
-                          color: ticket.categories.color,
-                        }}
-                      >
-                        {ticket.categories.name}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        className="px-2 py-1 text-xs font-medium rounded-full"
-                        style={{
-                          backgroundColor: `${ticket.priorities.color}20`,
-                          color: ticket.priorities.color,
-                        }}
-                      >
-                        {ticket.priorities.name}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        className="px-2 py-1 text-xs font-medium rounded-full"
-                        style={{
-                          backgroundColor: `${ticket.statuses.color}20`,
-                          color: ticket.statuses.color,
-                        }}
-                      >
-                        {ticket.statuses.name}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-gray-900">
-                        <User size={16} className="mr-2 text-gray-400" />
-                        {ticket.requester_name}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-gray-500">
-                        <Clock size={16} className="mr-2" />
-                        {formatDate(ticket.created_at)}
-                      </div>
-                    </td>
-                  </tr>
+                    <input
+                      type="checkbox"
+                      checked={visibleColumns.has(column)}
+                      disabled={visibleColumns.has(column) && visibleColumns.size === 1}
+                      onChange={() => toggleColumn(column)}
+                      className="rounded border-gray-300"
+                    />
+                    {label}
+                  </label>
                 ))}
-              </tbody>
-            </table>
+              </div>
+            )}
           </div>
+        </TicketFilters>
+
+        {agent && selectedCount > 0 && (
+          <BulkActions
+            selectedCount={selectedCount}
+            getTicketIds={getSelectedTicketIds}
+            statuses={statuses}
+            priorities={priorities}
+            categories={categories}
+            agents={agents}
+            onClear={clearSelection}
+          />
         )}
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          {agent && (pageSelected || allMatching) && totalCount > tickets.length && (
+            <div className="px-6 py-2 bg-blue-50 border-b text-sm text-blue-800 text-center">
+              {allMatching ? (
+                <>
+                  All {totalCount} matching tickets are selected.{' '}
+                  <button onClick={clearSelection} className="font-medium underline hover:text-blue-900">
+                    Clear selection
+                  </button>
+                </>
+              ) : (
+                <>
+                  All {tickets.length} tickets on this page are selected.{' '}
+                  <button onClick={() => setAllMatching(true)} className="font-medium underline hover:text-blue-900">
+                    Select all {totalCount} matching tickets
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+          {tickets.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <Filter size={48} className="mx-auto mb-4 opacity-50" />
+              <p>No tickets found</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    {agent && (
+                      <th className="pl-6 py-3 w-4">
+                        <input
+                          type="checkbox"
+                          checked={pageSelected}
+                          onChange={togglePage}
+                          className="rounded border-gray-300"
+                          title="Select this page"
+                        />
+                      </th>
+                    )}
+                    <SortableHeader label="Ticket" column="ticket_number" sort={sort} onSort={handleSort} />
+                    <SortableHeader label="Title" column="title" sort={sort} onSort={handleSort} />
+                    {OPTIONAL_COLUMNS.filter(({ column }) => visibleColumns.has(column)).map(({ column, label }) => (
+                      <SortableHeader key={column} label={label} column={column} sort={sort} onSort={handleSort} />
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {tickets.map((ticket) => {
+                    const sla = getTicketSla(ticket, now);
+                    const snippet = snippets[ticket.id];
+                    const selected = allMatching || selectedIds.has(ticket.id);
+                    const isActive = !ticket.resolved_at && !ticket.closed_at;
+                    const slaState = isActive ? getWorstSlaState(sla) : 'none';
+                    const rowHighlight =
+                      slaState === 'breached'
+                        ? 'bg-red-50 hover:bg-red-100'
+                        : slaState === 'at_risk'
+                        ? 'bg-orange-50 hover:bg-orange-100'
+                        : 'hover:bg-gray-50';
+
+                    return (
+                      <tr
+                        key={ticket.id}
+                        onClick={() => navigate(ticketPath(ticket.ticket_number, location.search))}
+                        className={`${selected ? 'bg-blue-50' : rowHighlight} cursor-pointer transition-colors`}
+                      >
+                        {agent && (
+                          <td className="pl-6 py-4" onClick={(e) => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              checked={selected}
+                              onChange={() => toggleTicket(ticket.id)}
+                              className="rounded border-gray-300"
+                            />
+                          </td>
+                        )}
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-blue-600">{ticket.ticket_number}</div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center gap-2 text-sm text-gray-900 font-medium">
+                            {snippet ? <Highlighted snippet={snippet.title_snippet} /> : ticket.title}
+                            {ticket.escalated_at && !ticket.closed_at && (
+                              <span
+                                className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800 whitespace-nowrap"
+                                title={`Escalated ${new Date(ticket.escalated_at).toLocaleString()} for lack of agent activity`}
+                              >
+                                <Flame size={12} />
+                                Escalated
+                              </span>
+                            )}
+                          </div>
+                          {snippet && (snippet.description_snippet || snippet.comment_snippet) && (
+                            <div className="mt-1 text-xs text-gray-500 max-w-md">
+                              {snippet.description_snippet ? (
+                                <Highlighted snippet={snippet.description_snippet} />
+                              ) : (
+                                <>
+                                  <span className="font-medium text-gray-600">In comment: </span>
+                                  <Highlighted snippet={snippet.comment_snippet!} />
+                                </>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                        {visibleColumns.has('category') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span
+                              className="px-2 py-1 text-xs font-medium rounded-full"
+                              style={{
+                                backgroundColor: `${ticket.categories.color}20`,
+                                color: ticket.categories.color,
+                              }}
+                            >
+                              {ticket.categories.name}
+                            </span>
+                          </td>
+                        )}
+                        {visibleColumns.has('priority') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span
+                              className="px-2 py-1 text-xs font-medium rounded-full"
+                              style={{
+                                backgroundColor: `${ticket.priorities.color}20`,
+                                color: ticket.priorities.color,
+                              }}
+                            >
+                              {ticket.priorities.name}
+                            </span>
+                          </td>
+                        )}
+                        {visibleColumns.has('status') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span
+                              className="px-2 py-1 text-xs font-medium rounded-full"
+                              style={{
+                                backgroundColor: `${ticket.statuses.color}20`,
+                                color: ticket.statuses.color,
+                              }}
+                            >
+                              {ticket.statuses.name}
+                            </span>
+                          </td>
+                        )}
+                        {visibleColumns.has('assignee') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className={`text-sm ${ticket.agents ? 'text-gray-900' : 'text-gray-400'}`}>
+                              {ticket.agents?.name ?? 'Unassigned'}
+                            </div>
+                          </td>
+                        )}
+                        {visibleColumns.has('sla') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex flex-col items-start gap-1">
+                              {sla.response.state !== 'met' && <SlaBadge label="Response" target={sla.response} />}
+                              <SlaBadge label="Resolve" target={sla.resolution} />
+                            </div>
+                          </td>
+                        )}
+                        {visibleColumns.has('requester') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center text-sm text-gray-900">
+                              <User size={16} className="mr-2 text-gray-400" />
+                              {ticket.requester_name}
+                            </div>
+                          </td>
+                        )}
+                        {visibleColumns.has('created_at') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center text-sm text-gray-500">
+                              <Clock size={16} className="mr-2" />
+                              {formatDate(ticket.created_at)}
+                            </div>
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="flex items-center justify-between px-6 py-3 border-t bg-gray-50 text-sm text-gray-600">
+            <span>
+              {totalCount === 0
+                ? 'No matching tickets'
+                : `Showing ${firstShown}–${lastShown} of ${totalCount} ${totalCount === 1 ? 'ticket' : 'tickets'}`}
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => goToPage(page - 1)}
+                disabled={page === 0}
+                className="p-1 rounded hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Previous page"
+              >
+                <ChevronLeft size={18} />
+              </button>
+              <span>
+                Page {page + 1} of {totalPages}
+              </span>
+              <button
+                onClick={() => goToPage(page + 1)}
+                disabled={page + 1 >= totalPages}
+                className="p-1 rounded hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Next page"
+              >
+                <ChevronRight size={18} />
+              </button>
+            </div>
+          </div>
+        </div>
       </div>
     </div>
   );
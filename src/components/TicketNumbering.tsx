@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react';
+import { supabase, Category, NumberReset, TicketNumberFormat } from '../lib/supabase';
+import { activeOptions } from '../lib/ticketSearch';
+import { Hash, Plus, Trash2, Pencil, X } from 'lucide-react';
+
+type FormatForm = {
+  category_id: string;
+  prefix: string;
+  reset: NumberReset;
+  padding: number;
+};
+
+const RESET_LABELS: { [key in NumberReset]: string } = {
+  daily: 'Every day',
+  yearly: 'Every year',
+  never: 'Never',
+};
+
+const EMPTY_FORM: FormatForm = {
+  category_id: '',
+  prefix: '',
+  reset: 'yearly',
+  padding: 4,
+};
+
+// Mirrors generate_ticket_number() so admins can see what a format produces.
+const exampleNumber = ({ prefix, reset, padding }: FormatForm | TicketNumberFormat) => {
+  const today = new Date();
+  const year = String(today.getFullYear());
+  const day = `${year}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+  const period = reset === 'daily' ? `-${day}` : reset === 'yearly' ? `-${year}` : '';
+  return `${prefix || 'PREFIX'}${period}-${'1'.padStart(padding, '0')}`;
+};
+
+export default function TicketNumbering() {
+  const [formats, setFormats] = useState<TicketNumberFormat[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<FormatForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    const [formatsRes, categoriesRes] = await Promise.all([
+      supabase.from('ticket_number_formats').select('*').order('created_at'),
+      supabase.from('categories').select('*').order('position').order('name'),
+    ]);
+
+    if (formatsRes.data) setFormats(formatsRes.data);
+    if (categoriesRes.data) setCategories(categoriesRes.data);
+    setLoading(false);
+  };
+
+  const categoryName = (categoryId: string | null) =>
+    categoryId ? categories.find((cat) => cat.id === categoryId)?.name ?? 'Removed category' : 'All other categories';
+
+  // The catch-all format leads; category formats follow by category name.
+  const sortedFormats = [...formats].sort((a, b) => {
+    if (!a.category_id) return -1;
+    if (!b.category_id) return 1;
+    return categoryName(a.category_id).localeCompare(categoryName(b.category_id));
+  });
+
+  const openForm = (format?: TicketNumberFormat) => {
+    setEditingId(format?.id ?? null);
+    setFormData(
+      format
+        ? {
+            category_id: format.category_id ?? '',
+            prefix: format.prefix,
+            reset: format.reset,
+            padding: format.padding,
+          }
+        : EMPTY_FORM
+    );
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const values = {
+      ...formData,
+      prefix: formData.prefix.trim().toUpperCase(),
+      category_id: formData.category_id || null,
+    };
+
+    const { error } = editingId
+      ? await supabase.from('ticket_number_formats').update(values).eq('id', editingId)
+      : await supabase.from('ticket_number_formats').insert([values]);
+
+    if (error) {
+      console.error('Error saving numbering format:', error);
+      alert(
+        error.code === '23505'
+          ? 'That category already has a numbering format'
+          : `Failed to save numbering format: ${error.message}`
+      );
+    } else {
+      setShowForm(false);
+      loadData();
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (format: TicketNumberFormat) => {
+    if (!confirm(`Delete the ${format.prefix} format for ${categoryName(format.category_id)}?`)) return;
+
+    const { error } = await supabase.from('ticket_number_formats').delete().eq('id', format.id);
+
+    if (error) {
+      console.error('Error deleting numbering format:', error);
+      alert('Failed to delete numbering format');
+    } else {
+      loadData();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading ticket numbering...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <Hash className="mr-2" size={24} />
+          Ticket Numbering
+        </h2>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus size={18} />
+          New Format
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        New tickets are numbered by their category's format, or the catch-all one. Existing tickets keep their
+        numbers, and categories with the same prefix share one counter.
+      </p>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">{editingId ? 'Edit Format' : 'New Format'}</h3>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={formData.category_id}
+                onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All other categories</option>
+                {activeOptions(categories, formData.category_id).map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Prefix *</label>
+              <input
+                type="text"
+                value={formData.prefix}
+                onChange={(e) => setFormData({ ...formData, prefix: e.target.value })}
+                pattern="[A-Za-z0-9]+"
+                title="Letters and digits only"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Restart numbering</label>
+              <select
+                value={formData.reset}
+                onChange={(e) => setFormData({ ...formData, reset: e.target.value as NumberReset })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {Object.entries(RESET_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Digits</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={formData.padding}
+                onChange={(e) => setFormData({ ...formData, padding: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              Looks like: <span className="font-medium text-blue-600">{exampleNumber(formData)}</span>
+            </p>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Format'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {formats.length === 0 ? (
+        <p className="text-center text-gray-500 py-4">No formats yet. Tickets are numbered SD-YYYYMMDD-0001.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Category</th>
+              <th className="py-2 font-medium">Prefix</th>
+              <th className="py-2 font-medium">Restarts</th>
+              <th className="py-2 font-medium">Example</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {sortedFormats.map((format) => (
+              <tr key={format.id}>
+                <td className="py-2 text-gray-900">{categoryName(format.category_id)}</td>
+                <td className="py-2 font-medium text-gray-900">{format.prefix}</td>
+                <td className="py-2 text-gray-700">{RESET_LABELS[format.reset]}</td>
+                <td className="py-2 text-blue-600">{exampleNumber(format)}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => openForm(format)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(format)}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { ReactNode } from 'react';
+import { TicketComment, TicketEvent, TicketEventType } from '../lib/supabase';
+import { ArrowRight, History, Lock, Mail, Workflow } from 'lucide-react';
+
+interface TicketTimelineProps {
+  comments: TicketComment[];
+  events: TicketEvent[];
+  formatDate: (dateString: string) => string;
+  // Files posted with a comment, shown under its text.
+  renderAttachments?: (comment: TicketComment) => ReactNode;
+}
+
+type TimelineItem =
+  | { kind: 'comment'; id: string; created_at: string; comment: TicketComment }
+  | { kind: 'event'; id: string; created_at: string; event: TicketEvent };
+
+const EVENT_LABELS: { [key in TicketEventType]: string } = {
+  created: 'created the ticket',
+  status_changed: 'changed status',
+  priority_changed: 'changed priority',
+  category_changed: 'changed category',
+  assignee_changed: 'changed assignee',
+};
+
+export default function TicketTimeline({ comments, events, formatDate, renderAttachments }: TicketTimelineProps) {
+  const items: TimelineItem[] = [
+    ...comments.map((comment) => ({
+      kind: 'comment' as const,
+      id: comment.id,
+      created_at: comment.created_at,
+      comment,
+    })),
+    ...events.map((event) => ({
+      kind: 'event' as const,
+      id: event.id,
+      created_at: event.created_at,
+      event,
+    })),
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  if (items.length === 0) {
+    return <p className="text-center text-gray-500 py-4">No activity yet</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map((item) =>
+        item.kind === 'comment' ? (
+          <div
+            key={`comment-${item.id}`}
+            className={
+              item.comment.is_internal
+                ? 'bg-yellow-50 border border-yellow-200 rounded-lg p-4'
+                : 'bg-gray-50 rounded-lg p-4'
+            }
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className="flex items-center gap-2">
+                <span className="font-medium text-gray-900">{item.comment.author_name}</span>
+                {item.comment.source === 'email' && (
+                  <span className="flex items-center gap-1 text-xs text-gray-500">
+                    <Mail size={10} />
+                    via email
+                  </span>
+                )}
+                {item.comment.source === 'automation' && (
+                  <span className="flex items-center gap-1 text-xs text-gray-500">
+                    <Workflow size={10} />
+                    automated
+                  </span>
+                )}
+                {item.comment.is_internal && (
+                  <span className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                    <Lock size={10} />
+                    Internal note
+                  </span>
+                )}
+              </span>
+              <span className="text-sm text-gray-500">{formatDate(item.created_at)}</span>
+            </div>
+            <p className="text-gray-700 whitespace-pre-wrap">{item.comment.comment}</p>
+            {renderAttachments?.(item.comment)}
+          </div>
+        ) : (
+          <div key={`event-${item.id}`} className="flex items-center gap-2 px-4 text-sm text-gray-600">
+            <History size={14} className="text-gray-400 shrink-0" />
+            <span className="font-medium text-gray-900">{item.event.actor_name}</span>
+            <span>{EVENT_LABELS[item.event.event_type]}</span>
+            {item.event.event_type !== 'created' && (
+              <span className="flex items-center gap-1">
+                <span className="font-medium text-gray-700">{item.event.old_value ?? 'None'}</span>
+                <ArrowRight size={12} className="text-gray-400" />
+                <span className="font-medium text-gray-700">{item.event.new_value ?? 'None'}</span>
+              </span>
+            )}
+            <span className="ml-auto text-gray-500">{formatDate(item.created_at)}</span>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+import { useState, useEffect, Fragment } from 'react';
+import { supabase, Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '../lib/supabase';
+import { Webhook as WebhookIcon, Plus, Trash2, Pencil, X, Send, RefreshCw, Eye, EyeOff } from 'lucide-react';
+
+type WebhookForm = {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  is_active: boolean;
+};
+
+const EVENT_LABELS: { [key in WebhookEvent]: string } = {
+  'ticket.created': 'Ticket created',
+  'ticket.status_changed': 'Status changed',
+  'ticket.assigned': 'Assignee changed',
+  'comment.created': 'Comment added',
+};
+
+const STATUS_STYLES: { [key in WebhookDeliveryStatus]: string } = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const EMPTY_FORM: WebhookForm = {
+  name: '',
+  url: '',
+  events: ['ticket.created'],
+  is_active: true,
+};
+
+const LOG_LIMIT = 50;
+
+const newSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export default function WebhookAdmin() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<WebhookForm>(EMPTY_FORM);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    const [webhooksRes, deliveriesRes] = await Promise.all([
+      supabase.from('webhooks').select('*').order('created_at'),
+      supabase.from('webhook_deliveries').select('*').order('created_at', { ascending: false }).limit(LOG_LIMIT),
+    ]);
+
+    if (webhooksRes.data) setWebhooks(webhooksRes.data);
+    if (deliveriesRes.data) setDeliveries(deliveriesRes.data);
+    setLoading(false);
+  };
+
+  const webhookName = (webhookId: string) => webhooks.find((hook) => hook.id === webhookId)?.name ?? 'Removed webhook';
+
+  const openForm = (webhook?: Webhook) => {
+    setEditingId(webhook?.id ?? null);
+    setFormData(
+      webhook
+        ? { name: webhook.name, url: webhook.url, events: webhook.events, is_active: webhook.is_active }
+        : EMPTY_FORM
+    );
+    setShowForm(true);
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setFormData({
+      ...formData,
+      events: formData.events.includes(event)
+        ? formData.events.filter((item) => item !== event)
+        : [...formData.events, event],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.events.length === 0) {
+      alert('Pick at least one event');
+      return;
+    }
+    setSaving(true);
+
+    const values = { ...formData, name: formData.name.trim(), url: formData.url.trim() };
+    const { error } = editingId
+      ? await supabase.from('webhooks').update(values).eq('id', editingId)
+      : await supabase.from('webhooks').insert([values]);
+
+    if (error) {
+      console.error('Error saving webhook:', error);
+      alert('Failed to save webhook');
+    } else {
+      setShowForm(false);
+      loadData();
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook "${webhook.name}" and its delivery log?`)) return;
+
+    const { error } = await supabase.from('webhooks').delete().eq('id', webhook.id);
+
+    if (error) {
+      console.error('Error deleting webhook:', error);
+      alert('Failed to delete webhook');
+    } else {
+      loadData();
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    if (!confirm(`Replace the signing secret for "${webhook.name}"? The receiver must be updated with the new one.`)) {
+      return;
+    }
+
+    const { error } = await supabase.from('webhooks').update({ secret: newSecret() }).eq('id', webhook.id);
+
+    if (error) {
+      console.error('Error rotating webhook secret:', error);
+      alert('Failed to rotate webhook secret');
+    } else {
+      setRevealedId(webhook.id);
+      loadData();
+    }
+  };
+
+  // Queues a ping and sends it straight away rather than waiting for the
+  // scheduled run, so the outcome is in the log when this returns.
+  const handleTest = async (webhook: Webhook) => {
+    setTestingId(webhook.id);
+
+    const { error } = await supabase.rpc('send_test_webhook', { p_webhook_id: webhook.id });
+    if (error) {
+      console.error('Error sending test event:', error);
+      alert('Failed to send test event');
+    } else {
+      const { error: invokeError } = await supabase.functions.invoke('deliver-webhooks');
+      if (invokeError) {
+        console.error('Error delivering test event:', invokeError);
+        alert('Test event queued; it will go out with the next scheduled delivery');
+      }
+      loadData();
+    }
+    setTestingId(null);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).format(date);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading webhooks...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <WebhookIcon className="mr-2" size={24} />
+            Webhooks
+          </h2>
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={18} />
+            New Webhook
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Events are POSTed as JSON with an <code>X-Webhook-Signature</code> header: the HMAC-SHA256 of the{' '}
+          <code>X-Webhook-Timestamp</code>, a dot and the body, keyed with the webhook's secret. Failed deliveries are
+          retried with growing delays.
+        </p>
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">{editingId ? 'Edit Webhook' : 'New Webhook'}</h3>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Chat alerts"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">URL *</label>
+                <input
+                  type="url"
+                  value={formData.url}
+                  onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                  pattern="https?://.+"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="https://example.com/hooks/service-desk"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Events</label>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(EVENT_LABELS) as WebhookEvent[]).map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.events.includes(event)}
+                      onChange={() => toggleEvent(event)}
+                    />
+                    {EVENT_LABELS[event]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.is_active}
+                onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Webhook'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {webhooks.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No webhooks yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">Name</th>
+                <th className="py-2 font-medium">Events</th>
+                <th className="py-2 font-medium">Secret</th>
+                <th className="py-2 font-medium">Active</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {webhooks.map((webhook) => (
+                <tr key={webhook.id}>
+                  <td className="py-2">
+                    <div className="font-medium text-gray-900">{webhook.name}</div>
+                    <div className="text-xs text-gray-500 break-all">{webhook.url}</div>
+                  </td>
+                  <td className="py-2 text-gray-700">
+                    {webhook.events.map((event) => EVENT_LABELS[event]).join(', ')}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex items-center gap-1">
+                      <code className="text-xs text-gray-700">
+                        {revealedId === webhook.id ? webhook.secret : '••••••••'}
+                      </code>
+                      <button
+                        onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title={revealedId === webhook.id ? 'Hide secret' : 'Show secret'}
+                      >
+                        {revealedId === webhook.id ? <EyeOff size={14} /> : <Eye size={14} />}
+                      </button>
+                      <button
+                        onClick={() => handleRotateSecret(webhook)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Rotate secret"
+                      >
+                        <RefreshCw size={14} />
+                      </button>
+                    </div>
+                  </td>
+                  <td className="py-2 text-gray-700">{webhook.is_active ? 'Yes' : 'No'}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleTest(webhook)}
+                      disabled={testingId === webhook.id}
+                      className="p-1 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+                      title="Send test event"
+                    >
+                      <Send size={16} />
+                    </button>
+                    <button
+                      onClick={() => openForm(webhook)}
+                      className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                      title="Edit"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(webhook)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Recent Deliveries</h3>
+          <button
+            onClick={loadData}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <RefreshCw size={14} />
+            Refresh
+          </button>
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No deliveries yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">When</th>
+                <th className="py-2 font-medium">Webhook</th>
+                <th className="py-2 font-medium">Event</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 font-medium">Attempts</th>
+                <th className="py-2 font-medium">Response</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {deliveries.map((delivery) => (
+                <Fragment key={delivery.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="py-2 text-gray-500 whitespace-nowrap">{formatDate(delivery.created_at)}</td>
+                    <td className="py-2 text-gray-900">{webhookName(delivery.webhook_id)}</td>
+                    <td className="py-2 font-mono text-xs text-gray-700">{delivery.event}</td>
+                    <td className="py-2">
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[delivery.status]}`}>
+                        {delivery.status}
+                      </span>
+                    </td>
+                    <td className="py-2 text-gray-700">
+                      {delivery.attempts}
+                      {delivery.status === 'pending' && delivery.attempts > 0 && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          (next {formatDate(delivery.next_attempt_at)})
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-gray-600">
+                      {delivery.last_error ?? delivery.response_status ?? ''}
+                    </td>
+                  </tr>
+                  {expandedId === delivery.id && (
+                    <tr>
+                      <td colSpan={6} className="pb-3">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <div>
+                            <div className="text-xs font-medium text-gray-500 mb-1">Payload</div>
+                            <pre className="text-xs bg-gray-50 rounded p-2 overflow-auto max-h-64">
+                              {JSON.stringify(delivery.payload, null, 2)}
+                            </pre>
+                          </div>
+                          <div>
+                            <div className="text-xs font-medium text-gray-500 mb-1">Response</div>
+                            <pre className="text-xs bg-gray-50 rounded p-2 overflow-auto max-h-64 whitespace-pre-wrap">
+                              {delivery.response_body || 'No response body'}
+                            </pre>
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { supabase, Status, StatusTransition } from '../lib/supabase';
+import { useLookupChanges } from '../lib/realtime';
+import { findTransition } from '../lib/tickets';
+import { GitBranch } from 'lucide-react';
+
+type Rule = '' | 'allowed' | 'comment' | 'assignee' | 'both';
+
+const RULE_LABELS: Record<Rule, string> = {
+  '': '—',
+  allowed: 'Allowed',
+  comment: 'Needs note',
+  assignee: 'Needs assignee',
+  both: 'Needs note and assignee',
+};
+
+const ruleOf = (transition?: StatusTransition): Rule => {
+  if (!transition) return '';
+  if (transition.requires_comment && transition.requires_assignee) return 'both';
+  if (transition.requires_comment) return 'comment';
+  if (transition.requires_assignee) return 'assignee';
+  return 'allowed';
+};
+
+export default function WorkflowAdmin() {
+  const [statuses, setStatuses] = useState<Status[]>([]);
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'statuses' || table === 'status_transitions') loadData();
+  });
+
+  const loadData = async () => {
+    const [statusesRes, transitionsRes] = await Promise.all([
+      supabase.from('statuses').select('*').eq('is_archived', false).order('order'),
+      supabase.from('status_transitions').select('*'),
+    ]);
+
+    if (statusesRes.data) setStatuses(statusesRes.data);
+    if (transitionsRes.data) setTransitions(transitionsRes.data);
+    setLoading(false);
+  };
+
+  const handleChange = async (from: Status, to: Status, rule: Rule) => {
+    const { error } =
+      rule === ''
+        ? await supabase
+            .from('status_transitions')
+            .delete()
+            .eq('from_status_id', from.id)
+            .eq('to_status_id', to.id)
+        : await supabase.from('status_transitions').upsert(
+            {
+              from_status_id: from.id,
+              to_status_id: to.id,
+              requires_comment: rule === 'comment' || rule === 'both',
+              requires_assignee: rule === 'assignee' || rule === 'both',
+            },
+            { onConflict: 'from_status_id,to_status_id' }
+          );
+
+    if (error) {
+      console.error('Error updating workflow:', error);
+      alert('Failed to update workflow');
+    } else {
+      loadData();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading workflow...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-900 flex items-center mb-4">
+        <GitBranch className="mr-2" size={24} />
+        Status Workflow
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Each row is the status a ticket is in, each column a status it can move to. Moves marked — are refused,
+        wherever the change comes from.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4 font-medium">From \ To</th>
+              {statuses.map((to) => (
+                <th key={to.id} className="py-2 px-2 font-medium whitespace-nowrap">
+                  {to.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {statuses.map((from) => (
+              <tr key={from.id}>
+                <td className="py-2 pr-4 font-medium text-gray-900 whitespace-nowrap">
+                  <span className="flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: from.color }} />
+                    {from.name}
+                  </span>
+                </td>
+                {statuses.map((to) => {
+                  if (from.id === to.id) {
+                    return <td key={to.id} className="py-2 px-2 bg-gray-50" />;
+                  }
+                  const rule = ruleOf(findTransition(transitions, from.id, to.id));
+                  return (
+                    <td key={to.id} className="py-2 px-2">
+                      <select
+                        value={rule}
+                        onChange={(e) => handleChange(from, to, e.target.value as Rule)}
+                        className={`px-2 py-1 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                          rule ? 'border-blue-300 text-gray-900' : 'border-gray-200 text-gray-400'
+                        }`}
+                      >
+                        {(Object.keys(RULE_LABELS) as Rule[]).map((value) => (
+                          <option key={value} value={value}>
+                            {RULE_LABELS[value]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
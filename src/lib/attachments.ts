@@ -0,0 +1,134 @@
+import { supabase, Attachment } from './supabase';
+
+const BUCKET = 'attachments';
+
+// Matches the bucket's limits; checking here just gives a clearer message
+// than the storage error would.
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// Browsers report no type for some text files, logs in particular.
+const FALLBACK_TYPES: { [extension: string]: string } = {
+  log: 'text/plain',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// Signed links are short-lived; a visible attachment gets a fresh one when
+// the ticket is opened again.
+const URL_EXPIRY_SECONDS = 60 * 60;
+
+export const attachmentType = (file: File) => {
+  if (file.type) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return FALLBACK_TYPES[extension] ?? 'application/octet-stream';
+};
+
+export const isImage = (attachment: Attachment) => attachment.content_type.startsWith('image/');
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function attachmentProblem(file: File) {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(attachmentType(file))) {
+    return `${file.name} isn't a supported file type`;
+  }
+  return null;
+}
+
+// Uploads the files into the ticket's folder and records them. A file whose
+// row can't be written is removed again, so the bucket doesn't collect
+// orphans the user can't see.
+export async function uploadAttachments(files: File[], ticketId: string, commentId: string | null = null) {
+  const uploaded: Attachment[] = [];
+
+  for (const file of files) {
+    const id = crypto.randomUUID();
+    // Storage keys only take a safe subset of characters; the real name is
+    // kept in the row.
+    const storagePath = `${ticketId}/${id}/${file.name.replace(/[^\w.-]+/g, '_')}`;
+    const contentType = attachmentType(file);
+
+    const upload = await supabase.storage.from(BUCKET).upload(storagePath, file, { contentType });
+    if (upload.error) throw new Error(`${file.name}: ${upload.error.message}`);
+
+    const { data, error } = await supabase
+      .from('attachments')
+      .insert([
+        {
+          id,
+          ticket_id: ticketId,
+          comment_id: commentId,
+          storage_path: storagePath,
+          file_name: file.name,
+          content_type: contentType,
+          size_bytes: file.size,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      await supabase.storage.from(BUCKET).remove([storagePath]);
+      throw new Error(`${file.name}: ${error.message}`);
+    }
+    uploaded.push(data);
+  }
+
+  return uploaded;
+}
+
+// Signed URLs for showing and downloading files, keyed by attachment id.
+export async function attachmentUrls(attachments: Attachment[]) {
+  if (attachments.length === 0) return {};
+
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(
+    attachments.map((attachment) => attachment.storage_path),
+    URL_EXPIRY_SECONDS
+  );
+
+  if (error) {
+    console.error('Error signing attachment links:', error);
+    return {};
+  }
+
+  const urls: { [id: string]: string } = {};
+  attachments.forEach((attachment) => {
+    const signed = data.find((item) => item.path === attachment.storage_path);
+    if (signed?.signedUrl) urls[attachment.id] = signed.signedUrl;
+  });
+  return urls;
+}
+
+export async function deleteAttachment(attachment: Attachment) {
+  const { error } = await supabase.from('attachments').delete().eq('id', attachment.id);
+  if (error) throw new Error(error.message);
+  await supabase.storage.from(BUCKET).remove([attachment.storage_path]);
+}
+
+// Storage serves the file as a download, under its original name, when the
+// signed link asks for it.
+export const downloadUrl = (url: string, fileName: string) => `${url}&download=${encodeURIComponent(fileName)}`;
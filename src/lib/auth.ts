@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase, Profile } from './supabase';
+
+export type AuthState = {
+  session: Session | null;
+  profile: Profile | null;
+  loading: boolean;
+};
+
+const listeners = new Set<(state: AuthState) => void>();
+
+let state: AuthState = { session: null, profile: null, loading: true };
+let initialized = false;
+
+const setState = (next: AuthState) => {
+  state = next;
+  listeners.forEach((listener) => listener(next));
+};
+
+const loadProfile = async (session: Session | null) => {
+  if (!session) {
+    setState({ session: null, profile: null, loading: false });
+    return;
+  }
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', session.user.id)
+    .maybeSingle();
+
+  if (error) console.error('Error loading profile:', error);
+  setState({ session, profile: data, loading: false });
+};
+
+const initialize = () => {
+  if (initialized) return;
+  initialized = true;
+
+  supabase.auth.getSession().then(({ data }) => loadProfile(data.session));
+
+  supabase.auth.onAuthStateChange((event, session) => {
+    if (event === 'INITIAL_SESSION') return;
+    if (event === 'TOKEN_REFRESHED' && state.profile?.id === session?.user.id) {
+      setState({ ...state, session });
+      return;
+    }
+    // Defer the query so it doesn't run inside the auth client's lock.
+    setTimeout(() => loadProfile(session), 0);
+  });
+};
+
+export function useAuth() {
+  const [current, setCurrent] = useState<AuthState>(state);
+
+  useEffect(() => {
+    initialize();
+    setCurrent(state);
+    listeners.add(setCurrent);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+}
+
+export function isAgent(profile: Profile | null) {
+  return profile?.role === 'agent' || profile?.role === 'admin';
+}
+
+export function isAdmin(profile: Profile | null) {
+  return profile?.role === 'admin';
+}
+
+export async function signIn(email: string, password: string) {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+}
+
+export async function signUp(fullName: string, email: string, password: string) {
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { data: { full_name: fullName } },
+  });
+  if (error) throw error;
+  return data.session !== null;
+}
+
+export async function signOut() {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+}
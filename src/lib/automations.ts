@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import {
+  supabase,
+  AutomationAction,
+  AutomationChange,
+  AutomationCondition,
+  AutomationRule,
+  AutomationTestResult,
+  AutomationTrigger,
+} from './supabase';
+import { useLookupChanges } from './realtime';
+import { describeChange } from './macros';
+
+export const TRIGGER_LABELS: { [key in AutomationTrigger]: string } = {
+  ticket_created: 'Ticket created',
+  ticket_updated: 'Ticket updated',
+  comment_added: 'Comment added',
+  time: 'Time passed',
+};
+
+// Condition fields other than custom fields, in the order the editor lists
+// them. Keep in step with automation_ticket_facts().
+export const CONDITION_FIELDS = [
+  { value: 'category', label: 'Category' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'status', label: 'Status' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'source', label: 'Source' },
+  { value: 'title', label: 'Title' },
+  { value: 'description', label: 'Description' },
+  { value: 'requester_email', label: 'Requester email' },
+  { value: 'comment', label: 'Comment text' },
+  { value: 'comment_by', label: 'Comment by' },
+  { value: 'hours_open', label: 'Hours since filed' },
+  { value: 'hours_in_status', label: 'Hours in current status' },
+  { value: 'hours_since_requester_reply', label: 'Hours since requester replied' },
+];
+
+export const isHoursField = (field: string) => field.startsWith('hours_');
+
+// Mirrors the checks validate_automation_definition() makes that the editor
+// can't rule out by construction.
+export function ruleProblem(trigger: AutomationTrigger, conditions: AutomationCondition[], actions: AutomationAction[]) {
+  for (const condition of conditions) {
+    const numeric = condition.operator === 'at_least' || condition.operator === 'at_most';
+    if (isHoursField(condition.field) && !/^\d+(\.\d+)?$/.test(condition.value)) {
+      return 'Hours conditions need a number of hours';
+    }
+    if (numeric && !/^-?\d+(\.\d+)?$/.test(condition.value)) {
+      return 'At least and at most need a number';
+    }
+  }
+  if (trigger === 'time' && !conditions.some((condition) => isHoursField(condition.field))) {
+    return 'A time-based rule needs an hours condition';
+  }
+  if (actions.length === 0) return 'A rule needs at least one action';
+
+  for (const action of actions) {
+    if ((action.type === 'set_status' || action.type === 'set_priority' || action.type === 'set_category') && !action.value) {
+      return 'Choose a value for each change';
+    }
+    if (action.type === 'add_comment' && !action.comment.trim()) return 'A comment action needs the comment text';
+    if (action.type === 'notify' && (!action.subject.trim() || !action.body.trim())) {
+      return 'A notification needs a subject and a body';
+    }
+  }
+  return null;
+}
+
+export function useAutomationRules() {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+
+  const loadRules = async () => {
+    const { data } = await supabase.from('automation_rules').select('*').order('position').order('created_at');
+    if (data) setRules(data);
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'automation_rules') loadRules();
+  });
+
+  return rules;
+}
+
+// Like a macro preview, the dry run makes every change and rolls it back, so
+// it fails where a real run would.
+export async function testAutomationRule(
+  trigger: AutomationTrigger,
+  conditions: AutomationCondition[],
+  actions: AutomationAction[]
+) {
+  const { data, error } = await supabase.rpc('test_automation_rule', {
+    p_trigger_event: trigger,
+    p_conditions: conditions,
+    p_actions: actions,
+  });
+  if (error) throw error;
+  return (data as AutomationTestResult[] | null) || [];
+}
+
+export function describeAutomationChange(change: AutomationChange) {
+  if (change.field === 'notification') return `Email to ${change.to}: ${change.subject}`;
+  return describeChange(change);
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { supabase, CustomField, CustomFieldValue, CustomFieldValues } from './supabase';
+import { useLookupChanges } from './realtime';
+
+export function useCustomFields() {
+  const [fields, setFields] = useState<CustomField[]>([]);
+
+  const loadFields = async () => {
+    const { data } = await supabase.from('custom_fields').select('*').order('position');
+    if (data) setFields(data);
+  };
+
+  useEffect(() => {
+    loadFields();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'custom_fields') loadFields();
+  });
+
+  return fields;
+}
+
+export const fieldsForCategory = (fields: CustomField[], categoryId: string) =>
+  fields.filter((field) => field.category_id === categoryId);
+
+const isEmpty = (value: CustomFieldValue | undefined) => value === undefined || value === '';
+
+// Mirrors validate_custom_fields(), so the form can name the problem before
+// the database turns the ticket down.
+export function customFieldProblem(field: CustomField, value: CustomFieldValue | undefined) {
+  if (field.is_required && (isEmpty(value) || value === false)) return `${field.label} is required`;
+  if (isEmpty(value)) return null;
+
+  if (field.field_type === 'number') {
+    if (typeof value !== 'number' || Number.isNaN(value)) return `${field.label} must be a number`;
+    if (field.min_value !== null && value < field.min_value) return `${field.label} must be at least ${field.min_value}`;
+    if (field.max_value !== null && value > field.max_value) return `${field.label} must be at most ${field.max_value}`;
+  }
+  if (field.field_type === 'select' && !field.options.includes(String(value))) {
+    return `${field.label} must be one of: ${field.options.join(', ')}`;
+  }
+  return null;
+}
+
+export function customFieldProblems(fields: CustomField[], values: CustomFieldValues) {
+  return fields
+    .map((field) => customFieldProblem(field, values[field.key]))
+    .filter((problem): problem is string => problem !== null);
+}
+
+export function formatCustomValue(field: CustomField, value: CustomFieldValue | undefined) {
+  if (field.field_type === 'checkbox') return value ? 'Yes' : 'No';
+  if (isEmpty(value)) return '';
+  if (field.field_type === 'date') {
+    return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeZone: 'UTC' }).format(
+      new Date(`${value}T00:00:00Z`)
+    );
+  }
+  return String(value);
+}
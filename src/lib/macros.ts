@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { supabase, Macro, MacroChange, MacroResult } from './supabase';
+import { useLookupChanges } from './realtime';
+
+// Keeps each request comfortably inside PostgREST's body limits, as the bulk
+// actions do.
+const BATCH_SIZE = 500;
+
+export function useMacros() {
+  const [macros, setMacros] = useState<Macro[]>([]);
+
+  const loadMacros = async () => {
+    const { data } = await supabase.from('macros').select('*').order('position').order('name');
+    if (data) setMacros(data);
+  };
+
+  useEffect(() => {
+    loadMacros();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'macros') loadMacros();
+  });
+
+  return macros;
+}
+
+// A dry run makes every change and rolls it back, so the preview fails for
+// the same reasons the real run would.
+export async function runMacro(
+  macroId: string,
+  ticketIds: string[],
+  dryRun: boolean,
+  onProgress?: (done: number, total: number) => void
+) {
+  const results: MacroResult[] = [];
+
+  for (let start = 0; start < ticketIds.length; start += BATCH_SIZE) {
+    const batch = ticketIds.slice(start, start + BATCH_SIZE);
+    const { data, error } = await supabase.rpc('apply_macro', {
+      p_macro_id: macroId,
+      p_ticket_ids: batch,
+      p_dry_run: dryRun,
+    });
+
+    if (error) {
+      console.error('Error running macro:', error);
+      batch.forEach((id) =>
+        results.push({ ticket_id: id, ticket_number: null, success: false, error: error.message, changes: [] })
+      );
+    } else {
+      results.push(...((data as MacroResult[] | null) || []));
+    }
+    onProgress?.(Math.min(start + batch.length, ticketIds.length), ticketIds.length);
+  }
+
+  return results;
+}
+
+const FIELD_LABELS: { [key in MacroChange['field']]: string } = {
+  status: 'Status',
+  priority: 'Priority',
+  category: 'Category',
+  assignee: 'Assignee',
+  comment: 'Comment',
+};
+
+export function describeChange(change: MacroChange) {
+  if (change.field === 'comment') {
+    return `${change.is_internal ? 'Internal note' : 'Public reply'}: ${change.to}`;
+  }
+  const name = (value: string | null | undefined) => value ?? (change.field === 'assignee' ? 'Unassigned' : '—');
+  return `${FIELD_LABELS[change.field]}: ${name(change.from)} → ${name(change.to)}`;
+}
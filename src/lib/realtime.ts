@@ -0,0 +1,352 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Attachment, Ticket, TicketComment, TicketWithRelations } from './supabase';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+export type TicketChange =
+  | { type: 'INSERT' | 'UPDATE'; ticket: TicketWithRelations }
+  | { type: 'DELETE'; id: string };
+
+export type CommentChange =
+  | { type: 'INSERT' | 'UPDATE'; comment: TicketComment }
+  | { type: 'DELETE'; id: string };
+
+export type LookupTable =
+  | 'categories'
+  | 'priorities'
+  | 'statuses'
+  | 'status_transitions'
+  | 'custom_fields'
+  | 'canned_responses'
+  | 'ticket_templates'
+  | 'macros'
+  | 'automation_rules';
+
+type Listener<T> = (value: T) => void;
+
+const CHANNEL_NAME = 'service-desk-changes';
+const LOOKUP_TABLES: LookupTable[] = [
+  'categories',
+  'priorities',
+  'statuses',
+  'status_transitions',
+  'custom_fields',
+  'canned_responses',
+  'ticket_templates',
+  'macros',
+  'automation_rules',
+];
+const MAX_RETRY_DELAY = 30000;
+
+const ticketListeners = new Set<Listener<TicketChange>>();
+const commentListeners = new Set<Listener<CommentChange>>();
+const lookupListeners = new Set<Listener<LookupTable>>();
+const attachmentListeners = new Set<Listener<string | undefined>>();
+const resyncListeners = new Set<() => void>();
+const statusListeners = new Set<Listener<ConnectionStatus>>();
+
+let channel: RealtimeChannel | null = null;
+let status: ConnectionStatus = 'offline';
+let subscribers = 0;
+let retryAttempt = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let hasConnected = false;
+let queue: Promise<void> = Promise.resolve();
+
+const setStatus = (next: ConnectionStatus) => {
+  status = next;
+  statusListeners.forEach((listener) => listener(next));
+};
+
+// Change payloads carry only the raw row, so the joined lookups are fetched
+// once here and every view receives the same hydrated ticket.
+const fetchTicket = async (id: string) => {
+  const { data, error } = await supabase
+    .from('tickets')
+    .select(`
+      *,
+      categories (*),
+      priorities (*),
+      statuses (*),
+      agents (*)
+    `)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading ticket change:', error);
+    return null;
+  }
+  return data as TicketWithRelations | null;
+};
+
+const handleTicketPayload = async (payload: RealtimePostgresChangesPayload<Ticket>) => {
+  if (payload.eventType === 'DELETE') {
+    const id = payload.old.id;
+    if (id) ticketListeners.forEach((listener) => listener({ type: 'DELETE', id }));
+    return;
+  }
+
+  const ticket = await fetchTicket(payload.new.id);
+  if (!ticket) return;
+  ticketListeners.forEach((listener) => listener({ type: payload.eventType, ticket }));
+};
+
+const handleCommentPayload = (payload: RealtimePostgresChangesPayload<TicketComment>) => {
+  // Realtime sends only the primary key of a deleted row from a table with
+  // RLS, so deletes go to every open ticket and each drops the id if it has it.
+  if (payload.eventType === 'DELETE') {
+    const { id } = payload.old;
+    if (id) commentListeners.forEach((listener) => listener({ type: 'DELETE', id }));
+    return;
+  }
+
+  const comment = payload.new;
+  commentListeners.forEach((listener) => listener({ type: payload.eventType, comment }));
+};
+
+// Payloads are processed one at a time so a slow hydration fetch can't let
+// an older UPDATE overwrite a newer one.
+const enqueue = (task: () => void | Promise<void>) => {
+  queue = queue.then(task).catch((error) => console.error('Error applying realtime change:', error));
+};
+
+const scheduleReconnect = () => {
+  if (retryTimer || subscribers === 0) return;
+
+  const delay = Math.min(1000 * 2 ** retryAttempt, MAX_RETRY_DELAY);
+  retryAttempt += 1;
+  setStatus(navigator.onLine ? 'reconnecting' : 'offline');
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    openChannel();
+  }, delay);
+};
+
+const closeChannel = () => {
+  if (!channel) return;
+  const current = channel;
+  channel = null;
+  supabase.removeChannel(current);
+};
+
+function openChannel() {
+  closeChannel();
+  if (status !== 'reconnecting') setStatus('connecting');
+
+  const current = supabase
+    .channel(CHANNEL_NAME)
+    .on<Ticket>('postgres_changes', { event: '*', schema: 'public', table: 'tickets' }, (payload) =>
+      enqueue(() => handleTicketPayload(payload))
+    )
+    .on<TicketComment>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'ticket_comments' },
+      (payload) => enqueue(() => handleCommentPayload(payload))
+    );
+
+  // Attachment rows never change after upload, so listeners just reload the
+  // ticket's files. Deletes only carry the id, so they reach every ticket.
+  current.on<Attachment>('postgres_changes', { event: '*', schema: 'public', table: 'attachments' }, (payload) =>
+    enqueue(() => {
+      const ticketId = payload.eventType === 'DELETE' ? payload.old.ticket_id : payload.new.ticket_id;
+      attachmentListeners.forEach((listener) => listener(ticketId));
+    })
+  );
+
+  // Lookup edits are rare; listeners just reload the table that changed.
+  LOOKUP_TABLES.forEach((table) => {
+    current.on('postgres_changes', { event: '*', schema: 'public', table }, () =>
+      enqueue(() => lookupListeners.forEach((listener) => listener(table)))
+    );
+  });
+
+  channel = current;
+
+  current.subscribe((state, err) => {
+    // Ignore callbacks from a channel we've already replaced or torn down.
+    if (channel !== current) return;
+
+    if (state === 'SUBSCRIBED') {
+      retryAttempt = 0;
+      setStatus('connected');
+      // Anything that changed while we were disconnected never reached us,
+      // so views reload from scratch once after every reconnect.
+      if (hasConnected) resyncListeners.forEach((listener) => listener());
+      hasConnected = true;
+      return;
+    }
+
+    if (err) console.error(`Realtime channel ${state.toLowerCase()}:`, err);
+    closeChannel();
+    scheduleReconnect();
+  });
+}
+
+const handleOnline = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  retryAttempt = 0;
+  openChannel();
+};
+
+const handleOffline = () => setStatus('offline');
+
+const retain = () => {
+  subscribers += 1;
+  if (subscribers > 1) return;
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  openChannel();
+};
+
+const release = () => {
+  subscribers -= 1;
+  if (subscribers > 0) return;
+
+  window.removeEventListener('online', handleOnline);
+  window.removeEventListener('offline', handleOffline);
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  retryAttempt = 0;
+  hasConnected = false;
+  closeChannel();
+  setStatus('offline');
+};
+
+const useLatest = <T>(value: T) => {
+  const ref = useRef(value);
+  useEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+};
+
+export function useTicketChanges(onChange: Listener<TicketChange>, onResync?: () => void) {
+  const onChangeRef = useLatest(onChange);
+  const onResyncRef = useLatest(onResync);
+
+  useEffect(() => {
+    const changeListener: Listener<TicketChange> = (change) => onChangeRef.current(change);
+    const resyncListener = () => onResyncRef.current?.();
+
+    ticketListeners.add(changeListener);
+    resyncListeners.add(resyncListener);
+    retain();
+
+    return () => {
+      ticketListeners.delete(changeListener);
+      resyncListeners.delete(resyncListener);
+      release();
+    };
+  }, [onChangeRef, onResyncRef]);
+}
+
+export function useCommentChanges(
+  ticketId: string,
+  onChange: Listener<CommentChange>,
+  onResync?: () => void
+) {
+  const onChangeRef = useLatest(onChange);
+  const onResyncRef = useLatest(onResync);
+
+  useEffect(() => {
+    const changeListener: Listener<CommentChange> = (change) => {
+      if (change.type === 'DELETE' || change.comment.ticket_id === ticketId) onChangeRef.current(change);
+    };
+    const resyncListener = () => onResyncRef.current?.();
+
+    commentListeners.add(changeListener);
+    resyncListeners.add(resyncListener);
+    retain();
+
+    return () => {
+      commentListeners.delete(changeListener);
+      resyncListeners.delete(resyncListener);
+      release();
+    };
+  }, [ticketId, onChangeRef, onResyncRef]);
+}
+
+export function useAttachmentChanges(ticketId: string, onChange: () => void) {
+  const onChangeRef = useLatest(onChange);
+
+  useEffect(() => {
+    const changeListener: Listener<string | undefined> = (changedTicketId) => {
+      if (changedTicketId === undefined || changedTicketId === ticketId) onChangeRef.current();
+    };
+    const resyncListener = () => onChangeRef.current();
+
+    attachmentListeners.add(changeListener);
+    resyncListeners.add(resyncListener);
+    retain();
+
+    return () => {
+      attachmentListeners.delete(changeListener);
+      resyncListeners.delete(resyncListener);
+      release();
+    };
+  }, [ticketId, onChangeRef]);
+}
+
+// Fires when categories, priorities or statuses are edited, and after a
+// reconnect in case an edit was missed.
+export function useLookupChanges(onChange: Listener<LookupTable>) {
+  const onChangeRef = useLatest(onChange);
+
+  useEffect(() => {
+    const changeListener: Listener<LookupTable> = (table) => onChangeRef.current(table);
+    const resyncListener = () => LOOKUP_TABLES.forEach((table) => onChangeRef.current(table));
+
+    lookupListeners.add(changeListener);
+    resyncListeners.add(resyncListener);
+    retain();
+
+    return () => {
+      lookupListeners.delete(changeListener);
+      resyncListeners.delete(resyncListener);
+      release();
+    };
+  }, [onChangeRef]);
+}
+
+export function useConnectionStatus() {
+  const [current, setCurrent] = useState<ConnectionStatus>(status);
+
+  useEffect(() => {
+    setCurrent(status);
+    statusListeners.add(setCurrent);
+    return () => {
+      statusListeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+}
+
+export function applyTicketChange(tickets: TicketWithRelations[], change: TicketChange) {
+  if (change.type === 'DELETE') {
+    return tickets.filter((ticket) => ticket.id !== change.id);
+  }
+
+  const exists = tickets.some((ticket) => ticket.id === change.ticket.id);
+  if (!exists) return [change.ticket, ...tickets];
+  return tickets.map((ticket) => (ticket.id === change.ticket.id ? change.ticket : ticket));
+}
+
+export function applyCommentChange(comments: TicketComment[], change: CommentChange) {
+  if (change.type === 'DELETE') {
+    return comments.filter((comment) => comment.id !== change.id);
+  }
+
+  const exists = comments.some((comment) => comment.id === change.comment.id);
+  if (!exists) return [...comments, change.comment];
+  return comments.map((comment) => (comment.id === change.comment.id ? change.comment : comment));
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'dashboard' }
+  | { name: 'tickets' }
+  | { name: 'ticket'; ticketNumber: string }
+  | { name: 'board'; ticketNumber?: string }
+  | { name: 'reports' }
+  | { name: 'admin' }
+  | { name: 'not_found' };
+
+export type Location = {
+  pathname: string;
+  search: string;
+};
+
+type NavigateOptions = { replace?: boolean };
+
+// Each entry we push records its position so we can tell whether "back"
+// would stay inside the app or leave it.
+type HistoryState = { index: number } | null;
+
+const listeners = new Set<(location: Location) => void>();
+
+let location: Location = readLocation();
+
+function readLocation(): Location {
+  return { pathname: window.location.pathname, search: window.location.search };
+}
+
+const currentIndex = () => (window.history.state as HistoryState)?.index ?? 0;
+
+const notify = () => {
+  location = readLocation();
+  listeners.forEach((listener) => listener(location));
+};
+
+window.addEventListener('popstate', notify);
+
+export function navigate(to: string, { replace = false }: NavigateOptions = {}) {
+  const target = new URL(to, window.location.href);
+  if (target.pathname === location.pathname && target.search === location.search) return;
+
+  if (replace) {
+    window.history.replaceState({ index: currentIndex() }, '', target);
+  } else {
+    window.history.pushState({ index: currentIndex() + 1 }, '', target);
+  }
+  notify();
+}
+
+// Used when closing something that was opened by navigating to it: a deep
+// link opened in a fresh tab has nothing in the app to go back to.
+export function goBack(fallback: string) {
+  if (currentIndex() > 0) {
+    window.history.back();
+  } else {
+    navigate(fallback, { replace: true });
+  }
+}
+
+export function useLocation() {
+  const [current, setCurrent] = useState<Location>(location);
+
+  useEffect(() => {
+    setCurrent(location);
+    listeners.add(setCurrent);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+}
+
+export function matchRoute(pathname: string): Route {
+  const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (segments.length === 0) return { name: 'home' };
+  const [section, id, ...rest] = segments;
+  if (rest.length > 0) return { name: 'not_found' };
+
+  switch (section) {
+    case 'dashboard':
+    case 'reports':
+    case 'admin':
+      return id ? { name: 'not_found' } : { name: section };
+    case 'tickets':
+      return id ? { name: 'ticket', ticketNumber: id } : { name: 'tickets' };
+    case 'board':
+      return { name: 'board', ticketNumber: id };
+    default:
+      return { name: 'not_found' };
+  }
+}
+
+export function ticketPath(ticketNumber: string, search = '', base = '/tickets') {
+  return `${base}/${encodeURIComponent(ticketNumber)}${search}`;
+}
+
+// Builds a query string from the current one. Empty values drop the key so
+// default filters don't clutter shared links; undefined leaves it alone.
+export function withParams(search: string, changes: Record<string, string | number | null | undefined>) {
+  const params = new URLSearchParams(search);
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (value === null || value === '') {
+      params.delete(key);
+    } else {
+      params.set(key, String(value));
+    }
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+// Updates the query string of the current page.
+export function setParams(
+  changes: Record<string, string | number | null | undefined>,
+  options: NavigateOptions = {}
+) {
+  navigate(`${window.location.pathname}${withParams(window.location.search, changes)}`, options);
+}
@@ -0,0 +1,58 @@
+import { SavedView } from './supabase';
+import { SearchSelection } from './searchQuery';
+
+export type ViewSettings = Pick<SavedView, 'filters' | 'sort_column' | 'sort_ascending' | 'columns'>;
+
+const DEFAULT_SORT_COLUMN = 'relevance';
+
+// A view maps one-to-one onto the ticket list's query string, so opening a
+// view is just navigating to it and the URL stays shareable.
+export function viewToSearch(view: ViewSettings) {
+  const params = new URLSearchParams();
+  const { q, category_id, priority_id, status_id } = view.filters;
+
+  if (q) params.set('q', q);
+  if (category_id) params.set('category', category_id);
+  if (priority_id) params.set('priority', priority_id);
+  if (status_id) params.set('status', status_id);
+  if (view.sort_column !== DEFAULT_SORT_COLUMN) {
+    params.set('sort', view.sort_column);
+    params.set('dir', view.sort_ascending ? 'asc' : 'desc');
+  }
+  if (view.columns.length > 0) params.set('cols', view.columns.join(','));
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export function viewFromSearch(search: string): ViewSettings {
+  const params = new URLSearchParams(search);
+  const filters: SavedView['filters'] = {};
+
+  const q = params.get('q')?.trim();
+  if (q) filters.q = q;
+  if (params.get('category')) filters.category_id = params.get('category')!;
+  if (params.get('priority')) filters.priority_id = params.get('priority')!;
+  if (params.get('status')) filters.status_id = params.get('status')!;
+
+  return {
+    filters,
+    sort_column: params.get('sort') || DEFAULT_SORT_COLUMN,
+    sort_ascending: params.get('dir') === 'asc',
+    columns: (params.get('cols') ?? '').split(',').filter(Boolean),
+  };
+}
+
+// Paging and parameter order don't make a different view.
+export function isCurrentView(view: ViewSettings, search: string) {
+  return viewToSearch(view) === viewToSearch(viewFromSearch(search));
+}
+
+export function viewSelection(view: ViewSettings): SearchSelection {
+  return {
+    q: view.filters.q ?? '',
+    categoryId: view.filters.category_id ?? '',
+    priorityId: view.filters.priority_id ?? '',
+    statusId: view.filters.status_id ?? '',
+  };
+}
@@ -0,0 +1,203 @@
+export type SearchField = 'status' | 'priority' | 'category' | 'assignee' | 'created' | 'updated';
+
+export type ParsedSearch = {
+  // Free text for the full-text query, with quoted phrases kept intact.
+  text: string;
+  filters: Partial<Record<SearchField, string>>;
+  // Values for category custom fields, by field key (asset_tag:A-1234).
+  custom: Record<string, string>;
+};
+
+const FIELDS: SearchField[] = ['status', 'priority', 'category', 'assignee', 'created', 'updated'];
+
+// field:value, field:"quoted value", "quoted phrase" or a bare word
+const TOKEN_PATTERN = /(\w+):"([^"]*)"|(\w+):(\S+)|("[^"]*")|(\S+)/g;
+
+export function parseSearchQuery(input: string, customKeys: string[] = []): ParsedSearch {
+  const filters: ParsedSearch['filters'] = {};
+  const custom: ParsedSearch['custom'] = {};
+  const text: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, quotedField, quotedValue, field, value, phrase, word] = match;
+    const key = (quotedField ?? field)?.toLowerCase() as SearchField | undefined;
+
+    if (key && FIELDS.includes(key)) {
+      const fieldValue = (quotedValue ?? value).trim();
+      if (fieldValue) filters[key] = fieldValue;
+    } else if (key && customKeys.includes(key)) {
+      const fieldValue = (quotedValue ?? value).trim();
+      if (fieldValue) custom[key] = fieldValue;
+    } else {
+      text.push(phrase ?? word ?? token);
+    }
+  }
+
+  return { text: text.join(' '), filters, custom };
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[-_]+/g, ' ').trim();
+
+// Exact names win, then a unique partial match, so "prog" finds "In Progress"
+// but "o" doesn't silently pick one of "Open" and "Closed".
+export function matchByName<T extends { name: string }>(items: T[], value: string): T | null {
+  const target = normalize(value);
+  const exact = items.find((item) => normalize(item.name) === target);
+  if (exact) return exact;
+
+  const partial = items.filter((item) => normalize(item.name).includes(target));
+  return partial.length === 1 ? partial[0] : null;
+}
+
+export type DateRange = { after: Date | null; before: Date | null };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNIT_MS: { [unit: string]: number } = { h: 60 * 60 * 1000, d: DAY_MS, w: 7 * DAY_MS };
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Dates in queries are relative to when the query runs, so a saved view
+// like "created:7d" means the same thing to everyone on any day:
+//   today, yesterday      - that calendar day
+//   7d, <7d / >7d         - within / more than 7 days ago (h, d and w units)
+//   2026-01-16            - that day; prefix < or > for before or after it
+export function parseDateFilter(value: string, now: Date): DateRange | null {
+  const lower = value.toLowerCase();
+  const today = startOfDay(now);
+
+  if (lower === 'today') return { after: today, before: null };
+  if (lower === 'yesterday') return { after: new Date(today.getTime() - DAY_MS), before: today };
+
+  const relative = lower.match(/^([<>]?)(\d+)([hdw])$/);
+  if (relative) {
+    const [, operator, amount, unit] = relative;
+    const boundary = new Date(now.getTime() - Number(amount) * UNIT_MS[unit]);
+    return operator === '>' ? { after: null, before: boundary } : { after: boundary, before: null };
+  }
+
+  const absolute = lower.match(/^([<>]?)(\d{4})-(\d{2})-(\d{2})$/);
+  if (absolute) {
+    const [, operator, year, month, day] = absolute;
+    const start = new Date(Number(year), Number(month) - 1, Number(day));
+    if (Number.isNaN(start.getTime())) return null;
+    const end = new Date(start.getTime() + DAY_MS);
+    if (operator === '<') return { after: null, before: start };
+    if (operator === '>') return { after: end, before: null };
+    return { after: start, before: end };
+  }
+
+  return null;
+}
+
+export type SearchLookups = {
+  categories: { id: string; name: string }[];
+  priorities: { id: string; name: string }[];
+  statuses: { id: string; name: string }[];
+  agents: { id: string; name: string }[];
+  customFields: { key: string; field_type: string }[];
+};
+
+// The search box text plus the dropdown selections, as kept in the URL and
+// in saved views.
+export type SearchSelection = {
+  q: string;
+  categoryId: string;
+  priorityId: string;
+  statusId: string;
+};
+
+export type ResolvedSearch = {
+  text: string;
+  categoryId: string | null;
+  priorityId: string | null;
+  statusId: string | null;
+  assignee: string | null;
+  created: DateRange;
+  updated: DateRange;
+  customFields: Record<string, string>;
+  errors: string[];
+};
+
+// Field tokens in the search box (status:open, assignee:me, ...) take
+// precedence over the dropdowns.
+export function resolveSearch(selection: SearchSelection, lookups: SearchLookups, now: Date): ResolvedSearch {
+  const parsed = parseSearchQuery(selection.q, lookups.customFields.map((field) => field.key));
+  const errors: string[] = [];
+
+  const resolve = (field: SearchField, items: { id: string; name: string }[]) => {
+    const value = parsed.filters[field];
+    if (!value) return null;
+    const match = matchByName(items, value);
+    if (!match) errors.push(`No ${field} matches "${value}"`);
+    return match?.id ?? null;
+  };
+
+  const resolveDate = (field: SearchField): DateRange => {
+    const value = parsed.filters[field];
+    if (!value) return { after: null, before: null };
+    const range = parseDateFilter(value, now);
+    if (!range) errors.push(`Can't read ${field} date "${value}"`);
+    return range ?? { after: null, before: null };
+  };
+
+  let assignee: string | null = null;
+  const assigneeValue = parsed.filters.assignee?.toLowerCase();
+  if (assigneeValue === 'me') {
+    assignee = 'me';
+  } else if (assigneeValue === 'none' || assigneeValue === 'unassigned') {
+    assignee = 'none';
+  } else {
+    assignee = resolve('assignee', lookups.agents);
+  }
+
+  // Checkboxes are stored as true/false; yes/no reads better in a query.
+  const customFields: Record<string, string> = {};
+  Object.entries(parsed.custom).forEach(([key, value]) => {
+    const checkbox = lookups.customFields.some((field) => field.key === key && field.field_type === 'checkbox');
+    customFields[key] = checkbox ? String(['yes', 'y', 'true', '1', 'checked'].includes(value.toLowerCase())) : value;
+  });
+
+  return {
+    text: parsed.text,
+    categoryId: resolve('category', lookups.categories) ?? (selection.categoryId || null),
+    priorityId: resolve('priority', lookups.priorities) ?? (selection.priorityId || null),
+    statusId: resolve('status', lookups.statuses) ?? (selection.statusId || null),
+    assignee,
+    created: resolveDate('created'),
+    updated: resolveDate('updated'),
+    customFields,
+    errors,
+  };
+}
+
+// Arguments for the search_tickets RPC.
+export function searchTicketsArgs(search: ResolvedSearch, sort: { column: string; ascending: boolean }) {
+  return {
+    p_search: search.text,
+    p_category_id: search.categoryId,
+    p_priority_id: search.priorityId,
+    p_status_id: search.statusId,
+    p_assignee: search.assignee,
+    p_sort: sort.column,
+    p_ascending: sort.ascending,
+    p_created_after: search.created.after?.toISOString() ?? null,
+    p_created_before: search.created.before?.toISOString() ?? null,
+    p_updated_after: search.updated.after?.toISOString() ?? null,
+    p_updated_before: search.updated.before?.toISOString() ?? null,
+    p_custom_fields: Object.keys(search.customFields).length > 0 ? search.customFields : null,
+  };
+}
+
+export type HighlightPart = { text: string; highlighted: boolean };
+
+// Snippets from the database wrap matches in ⟦ and ⟧ rather than HTML.
+export function splitHighlights(snippet: string): HighlightPart[] {
+  return snippet
+    .split(/(⟦[^⟧]*⟧)/)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith('⟦') && part.endsWith('⟧')
+        ? { text: part.slice(1, -1), highlighted: true }
+        : { text: part, highlighted: false }
+    );
+}
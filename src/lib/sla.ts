@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Ticket } from './supabase';
+
+export type SlaState = 'none' | 'on_track' | 'at_risk' | 'breached' | 'met';
+
+export type SlaTarget = {
+  state: SlaState;
+  dueAt: string | null;
+  // Time left until the deadline; negative once breached.
+  remainingMs: number;
+};
+
+export type TicketSla = {
+  response: SlaTarget;
+  resolution: SlaTarget;
+};
+
+export type SlaCompliance = {
+  met: number;
+  breached: number;
+  percent: number | null;
+};
+
+// A target is at risk once less than this share of its window is left.
+const AT_RISK_FRACTION = 0.25;
+
+const SEVERITY: SlaState[] = ['none', 'met', 'on_track', 'at_risk', 'breached'];
+
+const evaluateTarget = (
+  startedAt: string,
+  dueAt: string | null,
+  completedAt: string | null,
+  now: number
+): SlaTarget => {
+  if (!dueAt) return { state: 'none', dueAt, remainingMs: 0 };
+
+  const due = new Date(dueAt).getTime();
+
+  if (completedAt) {
+    const completed = new Date(completedAt).getTime();
+    return {
+      state: completed <= due ? 'met' : 'breached',
+      dueAt,
+      remainingMs: due - completed,
+    };
+  }
+
+  const remainingMs = due - now;
+  if (remainingMs < 0) return { state: 'breached', dueAt, remainingMs };
+
+  const windowMs = due - new Date(startedAt).getTime();
+  const state = remainingMs < windowMs * AT_RISK_FRACTION ? 'at_risk' : 'on_track';
+  return { state, dueAt, remainingMs };
+};
+
+export function getTicketSla(ticket: Ticket, now = Date.now()): TicketSla {
+  // The resolution clock stands still while the ticket is paused; the
+  // deadline moves out by the pause once it resumes.
+  const resolutionNow = ticket.paused_at ? new Date(ticket.paused_at).getTime() : now;
+
+  return {
+    response: evaluateTarget(ticket.created_at, ticket.first_response_due_at, ticket.first_responded_at, now),
+    resolution: evaluateTarget(
+      ticket.created_at,
+      ticket.resolution_due_at,
+      ticket.resolved_at || ticket.closed_at,
+      resolutionNow
+    ),
+  };
+}
+
+export function getWorstSlaState(sla: TicketSla): SlaState {
+  return SEVERITY.indexOf(sla.response.state) > SEVERITY.indexOf(sla.resolution.state)
+    ? sla.response.state
+    : sla.resolution.state;
+}
+
+export function formatDuration(ms: number) {
+  const totalMinutes = Math.floor(Math.abs(ms) / (1000 * 60));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+// Only targets that have been decided count: open tickets that are still
+// within their window are neither met nor breached yet.
+export function calculateSlaCompliance(targets: SlaTarget[]): SlaCompliance {
+  const met = targets.filter((target) => target.state === 'met').length;
+  const breached = targets.filter((target) => target.state === 'breached').length;
+  const decided = met + breached;
+
+  return {
+    met,
+    breached,
+    percent: decided > 0 ? Math.round((met / decided) * 100) : null,
+  };
+}
+
+export function useNow(intervalMs = 30000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
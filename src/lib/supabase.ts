@@ -5,19 +5,61 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+export type Role = 'requester' | 'agent' | 'admin';
+
+export type Profile = {
+  id: string;
+  full_name: string;
+  email: string;
+  role: Role;
+  created_at: string;
+};
+
 export type Category = {
   id: string;
   name: string;
   description: string;
   color: string;
+  position: number;
+  is_archived: boolean;
+  created_at: string;
+};
+
+export type CustomFieldType = 'text' | 'number' | 'select' | 'date' | 'checkbox';
+
+export type CustomField = {
+  id: string;
+  category_id: string;
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string[];
+  is_required: boolean;
+  min_value: number | null;
+  max_value: number | null;
+  position: number;
   created_at: string;
 };
 
+export type CustomFieldValue = string | number | boolean;
+
+export type CustomFieldValues = { [key: string]: CustomFieldValue };
+
 export type Priority = {
   id: string;
   name: string;
   level: number;
   color: string;
+  is_archived: boolean;
+  created_at: string;
+};
+
+export type SlaPolicy = {
+  id: string;
+  priority_id: string;
+  category_id: string | null;
+  response_minutes: number;
+  resolution_minutes: number;
   created_at: string;
 };
 
@@ -27,9 +69,38 @@ export type Status = {
   order: number;
   color: string;
   is_closed: boolean;
+  is_resolved: boolean;
+  is_paused: boolean;
+  is_archived: boolean;
+  is_default: boolean;
   created_at: string;
 };
 
+export type StatusTransition = {
+  id: string;
+  from_status_id: string;
+  to_status_id: string;
+  requires_comment: boolean;
+  requires_assignee: boolean;
+  created_at: string;
+};
+
+export type Agent = {
+  id: string;
+  profile_id: string | null;
+  name: string;
+  email: string | null;
+  team: string;
+  is_active: boolean;
+  is_available: boolean;
+  max_open_tickets: number | null;
+  created_at: string;
+};
+
+export type TicketSource = 'web' | 'email';
+
+export type CommentSource = TicketSource | 'automation';
+
 export type Ticket = {
   id: string;
   ticket_number: string;
@@ -40,17 +111,28 @@ export type Ticket = {
   status_id: string;
   requester_name: string;
   requester_email: string;
-  assigned_to: string;
+  requester_id: string | null;
+  assignee_id: string | null;
   created_at: string;
   updated_at: string;
   resolved_at: string | null;
   closed_at: string | null;
+  first_response_due_at: string | null;
+  resolution_due_at: string | null;
+  first_responded_at: string | null;
+  paused_at: string | null;
+  paused_seconds: number;
+  source: TicketSource;
+  custom_fields: CustomFieldValues;
+  last_agent_activity_at: string | null;
+  escalated_at: string | null;
 };
 
 export type TicketWithRelations = Ticket & {
   categories: Category;
   priorities: Priority;
   statuses: Status;
+  agents: Agent | null;
 };
 
 export type TicketComment = {
@@ -58,6 +140,271 @@ export type TicketComment = {
   ticket_id: string;
   comment: string;
   author_name: string;
+  author_id: string | null;
   is_internal: boolean;
+  source: CommentSource;
+  created_at: string;
+};
+
+export type Attachment = {
+  id: string;
+  ticket_id: string;
+  comment_id: string | null;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by: string | null;
+  created_at: string;
+};
+
+export type TicketEventType =
+  | 'created'
+  | 'status_changed'
+  | 'priority_changed'
+  | 'category_changed'
+  | 'assignee_changed';
+
+export type TicketEvent = {
+  id: string;
+  ticket_id: string;
+  event_type: TicketEventType;
+  old_value: string | null;
+  new_value: string | null;
+  actor_id: string | null;
+  actor_name: string;
+  created_at: string;
+};
+
+export type AssignmentStrategy = 'round_robin' | 'least_loaded' | 'fixed';
+
+export type AssignmentRule = {
+  id: string;
+  name: string;
+  strategy: AssignmentStrategy;
+  category_id: string | null;
+  team: string;
+  agent_id: string | null;
+  position: number;
+  is_enabled: boolean;
+  last_agent_id: string | null;
+  created_at: string;
+};
+
+export type AssignmentLogEntry = {
+  id: string;
+  ticket_id: string;
+  rule_id: string | null;
+  rule_name: string;
+  strategy: AssignmentStrategy;
+  agent_id: string | null;
+  reason: string;
+  created_at: string;
+};
+
+export type SavedViewFilters = {
+  q?: string;
+  category_id?: string;
+  priority_id?: string;
+  status_id?: string;
+};
+
+export type SavedView = {
+  id: string;
+  owner_id: string | null;
+  name: string;
+  is_shared: boolean;
+  filters: SavedViewFilters;
+  sort_column: string;
+  sort_ascending: boolean;
+  columns: string[];
+  position: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CannedResponse = {
+  id: string;
+  owner_id: string | null;
+  name: string;
+  body: string;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type TicketTemplate = {
+  id: string;
+  name: string;
+  title: string;
+  description: string;
+  category_id: string | null;
+  priority_id: string | null;
+  custom_fields: CustomFieldValues;
+  position: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type MacroAssigneeAction = 'keep' | 'set' | 'me' | 'unassign';
+
+export type Macro = {
+  id: string;
+  name: string;
+  description: string;
+  status_id: string | null;
+  priority_id: string | null;
+  category_id: string | null;
+  assignee_action: MacroAssigneeAction;
+  assignee_id: string | null;
+  comment: string;
+  comment_is_internal: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+};
+
+// One entry per field a macro changed (or would change) on a ticket, with
+// lookup names rather than ids. A comment has only `to`.
+export type MacroChange = {
+  field: 'status' | 'priority' | 'category' | 'assignee' | 'comment';
+  from?: string | null;
+  to: string | null;
+  is_internal?: boolean;
+};
+
+export type MacroResult = {
+  ticket_id: string;
+  ticket_number: string | null;
+  success: boolean;
+  error: string | null;
+  changes: MacroChange[];
+};
+
+export type AutomationTrigger = 'ticket_created' | 'ticket_updated' | 'comment_added' | 'time';
+
+export type AutomationOperator = 'is' | 'is_not' | 'contains' | 'not_contains' | 'at_least' | 'at_most';
+
+// `field` is one of the facts automation_ticket_facts() gathers, or
+// `custom.<key>` for a custom field.
+export type AutomationCondition = {
+  field: string;
+  operator: AutomationOperator;
+  value: string;
+};
+
+export type AutomationAction =
+  | { type: 'set_status' | 'set_priority' | 'set_category' | 'assign'; value: string }
+  | { type: 'add_comment'; comment: string; is_internal: boolean }
+  | { type: 'notify'; audience: NotificationAudience; subject: string; body: string };
+
+export type AutomationRule = {
+  id: string;
+  name: string;
+  description: string;
+  trigger_event: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  is_enabled: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+};
+
+// What a rule changed, as apply_macro reports it, plus the messages it queued.
+export type AutomationChange =
+  | MacroChange
+  | { field: 'notification'; to: string; subject: string };
+
+export type AutomationLogEntry = {
+  id: string;
+  rule_id: string | null;
+  rule_name: string;
+  ticket_id: string;
+  trigger_event: AutomationTrigger;
+  success: boolean;
+  error: string | null;
+  changes: AutomationChange[];
+  created_at: string;
+};
+
+export type AutomationTestResult = {
+  ticket_id: string;
+  ticket_number: string;
+  success: boolean;
+  error: string | null;
+  changes: AutomationChange[];
+};
+
+export type EscalationPolicy = {
+  id: string;
+  priority_id: string;
+  idle_hours: number;
+  escalate_to_priority_id: string | null;
+  reassign_to_id: string | null;
+  is_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+// What one escalation pass did, or with a dry run would do, to each ticket.
+export type EscalationReport = {
+  escalated: number;
+  failed: number;
+  dry_run: boolean;
+  tickets: MacroResult[];
+};
+
+export type NumberReset = 'never' | 'yearly' | 'daily';
+
+export type TicketNumberFormat = {
+  id: string;
+  category_id: string | null;
+  prefix: string;
+  reset: NumberReset;
+  padding: number;
+  created_at: string;
+};
+
+export type NotificationEvent = 'ticket_created' | 'ticket_assigned' | 'comment_added' | 'ticket_resolved';
+
+export type NotificationAudience = 'requester' | 'agent';
+
+export type NotificationTemplate = {
+  id: string;
+  event: NotificationEvent;
+  audience: NotificationAudience;
+  subject: string;
+  body: string;
+  is_enabled: boolean;
+  updated_at: string;
+};
+
+export type WebhookEvent = 'ticket.created' | 'ticket.status_changed' | 'ticket.assigned' | 'comment.created';
+
+export type Webhook = {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  is_active: boolean;
+  created_at: string;
+};
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'delivered' | 'failed';
+
+export type WebhookDelivery = {
+  id: string;
+  webhook_id: string;
+  event: WebhookEvent | 'ping';
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  delivered_at: string | null;
   created_at: string;
 };
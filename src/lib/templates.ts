@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { supabase, CannedResponse, Profile, TicketTemplate, TicketWithRelations } from './supabase';
+import { useLookupChanges } from './realtime';
+
+// What a canned response can refer to, in the order the picker lists them.
+export const PLACEHOLDERS = [
+  'requester_name',
+  'requester_email',
+  'ticket_number',
+  'title',
+  'category',
+  'priority',
+  'status',
+  'assignee_name',
+  'agent_name',
+] as const;
+
+type Placeholder = (typeof PLACEHOLDERS)[number];
+
+export function placeholderValues(ticket: TicketWithRelations, agent: Profile | null): Record<Placeholder, string> {
+  return {
+    requester_name: ticket.requester_name,
+    requester_email: ticket.requester_email,
+    ticket_number: ticket.ticket_number,
+    title: ticket.title,
+    category: ticket.categories.name,
+    priority: ticket.priorities.name,
+    status: ticket.statuses.name,
+    assignee_name: ticket.agents?.name ?? '',
+    agent_name: agent?.full_name ?? '',
+  };
+}
+
+// What the notification sender fills in; any ticket column works too.
+export const NOTIFICATION_PLACEHOLDERS = [
+  'ticket_number',
+  'title',
+  'description',
+  'requester_name',
+  'requester_email',
+  'categories.name',
+  'priorities.name',
+  'statuses.name',
+  'agents.name',
+  'comment.comment',
+  'comment.author_name',
+  'recipient.name',
+  'ticket_url',
+];
+
+// Unknown placeholders are left as typed so a misspelt one stands out in the
+// composer instead of quietly disappearing.
+export function fillPlaceholders(body: string, values: Record<string, string>) {
+  return body.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+}
+
+// RLS limits the list to the caller's own responses and the shared ones.
+export function useCannedResponses() {
+  const [responses, setResponses] = useState<CannedResponse[]>([]);
+
+  const loadResponses = async () => {
+    const { data } = await supabase.from('canned_responses').select('*').order('name');
+    if (data) setResponses(data);
+  };
+
+  useEffect(() => {
+    loadResponses();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'canned_responses') loadResponses();
+  });
+
+  return { responses, reload: loadResponses };
+}
+
+export function useTicketTemplates() {
+  const [templates, setTemplates] = useState<TicketTemplate[]>([]);
+
+  const loadTemplates = async () => {
+    const { data } = await supabase.from('ticket_templates').select('*').order('position').order('name');
+    if (data) setTemplates(data);
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'ticket_templates') loadTemplates();
+  });
+
+  return templates;
+}
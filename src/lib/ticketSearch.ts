@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase, Agent, Category, CustomField, Priority, Status } from './supabase';
+import { useLocation } from './router';
+import { useLookupChanges, LookupTable } from './realtime';
+import { resolveSearch, SearchSelection } from './searchQuery';
+
+export function readSelection(search: string): SearchSelection {
+  const params = new URLSearchParams(search);
+  return {
+    q: params.get('q') ?? '',
+    categoryId: params.get('category') ?? '',
+    priorityId: params.get('priority') ?? '',
+    statusId: params.get('status') ?? '',
+  };
+}
+
+// Lookup tables the search box resolves names against, also used for the
+// filter dropdowns. Archived values are included so old tickets can still
+// be found by them; pickers filter them out with `activeOptions`.
+export function useSearchLookups() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [statuses, setStatuses] = useState<Status[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+
+  const loadLookup = useCallback(async (table: LookupTable) => {
+    if (table === 'categories') {
+      const { data } = await supabase.from('categories').select('*').order('position').order('name');
+      if (data) setCategories(data);
+    } else if (table === 'priorities') {
+      const { data } = await supabase.from('priorities').select('*').order('level');
+      if (data) setPriorities(data);
+    } else if (table === 'statuses') {
+      const { data } = await supabase.from('statuses').select('*').order('order');
+      if (data) setStatuses(data);
+    } else if (table === 'custom_fields') {
+      const { data } = await supabase.from('custom_fields').select('*').order('position');
+      if (data) setCustomFields(data);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLookup('categories');
+    loadLookup('priorities');
+    loadLookup('statuses');
+    loadLookup('custom_fields');
+    supabase
+      .from('agents')
+      .select('*')
+      .order('name')
+      .then(({ data }) => {
+        if (data) setAgents(data);
+      });
+  }, [loadLookup]);
+
+  useLookupChanges(loadLookup);
+
+  return useMemo(
+    () => ({ categories, priorities, statuses, agents, customFields }),
+    [categories, priorities, statuses, agents, customFields]
+  );
+}
+
+// Values offered in a picker: everything active, plus the current value so
+// a ticket in an archived category still shows it.
+export function activeOptions<T extends { id: string; is_archived: boolean }>(items: T[], current?: string | null) {
+  return items.filter((item) => !item.is_archived || item.id === current);
+}
+
+// The filters in the current URL, resolved against the lookups. Relative
+// dates are pinned when the filters change, so a reload from a realtime
+// event doesn't shift the window under the current page.
+export function useResolvedSearch(lookups: ReturnType<typeof useSearchLookups>) {
+  const location = useLocation();
+  const { q, categoryId, priorityId, statusId } = readSelection(location.search);
+
+  return useMemo(
+    () => resolveSearch({ q, categoryId, priorityId, statusId }, lookups, new Date()),
+    [q, categoryId, priorityId, statusId, lookups]
+  );
+}
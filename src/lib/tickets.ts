@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { supabase, Status, StatusTransition, Ticket } from './supabase';
+import { useLookupChanges } from './realtime';
+
+export type StatusPhase = 'new' | 'active' | 'paused' | 'resolved' | 'closed';
+
+export type StatusNote = { comment: string; isInternal: boolean };
+
+// Where a status sits in the ticket lifecycle, from its flags rather than its
+// name, so renamed or added statuses are counted in the right place.
+export function statusPhase(status: Status): StatusPhase {
+  if (status.is_closed) return 'closed';
+  if (status.is_resolved) return 'resolved';
+  if (status.is_paused) return 'paused';
+  if (status.is_default) return 'new';
+  return 'active';
+}
+
+export function findTransition(transitions: StatusTransition[], fromStatusId: string, toStatusId: string) {
+  return transitions.find(
+    (transition) => transition.from_status_id === fromStatusId && transition.to_status_id === toStatusId
+  );
+}
+
+// Statuses the workflow lets a ticket move to next, plus the one it's in.
+export function nextStatuses(statuses: Status[], transitions: StatusTransition[], currentStatusId: string) {
+  return statuses.filter(
+    (status) =>
+      status.id === currentStatusId || (!status.is_archived && findTransition(transitions, currentStatusId, status.id))
+  );
+}
+
+// The database checks the workflow and stamps resolved_at / closed_at from
+// the status flags; a note is added in the same transaction so moves that
+// require one go through.
+export async function changeTicketStatus(ticket: Ticket, status: Status, note?: StatusNote) {
+  const { error } = await supabase.rpc('change_ticket_status', {
+    p_ticket_id: ticket.id,
+    p_status_id: status.id,
+    p_comment: note?.comment ?? null,
+    p_is_internal: note?.isInternal ?? false,
+  });
+  if (error) throw new Error(error.message);
+}
+
+export function useStatusTransitions() {
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+
+  const loadTransitions = async () => {
+    const { data } = await supabase.from('status_transitions').select('*');
+    if (data) setTransitions(data);
+  };
+
+  useEffect(() => {
+    loadTransitions();
+  }, []);
+
+  useLookupChanges((table) => {
+    if (table === 'status_transitions') loadTransitions();
+  });
+
+  return transitions;
+}
@@ -0,0 +1,42 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+// Talks to the database as the service role. The functions use it for the
+// work signed-in users can't do themselves, like filing mail or draining the
+// notification outbox.
+export function serviceClient() {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// Whether the request carries the service role key, as the scheduled runs do.
+// The functions' own JWT check also lets the public anon key through, so
+// anything that works as the service role has to ask for this.
+export function isServiceRole(req: Request) {
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!key && req.headers.get('Authorization') === `Bearer ${key}`;
+}
+
+// Whether the request comes from a signed-in admin, for the admin screens
+// that run a function on demand. Asks the database with the caller's own
+// token, so an anon key or someone else's session gets nowhere.
+export async function isAdmin(req: Request) {
+  const url = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  const authorization = req.headers.get('Authorization');
+  if (!url || !anonKey || !authorization) return false;
+
+  const client = createClient(url, anonKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data, error } = await client.rpc('is_admin');
+  return !error && data === true;
+}
+
+export const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
@@ -0,0 +1,95 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+type ClaimedDelivery = {
+  id: string;
+  event: string;
+  payload: unknown;
+  attempts: number;
+  url: string;
+  secret: string;
+};
+
+export type DeliveryReport = {
+  delivered: number;
+  failed: number;
+};
+
+const MAX_ATTEMPTS = 8;
+const BATCH_SIZE = 20;
+const TIMEOUT_MS = 10_000;
+// Enough of the response to tell what went wrong, without storing whole pages.
+const RESPONSE_LIMIT = 2000;
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// HMAC-SHA256 over "<timestamp>.<body>". Receivers recompute it with their
+// copy of the secret, and can reject old timestamps to stop replays.
+async function sign(secret: string, timestamp: string, body: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`)));
+}
+
+async function post(delivery: ClaimedDelivery) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  const response = await fetch(delivery.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'ServiceDesk-Webhooks/1.0',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': delivery.id,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${await sign(delivery.secret, timestamp, body)}`,
+    },
+    body,
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+
+  return { status: response.status, ok: response.ok, body: (await response.text()).slice(0, RESPONSE_LIMIT) };
+}
+
+// Sends the deliveries that are due. Anything but a 2xx is retried after
+// 1, 2, 4, ... minutes, up to MAX_ATTEMPTS.
+export async function deliverPending(supabase: SupabaseClient): Promise<DeliveryReport> {
+  const report: DeliveryReport = { delivered: 0, failed: 0 };
+
+  const { data, error } = await supabase.rpc('claim_webhook_deliveries', { p_limit: BATCH_SIZE });
+  if (error) throw new Error(error.message);
+
+  for (const delivery of (data ?? []) as ClaimedDelivery[]) {
+    let result: { status: number | null; ok: boolean; body: string | null; error: string | null };
+    try {
+      const response = await post(delivery);
+      result = { ...response, error: response.ok ? null : `HTTP ${response.status}` };
+    } catch (postError) {
+      result = { status: null, ok: false, body: null, error: (postError as Error).message };
+    }
+
+    const giveUp = delivery.attempts >= MAX_ATTEMPTS;
+    await supabase
+      .from('webhook_deliveries')
+      .update({
+        status: result.ok ? 'delivered' : giveUp ? 'failed' : 'pending',
+        response_status: result.status,
+        response_body: result.body,
+        last_error: result.error,
+        delivered_at: result.ok ? new Date().toISOString() : null,
+        next_attempt_at: new Date(Date.now() + 2 ** (delivery.attempts - 1) * 60 * 1000).toISOString(),
+      })
+      .eq('id', delivery.id);
+
+    if (result.ok) report.delivered += 1;
+    else report.failed += 1;
+  }
+
+  return report;
+}
@@ -0,0 +1,35 @@
+// Sends queued webhook deliveries. Database triggers queue one per
+// subscribed endpoint when a ticket is created, changes status or assignee,
+// or gets a comment; the admin screen queues test pings.
+//
+// Call it every minute with the service role key, the same way as
+// send-notifications. The admin screen also calls it, with the admin's own
+// session, right after queueing a test so the result shows up straight away.
+// Any other caller is turned away.
+//
+// Each request carries:
+//   X-Webhook-Event      ticket.created, ticket.status_changed,
+//                        ticket.assigned, comment.created or ping
+//   X-Webhook-Delivery   Delivery id; the same on every retry
+//   X-Webhook-Timestamp  Unix seconds
+//   X-Webhook-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+
+import { isAdmin, isServiceRole, json, serviceClient } from '../_shared/supabase.ts';
+import { deliverPending } from './deliveries.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!isServiceRole(req) && !(await isAdmin(req))) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    return json(await deliverPending(serviceClient()));
+  } catch (error) {
+    console.error('Error delivering webhooks:', error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
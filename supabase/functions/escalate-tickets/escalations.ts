@@ -0,0 +1,29 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+type EscalationResult = {
+  ticket_id: string;
+  ticket_number: string;
+  success: boolean;
+  error: string | null;
+  changes: { field: string; from?: string | null; to: string | null }[];
+};
+
+export type EscalationReport = {
+  escalated: number;
+  failed: number;
+  dry_run: boolean;
+  tickets: EscalationResult[];
+};
+
+// One pass over the open tickets. The database picks the ones that have gone
+// too long without agent activity for their priority, applies the policy and
+// posts the internal note; each ticket is escalated on its own, so one
+// failure doesn't hold up the rest.
+export async function escalateStaleTickets(supabase: SupabaseClient, dryRun = false): Promise<EscalationReport> {
+  const { data, error } = await supabase.rpc('escalate_stale_tickets', { p_dry_run: dryRun });
+  if (error) throw new Error(error.message);
+
+  const tickets = (data ?? []) as EscalationResult[];
+  const escalated = tickets.filter((ticket) => ticket.success).length;
+  return { escalated, failed: tickets.length - escalated, dry_run: dryRun, tickets };
+}
@@ -0,0 +1,40 @@
+// Escalates stale tickets: open tickets that have gone longer than their
+// priority's escalation policy allows without an agent commenting on or
+// changing them get their priority bumped or are reassigned, with an
+// internal note saying why.
+//
+// Call it every 15 minutes or so with the service role key, e.g. from pg_cron:
+//
+//   SELECT cron.schedule('escalate-tickets', '*/15 * * * *', $$
+//     SELECT net.http_post(
+//       url := '<project url>/functions/v1/escalate-tickets',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service role key>')
+//     )
+//   $$);
+//
+// The escalation policies screen calls it with the admin's own session; any
+// other caller is turned away. POST {"dry_run": true} to see what would be
+// escalated without changing anything. run.ts does the same pass from the
+// command line.
+
+import { isAdmin, isServiceRole, json, serviceClient } from '../_shared/supabase.ts';
+import { escalateStaleTickets } from './escalations.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!isServiceRole(req) && !(await isAdmin(req))) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    return json(await escalateStaleTickets(serviceClient(), body?.dry_run === true));
+  } catch (error) {
+    console.error('Error escalating tickets:', error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,33 @@
+// Runs one escalation pass from the command line, for a local stack or a
+// host that schedules jobs with cron rather than pg_cron:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-env --allow-net supabase/functions/escalate-tickets/run.ts [--dry-run]
+//
+// With --dry-run it lists what would be escalated and changes nothing.
+
+import { serviceClient } from '../_shared/supabase.ts';
+import { escalateStaleTickets } from './escalations.ts';
+
+const dryRun = Deno.args.includes('--dry-run');
+const unknown = Deno.args.filter((arg) => arg !== '--dry-run');
+if (unknown.length > 0) {
+  console.error('Usage: run.ts [--dry-run]');
+  Deno.exit(2);
+}
+
+const report = await escalateStaleTickets(serviceClient(), dryRun);
+
+for (const ticket of report.tickets) {
+  if (!ticket.success) {
+    console.error(`${ticket.ticket_number}: ${ticket.error}`);
+    continue;
+  }
+  const changes = ticket.changes
+    .filter((change) => change.field !== 'comment')
+    .map((change) => `${change.field} ${change.from ?? 'unassigned'} -> ${change.to ?? 'unassigned'}`);
+  console.log(`${ticket.ticket_number}: ${changes.join(', ') || 'note only'}`);
+}
+
+console.log(`${dryRun ? 'Would escalate' : 'Escalated'} ${report.escalated}, failed ${report.failed}`);
+Deno.exit(report.failed > 0 ? 1 : 0);
@@ -0,0 +1,47 @@
+// Inbound email endpoint. Point the mail provider's raw-MIME webhook here:
+//
+//   POST /functions/v1/inbound-email
+//   Authorization: Bearer <INBOUND_EMAIL_SECRET>
+//   Content-Type: message/rfc822
+//
+//   <the message, exactly as received>
+//
+// A message that answers a ticket (by its headers or the ticket number in the
+// subject) is added as a comment; anything else opens a new ticket. A saved
+// message can be replayed with
+//
+//   curl -X POST --data-binary @message.eml -H "Authorization: Bearer $SECRET" \
+//     http://127.0.0.1:54321/functions/v1/inbound-email
+//
+// Set INBOUND_EMAIL_CATEGORY / INBOUND_EMAIL_PRIORITY to the names new tickets
+// should be filed under; they default to General at the lowest priority.
+
+import { json, serviceClient } from '../_shared/supabase.ts';
+import { ingestEmail, InvalidEmailError } from './ingest.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const secret = Deno.env.get('INBOUND_EMAIL_SECRET');
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const raw = new Uint8Array(await req.arrayBuffer());
+  if (raw.length === 0) {
+    return json({ error: 'Empty message' }, 400);
+  }
+
+  try {
+    return json(await ingestEmail(serviceClient(), raw));
+  } catch (error) {
+    console.error('Error ingesting email:', error);
+    // Providers retry on 5xx, which is right for a database hiccup but would
+    // loop forever on a message we can't read.
+    return error instanceof InvalidEmailError
+      ? json({ error: error.message }, 422)
+      : json({ error: 'Failed to ingest email' }, 500);
+  }
+});
@@ -0,0 +1,41 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { parseEmail, stripQuotedReply } from './mime.ts';
+
+export type IngestResult = {
+  action: 'created' | 'replied' | 'duplicate' | 'ignored';
+  ticket_id?: string;
+  ticket_number?: string;
+  comment_id?: string | null;
+  reason?: string;
+};
+
+// Rejected messages (no sender, say) are not worth retrying, unlike a
+// database error.
+export class InvalidEmailError extends Error {}
+
+export async function ingestEmail(supabase: SupabaseClient, raw: Uint8Array): Promise<IngestResult> {
+  const email = parseEmail(raw);
+
+  if (!email.fromEmail.includes('@')) {
+    throw new InvalidEmailError('Message has no sender address');
+  }
+  if (email.automated) {
+    return { action: 'ignored', reason: 'Automatic reply or bulk mail' };
+  }
+
+  const { data, error } = await supabase.rpc('ingest_email', {
+    p_message_id: email.messageId,
+    p_from_email: email.fromEmail,
+    p_from_name: email.fromName,
+    p_subject: email.subject,
+    p_body: email.text,
+    p_in_reply_to: email.inReplyTo,
+    p_references: email.references,
+    p_reply_body: stripQuotedReply(email.text),
+    p_category: Deno.env.get('INBOUND_EMAIL_CATEGORY') ?? null,
+    p_priority: Deno.env.get('INBOUND_EMAIL_PRIORITY') ?? null,
+  });
+
+  if (error) throw new Error(error.message);
+  return data as IngestResult;
+}
@@ -0,0 +1,83 @@
+// Files mail from a Maildir, for mailboxes fetched by fetchmail, offlineimap
+// or a local MTA rather than posted by a provider. Run it from cron:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-env --allow-net --allow-read --allow-write \
+//     supabase/functions/inbound-email/maildir.ts ~/Maildir
+//
+// Each message in new/ is ingested and then moved to cur/ marked as seen.
+// Messages that fail for any other reason than being unreadable stay in new/
+// and are tried again on the next run.
+//
+// Given .eml files instead of a Maildir, it ingests those and leaves them
+// where they are, which is handy for replaying saved messages locally.
+//
+// fixtures/ holds a small conversation to try it on against `supabase start`:
+//
+//   01  opens a ticket for alice@example.com
+//   02  Alice's reply, threaded by In-Reply-To               -> replied
+//   03  Alice's reply, threaded by the number in the subject -> replied
+//   04  multipart/alternative with an attachment; the plain-text part
+//       becomes a new ticket and the attachment is skipped
+//   05  the same subject from a stranger; subject matches are only taken
+//       from the requester or an agent, so this opens its own ticket
+//
+// 03 and 05 carry the placeholder SD-00000000-0000; put in the number 01
+// was given before running them:
+//
+//   deno run ... maildir.ts fixtures/01-new-ticket.eml     # created SD-...
+//   mkdir -p /tmp/fixtures && for f in fixtures/*.eml; do
+//     sed "s/SD-00000000-0000/<that number>/" "$f" > "/tmp/$f"
+//   done
+//   deno run ... maildir.ts /tmp/fixtures/0[2-5]-*.eml
+//
+// The Message-IDs are fixed, so running them again reports duplicates until
+// the database is reset.
+
+import { serviceClient } from '../_shared/supabase.ts';
+import { ingestEmail, InvalidEmailError } from './ingest.ts';
+
+if (Deno.args.length === 0) {
+  console.error('Usage: maildir.ts <maildir or .eml file>...');
+  Deno.exit(2);
+}
+
+const supabase = serviceClient();
+let failures = 0;
+
+async function ingestFile(path: string) {
+  try {
+    const result = await ingestEmail(supabase, await Deno.readFile(path));
+    console.log(`${path}: ${result.action}${result.ticket_number ? ` ${result.ticket_number}` : ''}`);
+    return true;
+  } catch (error) {
+    failures += 1;
+    console.error(`${path}: ${(error as Error).message}`);
+    // A message we can't read won't read any better next time.
+    return error instanceof InvalidEmailError;
+  }
+}
+
+for (const target of Deno.args) {
+  const info = await Deno.stat(target);
+
+  if (info.isFile) {
+    await ingestFile(target);
+    continue;
+  }
+
+  // Oldest first, so replies land after the message they answer.
+  const entries = [];
+  for await (const entry of Deno.readDir(`${target}/new`)) {
+    if (entry.isFile && !entry.name.startsWith('.')) entries.push(entry.name);
+  }
+  entries.sort();
+
+  for (const name of entries) {
+    if (await ingestFile(`${target}/new/${name}`)) {
+      await Deno.rename(`${target}/new/${name}`, `${target}/cur/${name}:2,S`);
+    }
+  }
+}
+
+Deno.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,224 @@
+// A small RFC 822 / MIME reader: just enough to turn a raw message into a
+// ticket. It reads headers, RFC 2047 encoded words, multipart bodies and the
+// base64 / quoted-printable transfer encodings, and picks the text part.
+
+export type ParsedEmail = {
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  fromName: string;
+  fromEmail: string;
+  subject: string;
+  text: string;
+  // Set for out-of-office replies, bounces and list mail, which shouldn't
+  // open tickets or bounce back and forth with our own notifications.
+  automated: boolean;
+};
+
+type Headers = { [name: string]: string };
+
+type Part = {
+  headers: Headers;
+  body: string;
+};
+
+// The message is handled as a "binary string", one character per byte, so
+// 8-bit bodies survive until their charset is known.
+const toBinary = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+};
+
+const fromBinary = (binary: string) => Uint8Array.from(binary, (char) => char.charCodeAt(0));
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8') {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+const decodeBase64 = (value: string) => {
+  try {
+    return atob(value.replace(/[^A-Za-z0-9+/=]/g, ''));
+  } catch {
+    return '';
+  }
+};
+
+const decodeQuotedPrintable = (value: string, underscoreIsSpace = false) =>
+  (underscoreIsSpace ? value.replace(/_/g, ' ') : value)
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+// =?charset?B|Q?text?= words; the space between two encoded words is dropped.
+function decodeWords(value: string) {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const binary = encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text, true);
+      return decodeBytes(fromBinary(binary), charset.split('*')[0]);
+    });
+}
+
+function splitHeaders(raw: string): Part {
+  // A part may have no headers at all, in which case it opens with the blank line.
+  const match = /^\r?\n|\r?\n\r?\n/.exec(raw);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : '';
+
+  const headers: Headers = {};
+  head
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const colon = line.indexOf(':');
+      if (colon <= 0) return;
+      const name = line.slice(0, colon).trim().toLowerCase();
+      // The first occurrence wins, as with Subject and From there is only one.
+      if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+    });
+
+  return { headers, body };
+}
+
+// "text/plain; charset=utf-8" -> { value: 'text/plain', params: { charset: 'utf-8' } }
+function parseHeaderValue(value = '') {
+  const [first, ...rest] = value.split(';');
+  const params: { [name: string]: string } = {};
+  rest.forEach((param) => {
+    const equals = param.indexOf('=');
+    if (equals < 0) return;
+    params[param.slice(0, equals).trim().toLowerCase()] = param
+      .slice(equals + 1)
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+  });
+  return { value: first.trim().toLowerCase(), params };
+}
+
+function decodeBody(part: Part) {
+  const encoding = (part.headers['content-transfer-encoding'] ?? '').toLowerCase();
+  const { params } = parseHeaderValue(part.headers['content-type']);
+  const binary =
+    encoding === 'base64'
+      ? decodeBase64(part.body)
+      : encoding === 'quoted-printable'
+        ? decodeQuotedPrintable(part.body)
+        : part.body;
+  return decodeBytes(fromBinary(binary), params.charset);
+}
+
+function htmlToText(html: string) {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+// The message's readable text: the first plain-text part that isn't an
+// attachment, else the first HTML part converted to text.
+function findText(part: Part): { plain?: string; html?: string } {
+  const contentType = parseHeaderValue(part.headers['content-type'] || 'text/plain');
+  const disposition = parseHeaderValue(part.headers['content-disposition']);
+  if (disposition.value === 'attachment') return {};
+
+  if (contentType.value.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary;
+    if (!boundary) return {};
+
+    const found: { plain?: string; html?: string } = {};
+    const sections = part.body.split(new RegExp(`\\r?\\n?--${boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+    // The first section is the preamble; the closing delimiter ends in "--".
+    for (const section of sections.slice(1)) {
+      if (section.startsWith('--')) break;
+      const child = findText(splitHeaders(section.replace(/^[ \t]*\r?\n/, '')));
+      found.plain ??= child.plain;
+      found.html ??= child.html;
+      if (found.plain) break;
+    }
+    return found;
+  }
+
+  if (contentType.value === 'text/plain') return { plain: decodeBody(part) };
+  if (contentType.value === 'text/html') return { html: htmlToText(decodeBody(part)) };
+  return {};
+}
+
+// "Jane Doe" <jane@example.com>, Jane <jane@example.com> or jane@example.com
+function parseAddress(value: string) {
+  const angle = /^(.*)<([^>]+)>/.exec(value);
+  if (angle) {
+    return {
+      name: angle[1].trim().replace(/^"(.*)"$/, '$1').trim(),
+      email: angle[2].trim().toLowerCase(),
+    };
+  }
+  const comment = /^([^\s(]+)\s*\((.*)\)/.exec(value);
+  if (comment) return { name: comment[2].trim(), email: comment[1].toLowerCase() };
+  return { name: '', email: value.trim().toLowerCase() };
+}
+
+const messageIds = (value = '') => (value.match(/<[^>]+>/g) ?? []).map((id) => id.slice(1, -1));
+
+function isAutomated(headers: Headers) {
+  const autoSubmitted = (headers['auto-submitted'] ?? 'no').toLowerCase();
+  const precedence = (headers['precedence'] ?? '').toLowerCase();
+  return (
+    autoSubmitted !== 'no' ||
+    ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence) ||
+    'x-autoreply' in headers ||
+    'x-autorespond' in headers ||
+    /^(mailer-daemon|postmaster)@/i.test(parseAddress(headers['from'] ?? '').email)
+  );
+}
+
+export function parseEmail(raw: Uint8Array): ParsedEmail {
+  const message = splitHeaders(toBinary(raw));
+  const { headers } = message;
+  const from = parseAddress(decodeWords(headers['from'] ?? ''));
+  const text = findText(message);
+
+  return {
+    messageId: messageIds(headers['message-id'])[0] ?? null,
+    inReplyTo: messageIds(headers['in-reply-to'])[0] ?? null,
+    references: messageIds(headers['references']),
+    fromName: from.name,
+    fromEmail: from.email,
+    subject: decodeWords(headers['subject'] ?? '').trim(),
+    text: (text.plain ?? text.html ?? '').replace(/\r\n/g, '\n').trim(),
+    automated: isAutomated(headers),
+  };
+}
+
+// The new part of a reply: everything above the quoted message, without the
+// signature.
+export function stripQuotedReply(text: string) {
+  const lines: string[] = [];
+  for (const line of text.split('\n')) {
+    if (
+      /^On .+wrote:\s*$/.test(line) ||
+      /^-{2,}\s*Original Message\s*-{2,}/i.test(line) ||
+      /^_{10,}\s*$/.test(line) ||
+      /^-- $/.test(line)
+    ) {
+      break;
+    }
+    if (!line.startsWith('>')) lines.push(line);
+  }
+  return lines.join('\n').trim();
+}
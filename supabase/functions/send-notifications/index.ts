@@ -0,0 +1,43 @@
+// Drains the notification outbox. Database triggers queue a message whenever
+// a ticket is created, assigned or resolved, or gets a comment; this function
+// renders each one from its template and hands it to the transport.
+//
+// Call it every minute or so with the service role key, e.g. from pg_cron;
+// any other caller is turned away:
+//
+//   SELECT cron.schedule('send-notifications', '* * * * *', $$
+//     SELECT net.http_post(
+//       url := '<project url>/functions/v1/send-notifications',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service role key>')
+//     )
+//   $$);
+//
+// Settings:
+//   NOTIFY_TRANSPORT  smtp, file or console (default)
+//   NOTIFY_FROM       From address, e.g. "Service Desk <support@example.com>";
+//                     inbound mail should arrive at this address so replies
+//                     thread back onto the ticket
+//   NOTIFY_FILE_DIR   Where the file transport writes .eml files
+//   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD
+//   APP_URL           Base URL for {{ticket_url}}
+
+import { isServiceRole, json, serviceClient } from '../_shared/supabase.ts';
+import { deliverPending } from './outbox.ts';
+import { transportFromEnv } from './transports.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!isServiceRole(req)) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    return json(await deliverPending(serviceClient(), transportFromEnv()));
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,151 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { OutgoingEmail, Transport } from './transports.ts';
+
+type Notification = {
+  id: string;
+  event: string;
+  audience: 'requester' | 'agent';
+  ticket_id: string;
+  comment_id: string | null;
+  recipient_email: string;
+  recipient_name: string;
+  subject: string | null;
+  body: string | null;
+  attempts: number;
+};
+
+export type DeliveryReport = {
+  sent: number;
+  skipped: number;
+  failed: number;
+};
+
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 20;
+
+// Replaces {{path.to.value}} with the value at that path in the context.
+// Unknown paths render as nothing rather than leaking the placeholder.
+function renderTemplate(template: string, context: Record<string, unknown>) {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = path
+      .split('.')
+      .reduce<unknown>((node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), context);
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
+
+// Renders one queued message. Messages written by an automation rule bring
+// their own subject and body; everything else uses the template for its event.
+// Returns null when there is nothing to send: the template was switched off,
+// or the message would show a requester an internal note.
+async function compose(supabase: SupabaseClient, notification: Notification): Promise<OutgoingEmail | null> {
+  const ownText = notification.subject !== null && notification.body !== null;
+  const [templateRes, ticketRes, commentRes, threadRes] = await Promise.all([
+    ownText
+      ? Promise.resolve({ data: { subject: notification.subject, body: notification.body }, error: null })
+      : supabase
+          .from('notification_templates')
+          .select('*')
+          .eq('event', notification.event)
+          .eq('audience', notification.audience)
+          .eq('is_enabled', true)
+          .maybeSingle(),
+    supabase
+      .from('tickets')
+      .select('*, categories(*), priorities(*), statuses(*), agents(*)')
+      .eq('id', notification.ticket_id)
+      .single(),
+    notification.comment_id
+      ? supabase.from('ticket_comments').select('*').eq('id', notification.comment_id).single()
+      : Promise.resolve({ data: null, error: null }),
+    supabase.from('email_messages').select('message_id').eq('ticket_id', notification.ticket_id).order('created_at'),
+  ]);
+
+  const error = templateRes.error ?? ticketRes.error ?? commentRes.error ?? threadRes.error;
+  if (error) throw new Error(error.message);
+  if (!templateRes.data) return null;
+
+  const comment = commentRes.data;
+  if (comment?.is_internal && notification.audience === 'requester') return null;
+
+  const from = Deno.env.get('NOTIFY_FROM') ?? 'Service Desk <support@example.com>';
+  const domain = /@([^>\s]+)/.exec(from)?.[1] ?? 'localhost';
+  const appUrl = (Deno.env.get('APP_URL') ?? 'http://localhost:5173').replace(/\/$/, '');
+  const ticket = ticketRes.data;
+
+  const context = {
+    ...ticket,
+    comment,
+    recipient: { name: notification.recipient_name, email: notification.recipient_email },
+    ticket_url: `${appUrl}/tickets/${encodeURIComponent(ticket.ticket_number)}`,
+  };
+
+  // Thread onto the conversation the requester already has in their inbox,
+  // so their reply comes back to the same ticket.
+  const references = (threadRes.data ?? []).map((message: { message_id: string }) => message.message_id);
+
+  return {
+    from,
+    to: notification.recipient_name
+      ? `"${notification.recipient_name.replace(/["\\]/g, '')}" <${notification.recipient_email}>`
+      : notification.recipient_email,
+    subject: renderTemplate(templateRes.data.subject, context).replace(/\s+/g, ' ').trim(),
+    text: renderTemplate(templateRes.data.body, context),
+    messageId: `notification.${notification.id}@${domain}`,
+    inReplyTo: references[references.length - 1],
+    references,
+  };
+}
+
+// Sends the messages that are due. Failures are retried with a growing delay
+// and given up on after MAX_ATTEMPTS.
+export async function deliverPending(supabase: SupabaseClient, transport: Transport): Promise<DeliveryReport> {
+  const report: DeliveryReport = { sent: 0, skipped: 0, failed: 0 };
+
+  const { data, error } = await supabase.rpc('claim_notifications', { p_limit: BATCH_SIZE });
+  if (error) throw new Error(error.message);
+
+  for (const notification of (data ?? []) as Notification[]) {
+    try {
+      const email = await compose(supabase, notification);
+
+      if (!email) {
+        await supabase.from('notifications').update({ status: 'skipped' }).eq('id', notification.id);
+        report.skipped += 1;
+        continue;
+      }
+
+      await transport.send(email);
+
+      await supabase
+        .from('notifications')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), message_id: email.messageId, last_error: null })
+        .eq('id', notification.id);
+      await supabase.from('email_messages').insert([
+        {
+          message_id: email.messageId,
+          ticket_id: notification.ticket_id,
+          comment_id: notification.comment_id,
+          direction: 'outbound',
+          from_email: /<([^>]+)>/.exec(email.from)?.[1] ?? email.from,
+          subject: email.subject,
+        },
+      ]);
+      report.sent += 1;
+    } catch (sendError) {
+      console.error(`Error sending notification ${notification.id}:`, sendError);
+      const giveUp = notification.attempts >= MAX_ATTEMPTS;
+      await supabase
+        .from('notifications')
+        .update({
+          status: giveUp ? 'failed' : 'pending',
+          last_error: (sendError as Error).message,
+          next_attempt_at: new Date(Date.now() + notification.attempts * 5 * 60 * 1000).toISOString(),
+        })
+        .eq('id', notification.id);
+      report.failed += 1;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,102 @@
+import nodemailer from 'npm:nodemailer@6';
+
+export type OutgoingEmail = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  messageId: string;
+  inReplyTo?: string;
+  references: string[];
+};
+
+// Where rendered messages go. SMTP for real mail; the console and file sinks
+// are for development, so nothing reaches a real inbox by accident.
+export interface Transport {
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}?=`;
+
+// The message as an RFC 822 document, which the file sink saves as .eml.
+// They carry Auto-Submitted, so the inbound-email Maildir runner ignores them
+// as they are; to try out reply threading, feed it a reply whose In-Reply-To
+// is the saved Message-ID, like inbound-email/fixtures/02-reply-in-reply-to.eml.
+export function formatMessage(email: OutgoingEmail) {
+  const headers = [
+    `From: ${email.from}`,
+    `To: ${email.to}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${email.messageId}>`,
+    ...(email.inReplyTo ? [`In-Reply-To: <${email.inReplyTo}>`] : []),
+    ...(email.references.length > 0 ? [`References: ${email.references.map((id) => `<${id}>`).join(' ')}`] : []),
+    'Auto-Submitted: auto-generated',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${email.text.replace(/\r?\n/g, '\r\n')}\r\n`;
+}
+
+export const consoleTransport = (): Transport => ({
+  async send(email) {
+    console.log(`--- ${email.to}\n${formatMessage(email)}`);
+  },
+});
+
+export const fileTransport = (directory: string): Transport => ({
+  async send(email) {
+    await Deno.mkdir(directory, { recursive: true });
+    await Deno.writeTextFile(`${directory}/${Date.now()}-${email.messageId.split('@')[0]}.eml`, formatMessage(email));
+  },
+});
+
+export function smtpTransport(options: { host: string; port: number; secure: boolean; user?: string; password?: string }): Transport {
+  const mailer = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    async send(email) {
+      await mailer.sendMail({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        messageId: `<${email.messageId}>`,
+        inReplyTo: email.inReplyTo ? `<${email.inReplyTo}>` : undefined,
+        references: email.references.map((id) => `<${id}>`),
+        // Asks autoresponders not to answer, per RFC 3834
+        headers: { 'Auto-Submitted': 'auto-generated' },
+      });
+    },
+  };
+}
+
+// NOTIFY_TRANSPORT picks the transport: smtp, file or console (the default).
+export function transportFromEnv(): Transport {
+  const kind = Deno.env.get('NOTIFY_TRANSPORT') ?? 'console';
+
+  if (kind === 'smtp') {
+    const host = Deno.env.get('SMTP_HOST');
+    if (!host) throw new Error('SMTP_HOST must be set for the smtp transport');
+    return smtpTransport({
+      host,
+      port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+      secure: Deno.env.get('SMTP_SECURE') === 'true',
+      user: Deno.env.get('SMTP_USER'),
+      password: Deno.env.get('SMTP_PASSWORD'),
+    });
+  }
+  if (kind === 'file') return fileTransport(Deno.env.get('NOTIFY_FILE_DIR') ?? './outbox');
+  if (kind === 'console') return consoleTransport();
+
+  throw new Error(`Unknown NOTIFY_TRANSPORT: ${kind}`);
+}
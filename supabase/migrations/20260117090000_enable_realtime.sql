@@ -0,0 +1,29 @@
+/*
+  # Enable Realtime for tickets and comments
+
+  1. Replication
+    - Add `tickets` and `ticket_comments` to the `supabase_realtime` publication
+      so clients can subscribe to `postgres_changes` on them
+    - Set `REPLICA IDENTITY FULL` on both tables so UPDATE events carry the
+      complete old row. DELETE events on tables with RLS still only carry the
+      primary key, so the client can't tell which ticket a deleted comment
+      belonged to and hands the delete to every open ticket
+
+  2. Important Notes
+    - Realtime respects the SELECT policies on each table, so subscribers only
+      receive changes for rows they are allowed to read
+    - The publication is created by Supabase (hosted and `supabase start`);
+      it is created here as well in case the stack doesn't provide it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+END $$;
+
+ALTER TABLE tickets REPLICA IDENTITY FULL;
+ALTER TABLE ticket_comments REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE tickets, ticket_comments;
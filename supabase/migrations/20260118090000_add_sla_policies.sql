@@ -0,0 +1,164 @@
+/*
+  # SLA Policies
+
+  1. New Tables
+    - `sla_policies`
+      - `id` (uuid, primary key)
+      - `priority_id` (uuid, foreign key) - Priority the targets apply to
+      - `category_id` (uuid, foreign key, nullable) - Narrows the policy to one
+        category; NULL means it applies to every category
+      - `response_minutes` (integer) - Time allowed until the first response
+      - `resolution_minutes` (integer) - Time allowed until the ticket is resolved
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `tickets`
+      - `first_response_due_at` (timestamptz, nullable) - First response deadline
+      - `resolution_due_at` (timestamptz, nullable) - Resolution deadline
+      - `first_responded_at` (timestamptz, nullable) - When the ticket was first
+        answered: the first comment not written by the requester, or the first
+        status change, whichever happens first
+
+  3. Security
+    - Enable RLS on `sla_policies` with public read access
+
+  4. Important Notes
+    - A category-specific policy wins over the catch-all policy for the same
+      priority
+    - Due times are measured from `created_at` and recalculated whenever the
+      ticket's priority or category changes
+    - Existing tickets are backfilled without touching `updated_at`
+*/
+
+-- Create sla_policies table
+CREATE TABLE IF NOT EXISTS sla_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  priority_id uuid REFERENCES priorities(id) ON DELETE CASCADE NOT NULL,
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  response_minutes integer NOT NULL CHECK (response_minutes > 0),
+  resolution_minutes integer NOT NULL CHECK (resolution_minutes > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+-- One policy per priority/category pair, with NULL category treated as a value
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sla_policies_scope
+  ON sla_policies(priority_id, COALESCE(category_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+-- Add SLA columns to tickets
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS first_response_due_at timestamptz;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS resolution_due_at timestamptz;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS first_responded_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_resolution_due ON tickets(resolution_due_at);
+
+-- Function to find the policy that applies to a priority/category pair
+CREATE OR REPLACE FUNCTION find_sla_policy(p_priority_id uuid, p_category_id uuid)
+RETURNS sla_policies AS $$
+  SELECT *
+  FROM sla_policies
+  WHERE priority_id = p_priority_id
+    AND (category_id = p_category_id OR category_id IS NULL)
+  ORDER BY category_id IS NULL
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Trigger to calculate SLA due times
+CREATE OR REPLACE FUNCTION set_ticket_sla_targets()
+RETURNS TRIGGER AS $$
+DECLARE
+  policy sla_policies;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.priority_id IS NOT DISTINCT FROM OLD.priority_id
+    AND NEW.category_id IS NOT DISTINCT FROM OLD.category_id THEN
+    RETURN NEW;
+  END IF;
+
+  policy := find_sla_policy(NEW.priority_id, NEW.category_id);
+
+  IF policy.id IS NULL THEN
+    NEW.first_response_due_at := NULL;
+    NEW.resolution_due_at := NULL;
+  ELSE
+    NEW.first_response_due_at := COALESCE(NEW.created_at, NOW()) + make_interval(mins => policy.response_minutes);
+    NEW.resolution_due_at := COALESCE(NEW.created_at, NOW()) + make_interval(mins => policy.resolution_minutes);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_ticket_sla_targets
+  BEFORE INSERT OR UPDATE ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_ticket_sla_targets();
+
+-- Trigger to record the first response when the status first changes
+CREATE OR REPLACE FUNCTION set_first_response_on_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.first_responded_at IS NULL AND NEW.status_id IS DISTINCT FROM OLD.status_id THEN
+    NEW.first_responded_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_first_response_on_status_change
+  BEFORE UPDATE ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_first_response_on_status_change();
+
+-- Trigger to record the first response when someone other than the requester comments
+CREATE OR REPLACE FUNCTION set_first_response_on_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE tickets
+  SET first_responded_at = NEW.created_at
+  WHERE id = NEW.ticket_id
+    AND first_responded_at IS NULL
+    AND LOWER(TRIM(requester_name)) <> LOWER(TRIM(NEW.author_name));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_first_response_on_comment
+  AFTER INSERT ON ticket_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_first_response_on_comment();
+
+-- Insert default policies (minutes)
+INSERT INTO sla_policies (priority_id, response_minutes, resolution_minutes)
+SELECT p.id, v.response_minutes, v.resolution_minutes
+FROM (VALUES
+  ('Critical', 60, 240),
+  ('High', 240, 1440),
+  ('Medium', 480, 4320),
+  ('Low', 1440, 10080)
+) AS v(priority_name, response_minutes, resolution_minutes)
+JOIN priorities p ON p.name = v.priority_name
+ON CONFLICT DO NOTHING;
+
+-- Backfill existing tickets
+ALTER TABLE tickets DISABLE TRIGGER trigger_update_ticket_timestamp;
+
+UPDATE tickets t
+SET
+  first_response_due_at = t.created_at + make_interval(mins => (find_sla_policy(t.priority_id, t.category_id)).response_minutes),
+  resolution_due_at = t.created_at + make_interval(mins => (find_sla_policy(t.priority_id, t.category_id)).resolution_minutes),
+  first_responded_at = (
+    SELECT MIN(c.created_at)
+    FROM ticket_comments c
+    WHERE c.ticket_id = t.id
+      AND LOWER(TRIM(c.author_name)) <> LOWER(TRIM(t.requester_name))
+  );
+
+ALTER TABLE tickets ENABLE TRIGGER trigger_update_ticket_timestamp;
+
+-- Enable Row Level Security
+ALTER TABLE sla_policies ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for sla_policies (public read)
+CREATE POLICY "Anyone can view SLA policies"
+  ON sla_policies FOR SELECT
+  USING (true);
@@ -0,0 +1,315 @@
+/*
+  # Authentication and Role-Based Access
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, references auth.users)
+      - `full_name` (text) - Display name used for comments and assignment
+      - `email` (text) - Sign-in email, copied from auth.users and kept in
+        step with it; it can't be edited on the profile
+      - `role` (text) - One of requester, agent or admin
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `tickets`
+      - `requester_id` (uuid, foreign key, nullable) - User who filed the ticket
+    - `ticket_comments`
+      - `author_id` (uuid, foreign key, nullable) - User who wrote the comment
+
+  3. Security
+    - Replace every "Anyone can..." policy on tickets and comments
+    - Requesters can file tickets and read and comment on their own tickets
+    - Agents and admins can read and update every ticket and comment
+    - Only admins can delete tickets or change a user's role
+    - Nobody can change a profile's email, which ticket requesters, inbound
+      mail and notifications go by; it follows the account's email
+    - Comment authorship and requester details are taken from the session,
+      never from the client (agents may still file tickets for someone else),
+      and editing a comment can't change who wrote it
+
+  4. Important Notes
+    - A profile is created for every new auth user; new users are requesters
+      until an admin promotes them; promote the first admin from the SQL
+      editor with `UPDATE profiles SET role = 'admin' WHERE email = '...'`
+    - Rows created before this migration keep a NULL `requester_id` /
+      `author_id` and are only visible to agents
+    - Only comments by agents count as the first response for SLA purposes
+*/
+
+-- Create profiles table
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name text NOT NULL DEFAULT '',
+  email text NOT NULL DEFAULT '',
+  role text NOT NULL DEFAULT 'requester' CHECK (role IN ('requester', 'agent', 'admin')),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Add ownership columns
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS requester_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+ALTER TABLE ticket_comments ADD COLUMN IF NOT EXISTS author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_tickets_requester ON tickets(requester_id);
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON profiles(role);
+
+-- Function to read the caller's role without tripping profiles RLS
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_agent()
+RETURNS boolean AS $$
+  SELECT COALESCE(current_user_role() IN ('agent', 'admin'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT COALESCE(current_user_role() = 'admin', false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Trigger to create a profile for every new user
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, email)
+  VALUES (
+    NEW.id,
+    COALESCE(NULLIF(NEW.raw_user_meta_data->>'full_name', ''), SPLIT_PART(NEW.email, '@', 1)),
+    COALESCE(NEW.email, '')
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_handle_new_user
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+-- Trigger to keep the sign-in email in step with auth.users
+CREATE OR REPLACE FUNCTION sync_profile_email()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.profiles SET email = COALESCE(NEW.email, '') WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_sync_profile_email
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_profile_email();
+
+-- Trigger to stop non-admins from changing roles, and anyone from changing
+-- the email other than through auth.users
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+  IF NEW.email IS DISTINCT FROM OLD.email
+    AND NEW.email IS DISTINCT FROM (SELECT COALESCE(email, '') FROM auth.users WHERE id = NEW.id) THEN
+    RAISE EXCEPTION 'Email can only be changed on the account itself';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_protect_profile_role
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_role();
+
+-- Trigger to take comment authorship from the session
+CREATE OR REPLACE FUNCTION set_comment_author()
+RETURNS TRIGGER AS $$
+DECLARE
+  author_profile profiles;
+BEGIN
+  -- Editing a comment keeps whoever wrote it
+  IF TG_OP = 'UPDATE' THEN
+    IF auth.uid() IS NOT NULL THEN
+      NEW.author_id := OLD.author_id;
+      NEW.author_name := OLD.author_name;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO author_profile FROM profiles WHERE id = auth.uid();
+  NEW.author_id := auth.uid();
+  NEW.author_name := COALESCE(NULLIF(author_profile.full_name, ''), author_profile.email, NEW.author_name);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_set_comment_author
+  BEFORE INSERT OR UPDATE ON ticket_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_comment_author();
+
+-- Trigger to take requester details from the session unless an agent files on someone's behalf
+CREATE OR REPLACE FUNCTION set_ticket_requester()
+RETURNS TRIGGER AS $$
+DECLARE
+  requester_profile profiles;
+BEGIN
+  IF auth.uid() IS NULL OR is_agent() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO requester_profile FROM profiles WHERE id = auth.uid();
+  NEW.requester_id := auth.uid();
+  NEW.requester_name := COALESCE(NULLIF(requester_profile.full_name, ''), NEW.requester_name);
+  NEW.requester_email := COALESCE(NULLIF(requester_profile.email, ''), NEW.requester_email);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_set_ticket_requester
+  BEFORE INSERT ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_ticket_requester();
+
+-- First response now means the first comment written by an agent
+CREATE OR REPLACE FUNCTION set_first_response_on_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = NEW.author_id AND role IN ('agent', 'admin')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE tickets
+  SET first_responded_at = NEW.created_at
+  WHERE id = NEW.ticket_id
+    AND first_responded_at IS NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for profiles
+CREATE POLICY "Users can view their own profile"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+CREATE POLICY "Agents can view all profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Users can update their own profile"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Admins can update any profile"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Replace public policies for tickets
+DROP POLICY IF EXISTS "Anyone can view tickets" ON tickets;
+DROP POLICY IF EXISTS "Anyone can create tickets" ON tickets;
+DROP POLICY IF EXISTS "Anyone can update tickets" ON tickets;
+DROP POLICY IF EXISTS "Anyone can delete tickets" ON tickets;
+
+CREATE POLICY "Requesters can view their own tickets"
+  ON tickets FOR SELECT
+  TO authenticated
+  USING (requester_id = auth.uid());
+
+CREATE POLICY "Agents can view all tickets"
+  ON tickets FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Users can create their own tickets"
+  ON tickets FOR INSERT
+  TO authenticated
+  WITH CHECK (requester_id = auth.uid() OR is_agent());
+
+CREATE POLICY "Agents can update tickets"
+  ON tickets FOR UPDATE
+  TO authenticated
+  USING (is_agent())
+  WITH CHECK (is_agent());
+
+CREATE POLICY "Admins can delete tickets"
+  ON tickets FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Replace public policies for ticket_comments
+DROP POLICY IF EXISTS "Anyone can view comments" ON ticket_comments;
+DROP POLICY IF EXISTS "Anyone can create comments" ON ticket_comments;
+DROP POLICY IF EXISTS "Anyone can update comments" ON ticket_comments;
+DROP POLICY IF EXISTS "Anyone can delete comments" ON ticket_comments;
+
+CREATE POLICY "Requesters can view comments on their tickets"
+  ON ticket_comments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tickets
+      WHERE tickets.id = ticket_comments.ticket_id
+        AND tickets.requester_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Agents can view all comments"
+  ON ticket_comments FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Requesters can comment on their tickets"
+  ON ticket_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM tickets
+      WHERE tickets.id = ticket_comments.ticket_id
+        AND tickets.requester_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Agents can comment on any ticket"
+  ON ticket_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (author_id = auth.uid() AND is_agent());
+
+-- The check also stops a comment being moved onto someone else's ticket
+CREATE POLICY "Authors can update their comments"
+  ON ticket_comments FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (
+    author_id = auth.uid()
+    AND (
+      is_agent()
+      OR EXISTS (
+        SELECT 1 FROM tickets
+        WHERE tickets.id = ticket_comments.ticket_id
+          AND tickets.requester_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Authors and admins can delete comments"
+  ON ticket_comments FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid() OR is_admin());
@@ -0,0 +1,145 @@
+/*
+  # Ticket Audit Trail
+
+  1. New Tables
+    - `ticket_events`
+      - `id` (uuid, primary key)
+      - `ticket_id` (uuid, foreign key)
+      - `event_type` (text) - created, status_changed, priority_changed,
+        category_changed or assignee_changed
+      - `old_value` (text, nullable) - Display value before the change
+      - `new_value` (text, nullable) - Display value after the change
+      - `actor_id` (uuid, nullable) - User who made the change
+      - `actor_name` (text) - Name of that user at the time, or 'System'
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `ticket_events`
+    - Agents can view every event; requesters can view events on their own
+      tickets
+    - There are no insert/update/delete policies: rows are only written by
+      the trigger below, so the history can't be edited through the API
+
+  3. Important Notes
+    - Events are written by a trigger on `tickets`, so direct API and SQL edits
+      are captured as well as changes made in the app
+    - Status, priority and category are stored by name so the history still
+      reads correctly after a lookup value is renamed or removed
+*/
+
+-- Create ticket_events table
+CREATE TABLE IF NOT EXISTS ticket_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id uuid REFERENCES tickets(id) ON DELETE CASCADE NOT NULL,
+  event_type text NOT NULL CHECK (
+    event_type IN ('created', 'status_changed', 'priority_changed', 'category_changed', 'assignee_changed')
+  ),
+  old_value text,
+  new_value text,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name text NOT NULL DEFAULT 'System',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_events_ticket ON ticket_events(ticket_id, created_at);
+
+-- Trigger to record ticket history
+CREATE OR REPLACE FUNCTION record_ticket_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_name text;
+BEGIN
+  SELECT COALESCE(NULLIF(full_name, ''), email) INTO v_actor_name
+  FROM profiles
+  WHERE id = v_actor_id;
+  v_actor_name := COALESCE(v_actor_name, 'System');
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO ticket_events (ticket_id, event_type, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'created',
+      (SELECT name FROM statuses WHERE id = NEW.status_id),
+      v_actor_id,
+      v_actor_name
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status_id IS DISTINCT FROM OLD.status_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'status_changed',
+      (SELECT name FROM statuses WHERE id = OLD.status_id),
+      (SELECT name FROM statuses WHERE id = NEW.status_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  IF NEW.priority_id IS DISTINCT FROM OLD.priority_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'priority_changed',
+      (SELECT name FROM priorities WHERE id = OLD.priority_id),
+      (SELECT name FROM priorities WHERE id = NEW.priority_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  IF NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'category_changed',
+      (SELECT name FROM categories WHERE id = OLD.category_id),
+      (SELECT name FROM categories WHERE id = NEW.category_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'assignee_changed',
+      NULLIF(OLD.assigned_to, ''),
+      NULLIF(NEW.assigned_to, ''),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_record_ticket_events
+  AFTER INSERT OR UPDATE ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION record_ticket_events();
+
+-- Enable Row Level Security
+ALTER TABLE ticket_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ticket_events (read-only)
+CREATE POLICY "Requesters can view events on their tickets"
+  ON ticket_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tickets
+      WHERE tickets.id = ticket_events.ticket_id
+        AND tickets.requester_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Agents can view all events"
+  ON ticket_events FOR SELECT
+  TO authenticated
+  USING (is_agent());
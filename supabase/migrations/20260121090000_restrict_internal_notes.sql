@@ -0,0 +1,84 @@
+/*
+  # Internal Notes
+
+  1. Security
+    - Requesters can no longer see comments with `is_internal = true`, even on
+      their own tickets (this also keeps internal notes out of their Realtime
+      stream)
+    - Requesters can only post public comments
+    - Only agents can post internal notes
+
+  2. Important Notes
+    - Internal notes don't count as the first response for SLA purposes, since
+      the requester never sees them
+*/
+
+-- Replace requester policies for ticket_comments
+DROP POLICY IF EXISTS "Requesters can view comments on their tickets" ON ticket_comments;
+DROP POLICY IF EXISTS "Requesters can comment on their tickets" ON ticket_comments;
+
+CREATE POLICY "Requesters can view public comments on their tickets"
+  ON ticket_comments FOR SELECT
+  TO authenticated
+  USING (
+    is_internal = false
+    AND EXISTS (
+      SELECT 1 FROM tickets
+      WHERE tickets.id = ticket_comments.ticket_id
+        AND tickets.requester_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Requesters can post public comments on their tickets"
+  ON ticket_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND is_internal = false
+    AND EXISTS (
+      SELECT 1 FROM tickets
+      WHERE tickets.id = ticket_comments.ticket_id
+        AND tickets.requester_id = auth.uid()
+    )
+  );
+
+-- Authors who aren't agents can't turn their own comment into an internal note,
+-- nor move it onto a ticket that isn't theirs
+DROP POLICY IF EXISTS "Authors can update their comments" ON ticket_comments;
+
+CREATE POLICY "Authors can update their comments"
+  ON ticket_comments FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (
+    author_id = auth.uid()
+    AND (
+      is_agent()
+      OR (
+        is_internal = false
+        AND EXISTS (
+          SELECT 1 FROM tickets
+          WHERE tickets.id = ticket_comments.ticket_id
+            AND tickets.requester_id = auth.uid()
+        )
+      )
+    )
+  );
+
+-- Internal notes are not a response to the requester
+CREATE OR REPLACE FUNCTION set_first_response_on_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_internal OR NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = NEW.author_id AND role IN ('agent', 'admin')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE tickets
+  SET first_responded_at = NEW.created_at
+  WHERE id = NEW.ticket_id
+    AND first_responded_at IS NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,237 @@
+/*
+  # Agents Directory
+
+  1. New Tables
+    - `agents`
+      - `id` (uuid, primary key)
+      - `profile_id` (uuid, foreign key, nullable, unique) - Sign-in account of
+        the agent, if they have one
+      - `name` (text) - Display name
+      - `email` (text, nullable, unique) - Contact email
+      - `team` (text) - Team the agent belongs to
+      - `is_active` (boolean) - Inactive agents can't receive new assignments
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `tickets`
+      - `assignee_id` (uuid, foreign key, nullable) - Replaces `assigned_to`
+      - `assigned_to` (text) - Dropped once existing values are mapped
+
+  3. Security
+    - Enable RLS on `agents`
+    - Signed-in users can view the directory
+    - Only admins can add, edit or remove agents
+    - `merge_agents` is only callable by signed-in admins
+
+  4. Important Notes
+    - Every agent/admin profile gets an agent record, and one is created when
+      a user is promoted later on
+    - Existing `assigned_to` values are matched case-insensitively against
+      agent names, emails and email local parts; values that match nobody
+      become new agents so no assignment is lost
+    - Spelling variants of the same person ("John", "J. Doe") can be folded
+      together afterwards with `SELECT merge_agents(<duplicate id>, <agent id>)`
+    - Ticket history now records assignee changes by agent name
+*/
+
+-- Create agents table
+CREATE TABLE IF NOT EXISTS agents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid UNIQUE REFERENCES profiles(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  email text UNIQUE,
+  team text NOT NULL DEFAULT '',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agents_active ON agents(is_active);
+
+-- Add assignee reference to tickets
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS assignee_id uuid REFERENCES agents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_assignee ON tickets(assignee_id);
+
+-- Create agents for existing agent/admin profiles
+INSERT INTO agents (profile_id, name, email)
+SELECT id, COALESCE(NULLIF(full_name, ''), email), NULLIF(email, '')
+FROM profiles
+WHERE role IN ('agent', 'admin')
+ON CONFLICT DO NOTHING;
+
+-- Map existing assigned_to values onto agents
+ALTER TABLE tickets DISABLE TRIGGER trigger_update_ticket_timestamp;
+ALTER TABLE tickets DISABLE TRIGGER trigger_record_ticket_events;
+
+INSERT INTO agents (name)
+SELECT DISTINCT ON (LOWER(TRIM(t.assigned_to))) TRIM(t.assigned_to)
+FROM tickets t
+WHERE TRIM(COALESCE(t.assigned_to, '')) <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM agents a
+    WHERE LOWER(TRIM(t.assigned_to)) IN (
+      LOWER(a.name),
+      LOWER(COALESCE(a.email, '')),
+      LOWER(SPLIT_PART(COALESCE(a.email, ''), '@', 1))
+    )
+  )
+ORDER BY LOWER(TRIM(t.assigned_to)), TRIM(t.assigned_to);
+
+UPDATE tickets t
+SET assignee_id = (
+  SELECT a.id
+  FROM agents a
+  WHERE LOWER(TRIM(t.assigned_to)) IN (
+    LOWER(a.name),
+    LOWER(COALESCE(a.email, '')),
+    LOWER(SPLIT_PART(COALESCE(a.email, ''), '@', 1))
+  )
+  ORDER BY (LOWER(a.name) = LOWER(TRIM(t.assigned_to))) DESC, a.created_at
+  LIMIT 1
+)
+WHERE TRIM(COALESCE(t.assigned_to, '')) <> '';
+
+ALTER TABLE tickets ENABLE TRIGGER trigger_record_ticket_events;
+ALTER TABLE tickets ENABLE TRIGGER trigger_update_ticket_timestamp;
+
+ALTER TABLE tickets DROP COLUMN IF EXISTS assigned_to;
+
+-- Function to fold a duplicate agent into another one
+CREATE OR REPLACE FUNCTION merge_agents(p_duplicate_id uuid, p_agent_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge agents';
+  END IF;
+
+  IF p_duplicate_id = p_agent_id THEN
+    RETURN;
+  END IF;
+
+  UPDATE tickets SET assignee_id = p_agent_id WHERE assignee_id = p_duplicate_id;
+  DELETE FROM agents WHERE id = p_duplicate_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_agents(uuid, uuid) FROM PUBLIC, anon;
+
+-- Trigger to give promoted users an agent record
+CREATE OR REPLACE FUNCTION sync_agent_for_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IN ('agent', 'admin') THEN
+    INSERT INTO agents (profile_id, name, email)
+    VALUES (NEW.id, COALESCE(NULLIF(NEW.full_name, ''), NEW.email), NULLIF(NEW.email, ''))
+    ON CONFLICT (profile_id) DO UPDATE SET is_active = true;
+  ELSIF TG_OP = 'UPDATE' AND OLD.role IN ('agent', 'admin') THEN
+    UPDATE agents SET is_active = false WHERE profile_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_sync_agent_for_profile
+  AFTER INSERT OR UPDATE OF role ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_agent_for_profile();
+
+-- Ticket history now follows assignee_id
+CREATE OR REPLACE FUNCTION record_ticket_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_name text;
+BEGIN
+  SELECT COALESCE(NULLIF(full_name, ''), email) INTO v_actor_name
+  FROM profiles
+  WHERE id = v_actor_id;
+  v_actor_name := COALESCE(v_actor_name, 'System');
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO ticket_events (ticket_id, event_type, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'created',
+      (SELECT name FROM statuses WHERE id = NEW.status_id),
+      v_actor_id,
+      v_actor_name
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status_id IS DISTINCT FROM OLD.status_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'status_changed',
+      (SELECT name FROM statuses WHERE id = OLD.status_id),
+      (SELECT name FROM statuses WHERE id = NEW.status_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  IF NEW.priority_id IS DISTINCT FROM OLD.priority_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'priority_changed',
+      (SELECT name FROM priorities WHERE id = OLD.priority_id),
+      (SELECT name FROM priorities WHERE id = NEW.priority_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  IF NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'category_changed',
+      (SELECT name FROM categories WHERE id = OLD.category_id),
+      (SELECT name FROM categories WHERE id = NEW.category_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'assignee_changed',
+      (SELECT name FROM agents WHERE id = OLD.assignee_id),
+      (SELECT name FROM agents WHERE id = NEW.assignee_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE agents ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for agents
+CREATE POLICY "Signed-in users can view agents"
+  ON agents FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create agents"
+  ON agents FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update agents"
+  ON agents FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete agents"
+  ON agents FOR DELETE
+  TO authenticated
+  USING (is_admin());
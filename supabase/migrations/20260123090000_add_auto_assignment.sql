@@ -0,0 +1,315 @@
+/*
+  # Automatic Ticket Assignment
+
+  1. New Tables
+    - `assignment_rules`
+      - `id` (uuid, primary key)
+      - `name` (text) - Shown in the assignment log and ticket history
+      - `strategy` (text) - round_robin, least_loaded or fixed
+      - `category_id` (uuid, foreign key, nullable) - Only match tickets in this
+        category; NULL matches every category
+      - `team` (text) - Restrict the agent pool to one team; '' means any team
+      - `agent_id` (uuid, foreign key, nullable) - Owner for the fixed strategy
+      - `position` (integer) - Evaluation order within the same scope
+      - `is_enabled` (boolean)
+      - `last_agent_id` (uuid, nullable) - Round-robin cursor
+      - `created_at` (timestamptz)
+
+    - `assignment_log`
+      - `id` (uuid, primary key)
+      - `ticket_id` (uuid, foreign key)
+      - `rule_id` (uuid, foreign key, nullable)
+      - `rule_name` (text) - Name of the rule at the time
+      - `strategy` (text)
+      - `agent_id` (uuid, foreign key, nullable)
+      - `reason` (text) - Human-readable explanation of the choice
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `agents`
+      - `is_available` (boolean) - Agents who are away are skipped
+      - `max_open_tickets` (integer, nullable) - Agents at capacity are skipped
+
+  3. Security
+    - Agents can view rules and the log; only admins can manage rules
+    - Agents can toggle their own availability through `set_my_availability`
+
+  4. Important Notes
+    - Rules run after a ticket is inserted without an assignee. Category rules
+      are tried before catch-all rules, then by `position`; the first rule that
+      finds an eligible agent wins
+    - Eligible agents are active, available, in the rule's team and under
+      their `max_open_tickets`. A fixed owner who isn't eligible makes the rule
+      fall through to the next one
+    - Every automatic assignment is logged, and the ticket history names the
+      rule as the actor. Other triggers can do the same by setting
+      `service_desk.actor` for the transaction
+*/
+
+-- Add availability to agents
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS is_available boolean NOT NULL DEFAULT true;
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS max_open_tickets integer CHECK (max_open_tickets > 0);
+
+-- Create assignment_rules table
+CREATE TABLE IF NOT EXISTS assignment_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  strategy text NOT NULL CHECK (strategy IN ('round_robin', 'least_loaded', 'fixed')),
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  team text NOT NULL DEFAULT '',
+  agent_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+  position integer NOT NULL DEFAULT 0,
+  is_enabled boolean NOT NULL DEFAULT true,
+  last_agent_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (strategy <> 'fixed' OR agent_id IS NOT NULL)
+);
+
+-- Create assignment_log table
+CREATE TABLE IF NOT EXISTS assignment_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id uuid REFERENCES tickets(id) ON DELETE CASCADE NOT NULL,
+  rule_id uuid REFERENCES assignment_rules(id) ON DELETE SET NULL,
+  rule_name text NOT NULL,
+  strategy text NOT NULL,
+  agent_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+  reason text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_log_ticket ON assignment_log(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_assignment_log_created ON assignment_log(created_at DESC);
+
+-- Function to count an agent's open tickets
+CREATE OR REPLACE FUNCTION agent_open_ticket_count(p_agent_id uuid)
+RETURNS integer AS $$
+  SELECT COUNT(*)::integer
+  FROM tickets t
+  JOIN statuses s ON s.id = t.status_id
+  WHERE t.assignee_id = p_agent_id
+    AND NOT s.is_closed
+    AND t.resolved_at IS NULL;
+$$ LANGUAGE sql STABLE;
+
+-- Function listing the agents a rule may assign to, with their open ticket counts
+CREATE OR REPLACE FUNCTION eligible_agents(p_team text)
+RETURNS TABLE (agent_id uuid, agent_name text, open_count integer) AS $$
+  SELECT a.id, a.name, agent_open_ticket_count(a.id)
+  FROM agents a
+  WHERE a.is_active
+    AND a.is_available
+    AND (p_team = '' OR a.team = p_team)
+    AND (a.max_open_tickets IS NULL OR agent_open_ticket_count(a.id) < a.max_open_tickets);
+$$ LANGUAGE sql STABLE;
+
+-- Trigger to auto-assign new tickets
+CREATE OR REPLACE FUNCTION run_auto_assignment()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule assignment_rules;
+  v_agent_id uuid;
+  v_agent_name text;
+  v_open_count integer;
+  v_reason text;
+BEGIN
+  IF NEW.assignee_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR rule IN
+    SELECT *
+    FROM assignment_rules
+    WHERE is_enabled
+      AND (category_id IS NULL OR category_id = NEW.category_id)
+    ORDER BY category_id IS NULL, position, created_at
+    FOR UPDATE
+  LOOP
+    v_agent_id := NULL;
+
+    IF rule.strategy = 'fixed' THEN
+      SELECT agent_id, agent_name, open_count INTO v_agent_id, v_agent_name, v_open_count
+      FROM eligible_agents(rule.team)
+      WHERE agent_id = rule.agent_id;
+      v_reason := 'Fixed owner for this rule';
+
+    ELSIF rule.strategy = 'least_loaded' THEN
+      SELECT agent_id, agent_name, open_count INTO v_agent_id, v_agent_name, v_open_count
+      FROM eligible_agents(rule.team)
+      ORDER BY open_count, agent_name, agent_id
+      LIMIT 1;
+      v_reason := 'Fewest open tickets';
+
+    ELSIF rule.strategy = 'round_robin' THEN
+      -- Next agent after the cursor in name order, wrapping to the first
+      SELECT e.agent_id, e.agent_name, e.open_count INTO v_agent_id, v_agent_name, v_open_count
+      FROM eligible_agents(rule.team) e
+      ORDER BY
+        (e.agent_name, e.agent_id) <= (
+          SELECT a.name, a.id FROM agents a WHERE a.id = rule.last_agent_id
+        ) IS TRUE,
+        e.agent_name,
+        e.agent_id
+      LIMIT 1;
+      v_reason := 'Next in rotation';
+    END IF;
+
+    IF v_agent_id IS NOT NULL THEN
+      UPDATE assignment_rules SET last_agent_id = v_agent_id WHERE id = rule.id;
+
+      -- service_desk.auto_assigning tells update triggers this is still part
+      -- of filing the ticket rather than a later change
+      PERFORM set_config('service_desk.actor', 'Auto-assignment: ' || rule.name, true);
+      PERFORM set_config('service_desk.auto_assigning', 'on', true);
+      UPDATE tickets SET assignee_id = v_agent_id WHERE id = NEW.id;
+      PERFORM set_config('service_desk.auto_assigning', '', true);
+      PERFORM set_config('service_desk.actor', '', true);
+
+      INSERT INTO assignment_log (ticket_id, rule_id, rule_name, strategy, agent_id, reason)
+      VALUES (
+        NEW.id,
+        rule.id,
+        rule.name,
+        rule.strategy,
+        v_agent_id,
+        v_reason || ' (' || v_agent_name || ' had ' || v_open_count || ' open)'
+      );
+
+      RETURN NEW;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs after trigger_record_ticket_events (triggers fire in name order), so
+-- the ticket's "created" entry comes before the assignment in its history
+CREATE TRIGGER trigger_run_auto_assignment
+  AFTER INSERT ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION run_auto_assignment();
+
+-- Ticket history honours an actor name set by system triggers
+CREATE OR REPLACE FUNCTION current_actor_name()
+RETURNS text AS $$
+  SELECT COALESCE(
+    NULLIF(current_setting('service_desk.actor', true), ''),
+    (SELECT COALESCE(NULLIF(full_name, ''), email) FROM profiles WHERE id = auth.uid()),
+    'System'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_ticket_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_name text := current_actor_name();
+BEGIN
+  -- Changes made on a system actor's behalf aren't attributed to the session user
+  IF NULLIF(current_setting('service_desk.actor', true), '') IS NOT NULL THEN
+    v_actor_id := NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO ticket_events (ticket_id, event_type, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'created',
+      (SELECT name FROM statuses WHERE id = NEW.status_id),
+      v_actor_id,
+      v_actor_name
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status_id IS DISTINCT FROM OLD.status_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'status_changed',
+      (SELECT name FROM statuses WHERE id = OLD.status_id),
+      (SELECT name FROM statuses WHERE id = NEW.status_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  IF NEW.priority_id IS DISTINCT FROM OLD.priority_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'priority_changed',
+      (SELECT name FROM priorities WHERE id = OLD.priority_id),
+      (SELECT name FROM priorities WHERE id = NEW.priority_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  IF NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'category_changed',
+      (SELECT name FROM categories WHERE id = OLD.category_id),
+      (SELECT name FROM categories WHERE id = NEW.category_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    INSERT INTO ticket_events (ticket_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id,
+      'assignee_changed',
+      (SELECT name FROM agents WHERE id = OLD.assignee_id),
+      (SELECT name FROM agents WHERE id = NEW.assignee_id),
+      v_actor_id,
+      v_actor_name
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function for agents to mark themselves available or away
+CREATE OR REPLACE FUNCTION set_my_availability(p_is_available boolean)
+RETURNS void AS $$
+BEGIN
+  UPDATE agents SET is_available = p_is_available WHERE profile_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE assignment_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assignment_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for assignment_rules
+CREATE POLICY "Agents can view assignment rules"
+  ON assignment_rules FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Admins can create assignment rules"
+  ON assignment_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update assignment rules"
+  ON assignment_rules FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete assignment rules"
+  ON assignment_rules FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for assignment_log (read-only)
+CREATE POLICY "Agents can view the assignment log"
+  ON assignment_log FOR SELECT
+  TO authenticated
+  USING (is_agent());
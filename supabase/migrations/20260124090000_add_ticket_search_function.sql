@@ -0,0 +1,77 @@
+/*
+  # Server-Side Ticket Search
+
+  1. New Functions
+    - `search_tickets(p_search, p_category_id, p_priority_id, p_status_id,
+      p_sort, p_ascending)` - Returns the tickets matching the filters in the
+      requested order. Pagination and total counts come from PostgREST
+      (`Range` / `Prefer: count=exact`), and relations can be embedded on the
+      result like on the `tickets` table
+
+  2. Indexes
+    - Trigram indexes so the substring search on title, description,
+      requester name and ticket number can use an index
+
+  3. Important Notes
+    - The function runs with the caller's rights, so RLS still decides which
+      tickets are visible
+    - `p_sort` is one of ticket_number, title, category, priority, status,
+      assignee, sla, requester or created_at; anything else falls back to
+      created_at. Ties are broken by newest first
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_title_trgm ON tickets USING gin (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tickets_description_trgm ON tickets USING gin (description gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tickets_requester_trgm ON tickets USING gin (requester_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tickets_number_trgm ON tickets USING gin (ticket_number gin_trgm_ops);
+
+-- Function to filter and sort tickets in the database
+CREATE OR REPLACE FUNCTION search_tickets(
+  p_search text DEFAULT '',
+  p_category_id uuid DEFAULT NULL,
+  p_priority_id uuid DEFAULT NULL,
+  p_status_id uuid DEFAULT NULL,
+  p_sort text DEFAULT 'created_at',
+  p_ascending boolean DEFAULT false
+)
+RETURNS SETOF tickets AS $$
+DECLARE
+  v_sort_expression text;
+  v_pattern text;
+BEGIN
+  v_sort_expression := CASE p_sort
+    WHEN 'ticket_number' THEN 't.ticket_number'
+    WHEN 'title' THEN 'LOWER(t.title)'
+    WHEN 'category' THEN 'LOWER(c.name)'
+    WHEN 'priority' THEN 'p.level'
+    WHEN 'status' THEN 's."order"'
+    WHEN 'assignee' THEN 'LOWER(a.name)'
+    WHEN 'sla' THEN 't.resolution_due_at'
+    WHEN 'requester' THEN 'LOWER(t.requester_name)'
+    ELSE 't.created_at'
+  END;
+
+  -- Escape LIKE wildcards so the search term is matched literally
+  v_pattern := '%' || replace(replace(replace(COALESCE(TRIM(p_search), ''), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  RETURN QUERY EXECUTE format(
+    'SELECT t.*
+     FROM tickets t
+     JOIN categories c ON c.id = t.category_id
+     JOIN priorities p ON p.id = t.priority_id
+     JOIN statuses s ON s.id = t.status_id
+     LEFT JOIN agents a ON a.id = t.assignee_id
+     WHERE ($1 = '''' OR t.ticket_number ILIKE $2 OR t.title ILIKE $2
+            OR t.description ILIKE $2 OR t.requester_name ILIKE $2)
+       AND ($3 IS NULL OR t.category_id = $3)
+       AND ($4 IS NULL OR t.priority_id = $4)
+       AND ($5 IS NULL OR t.status_id = $5)
+     ORDER BY %s %s NULLS LAST, t.created_at DESC, t.id',
+    v_sort_expression,
+    CASE WHEN p_ascending THEN 'ASC' ELSE 'DESC' END
+  )
+  USING COALESCE(TRIM(p_search), ''), v_pattern, p_category_id, p_priority_id, p_status_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
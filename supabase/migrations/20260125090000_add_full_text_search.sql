@@ -0,0 +1,158 @@
+/*
+  # Full-Text Ticket Search
+
+  1. New Functions
+    - `ticket_search_document(title, description, requester_name, ticket_number)`
+      - Weighted `tsvector` for a ticket: title and number (A), description (B),
+        requester (C)
+    - `ticket_search_snippets(p_search, p_ticket_ids)` - Relevance rank and
+      highlighted snippets for one page of results. Matches are wrapped in
+      ⟦ and ⟧ so the client can highlight them without rendering HTML
+
+  2. Modified Functions
+    - `search_tickets` now matches `p_search` as a web-style query (quoted
+      phrases, `or`, `-word`) against ticket fields and comment text, and
+      accepts assignee filters. `p_sort = 'relevance'` orders by rank
+
+  3. Indexes
+    - GIN expression indexes over the ticket search document and
+      `ticket_comments.comment`
+
+  4. Important Notes
+    - Both functions run with the caller's rights: a requester never matches
+      (or sees snippets from) internal notes
+    - Ticket numbers are also matched as a plain substring, since
+      `SD-20260116-0003` doesn't tokenize into something people type
+    - `p_assignee = 'me'` means the caller's agent record and
+      `p_assignee = 'none'` means unassigned; anything else is an agent id
+*/
+
+-- Function building the search document for a ticket
+CREATE OR REPLACE FUNCTION ticket_search_document(
+  p_title text,
+  p_description text,
+  p_requester_name text,
+  p_ticket_number text
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english'::regconfig, COALESCE(p_title, '')), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, COALESCE(p_ticket_number, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(p_description, '')), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, COALESCE(p_requester_name, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_search_document ON tickets
+  USING gin (ticket_search_document(title, description, requester_name, ticket_number));
+
+CREATE INDEX IF NOT EXISTS idx_comments_search_document ON ticket_comments
+  USING gin (to_tsvector('english'::regconfig, comment));
+
+-- Replace the substring search with full-text search
+DROP FUNCTION IF EXISTS search_tickets(text, uuid, uuid, uuid, text, boolean);
+
+CREATE OR REPLACE FUNCTION search_tickets(
+  p_search text DEFAULT '',
+  p_category_id uuid DEFAULT NULL,
+  p_priority_id uuid DEFAULT NULL,
+  p_status_id uuid DEFAULT NULL,
+  p_assignee text DEFAULT NULL,
+  p_sort text DEFAULT 'created_at',
+  p_ascending boolean DEFAULT false
+)
+RETURNS SETOF tickets AS $$
+DECLARE
+  v_search text := COALESCE(TRIM(p_search), '');
+  v_query tsquery;
+  v_pattern text;
+  v_assignee_id uuid;
+  v_sort_expression text;
+BEGIN
+  IF v_search <> '' THEN
+    v_query := websearch_to_tsquery('english', v_search);
+  END IF;
+
+  -- Escape LIKE wildcards so the ticket number is matched literally
+  v_pattern := '%' || replace(replace(replace(v_search, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  IF p_assignee = 'me' THEN
+    SELECT id INTO v_assignee_id FROM agents WHERE profile_id = auth.uid();
+    -- Callers without an agent record have nothing assigned to them
+    v_assignee_id := COALESCE(v_assignee_id, '00000000-0000-0000-0000-000000000000'::uuid);
+  ELSIF p_assignee IS NOT NULL AND p_assignee <> 'none' THEN
+    v_assignee_id := p_assignee::uuid;
+  END IF;
+
+  v_sort_expression := CASE p_sort
+    WHEN 'ticket_number' THEN 't.ticket_number'
+    WHEN 'title' THEN 'LOWER(t.title)'
+    WHEN 'category' THEN 'LOWER(c.name)'
+    WHEN 'priority' THEN 'p.level'
+    WHEN 'status' THEN 's."order"'
+    WHEN 'assignee' THEN 'LOWER(a.name)'
+    WHEN 'sla' THEN 't.resolution_due_at'
+    WHEN 'requester' THEN 'LOWER(t.requester_name)'
+    ELSE 't.created_at'
+  END;
+
+  IF p_sort = 'relevance' AND v_query IS NOT NULL THEN
+    v_sort_expression := 'ts_rank(ticket_search_document(t.title, t.description, t.requester_name, t.ticket_number), $2)';
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT t.*
+     FROM tickets t
+     JOIN categories c ON c.id = t.category_id
+     JOIN priorities p ON p.id = t.priority_id
+     JOIN statuses s ON s.id = t.status_id
+     LEFT JOIN agents a ON a.id = t.assignee_id
+     WHERE ($1 = ''''
+            OR t.ticket_number ILIKE $3
+            OR ticket_search_document(t.title, t.description, t.requester_name, t.ticket_number) @@ $2
+            OR EXISTS (
+              SELECT 1 FROM ticket_comments tc
+              WHERE tc.ticket_id = t.id
+                AND to_tsvector(''english''::regconfig, tc.comment) @@ $2
+            ))
+       AND ($4 IS NULL OR t.category_id = $4)
+       AND ($5 IS NULL OR t.priority_id = $5)
+       AND ($6 IS NULL OR t.status_id = $6)
+       AND ($7 IS NULL OR ($7 = ''none'' AND t.assignee_id IS NULL) OR t.assignee_id = $8)
+     ORDER BY %s %s NULLS LAST, t.created_at DESC, t.id',
+    v_sort_expression,
+    CASE WHEN p_ascending AND p_sort <> 'relevance' THEN 'ASC' ELSE 'DESC' END
+  )
+  USING v_search, v_query, v_pattern, p_category_id, p_priority_id, p_status_id, p_assignee, v_assignee_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function returning rank and highlighted snippets for a page of results
+CREATE OR REPLACE FUNCTION ticket_search_snippets(p_search text, p_ticket_ids uuid[])
+RETURNS TABLE (
+  ticket_id uuid,
+  rank real,
+  title_snippet text,
+  description_snippet text,
+  comment_snippet text
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', COALESCE(p_search, '')) AS query
+  )
+  SELECT
+    t.id,
+    ts_rank(ticket_search_document(t.title, t.description, t.requester_name, t.ticket_number), q.query),
+    ts_headline('english', t.title, q.query, 'StartSel=⟦, StopSel=⟧, HighlightAll=true'),
+    CASE WHEN to_tsvector('english'::regconfig, t.description) @@ q.query
+      THEN ts_headline('english', t.description, q.query, 'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=20, MinWords=8')
+    END,
+    (
+      SELECT ts_headline('english', tc.comment, q.query, 'StartSel=⟦, StopSel=⟧, MaxFragments=1, MaxWords=20, MinWords=8')
+      FROM ticket_comments tc
+      WHERE tc.ticket_id = t.id
+        AND to_tsvector('english'::regconfig, tc.comment) @@ q.query
+      ORDER BY ts_rank(to_tsvector('english'::regconfig, tc.comment), q.query) DESC
+      LIMIT 1
+    )
+  FROM tickets t, q
+  WHERE t.id = ANY(p_ticket_ids);
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,175 @@
+/*
+  # Saved Ticket Views
+
+  1. New Tables
+    - `saved_views`
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid, foreign key, nullable) - Profile that created the
+        view; NULL for the built-in views
+      - `name` (text)
+      - `is_shared` (boolean) - Shared views are listed for every agent
+      - `filters` (jsonb) - `q`, `category_id`, `priority_id` and `status_id`
+        as set in the ticket list
+      - `sort_column` (text)
+      - `sort_ascending` (boolean)
+      - `columns` (text[]) - Optional ticket list columns to show; an empty
+        array means the default set
+      - `position` (integer) - Order in the sidebar
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Modified Functions
+    - `search_tickets` accepts `p_created_after`, `p_created_before`,
+      `p_updated_after` and `p_updated_before`
+
+  3. Security
+    - Everyone sees their own views; agents also see shared ones
+    - Only agents can share a view, and only admins can edit or delete
+      someone else's shared view
+
+  4. Important Notes
+    - Views store the search text as typed, tokens included. `assignee:me`
+      and relative dates such as `created:7d` are resolved each time the view
+      is opened, so one shared view works for everyone
+*/
+
+-- Create saved_views table
+CREATE TABLE IF NOT EXISTS saved_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES profiles(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name text NOT NULL CHECK (TRIM(name) <> ''),
+  is_shared boolean NOT NULL DEFAULT false,
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  sort_column text NOT NULL DEFAULT 'relevance',
+  sort_ascending boolean NOT NULL DEFAULT false,
+  columns text[] NOT NULL DEFAULT '{}',
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  -- Built-in views have no owner, so they have to be shared to be seen
+  CHECK (owner_id IS NOT NULL OR is_shared)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_owner ON saved_views(owner_id);
+
+CREATE TRIGGER trigger_update_saved_view_timestamp
+  BEFORE UPDATE ON saved_views
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Enable RLS
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and shared views"
+  ON saved_views FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid() OR (is_shared AND is_agent()));
+
+CREATE POLICY "Users can create their own views"
+  ON saved_views FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND (NOT is_shared OR is_agent()));
+
+CREATE POLICY "Users can update their own views"
+  ON saved_views FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid() OR (is_shared AND is_admin()))
+  WITH CHECK ((owner_id = auth.uid() AND (NOT is_shared OR is_agent())) OR (is_shared AND is_admin()));
+
+CREATE POLICY "Users can delete their own views"
+  ON saved_views FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid() OR (is_shared AND is_admin()));
+
+-- Built-in shared views
+INSERT INTO saved_views (owner_id, name, is_shared, filters, position) VALUES
+  (NULL, 'My open tickets', true, '{"q": "assignee:me status:open"}', 0),
+  (NULL, 'Unassigned', true, '{"q": "assignee:none"}', 1),
+  (NULL, 'Created today', true, '{"q": "created:today"}', 2);
+
+-- Add date range filters to the ticket search
+DROP FUNCTION IF EXISTS search_tickets(text, uuid, uuid, uuid, text, text, boolean);
+
+CREATE OR REPLACE FUNCTION search_tickets(
+  p_search text DEFAULT '',
+  p_category_id uuid DEFAULT NULL,
+  p_priority_id uuid DEFAULT NULL,
+  p_status_id uuid DEFAULT NULL,
+  p_assignee text DEFAULT NULL,
+  p_sort text DEFAULT 'created_at',
+  p_ascending boolean DEFAULT false,
+  p_created_after timestamptz DEFAULT NULL,
+  p_created_before timestamptz DEFAULT NULL,
+  p_updated_after timestamptz DEFAULT NULL,
+  p_updated_before timestamptz DEFAULT NULL
+)
+RETURNS SETOF tickets AS $$
+DECLARE
+  v_search text := COALESCE(TRIM(p_search), '');
+  v_query tsquery;
+  v_pattern text;
+  v_assignee_id uuid;
+  v_sort_expression text;
+BEGIN
+  IF v_search <> '' THEN
+    v_query := websearch_to_tsquery('english', v_search);
+  END IF;
+
+  -- Escape LIKE wildcards so the ticket number is matched literally
+  v_pattern := '%' || replace(replace(replace(v_search, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  IF p_assignee = 'me' THEN
+    SELECT id INTO v_assignee_id FROM agents WHERE profile_id = auth.uid();
+    -- Callers without an agent record have nothing assigned to them
+    v_assignee_id := COALESCE(v_assignee_id, '00000000-0000-0000-0000-000000000000'::uuid);
+  ELSIF p_assignee IS NOT NULL AND p_assignee <> 'none' THEN
+    v_assignee_id := p_assignee::uuid;
+  END IF;
+
+  v_sort_expression := CASE p_sort
+    WHEN 'ticket_number' THEN 't.ticket_number'
+    WHEN 'title' THEN 'LOWER(t.title)'
+    WHEN 'category' THEN 'LOWER(c.name)'
+    WHEN 'priority' THEN 'p.level'
+    WHEN 'status' THEN 's."order"'
+    WHEN 'assignee' THEN 'LOWER(a.name)'
+    WHEN 'sla' THEN 't.resolution_due_at'
+    WHEN 'requester' THEN 'LOWER(t.requester_name)'
+    ELSE 't.created_at'
+  END;
+
+  IF p_sort = 'relevance' AND v_query IS NOT NULL THEN
+    v_sort_expression := 'ts_rank(ticket_search_document(t.title, t.description, t.requester_name, t.ticket_number), $2)';
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT t.*
+     FROM tickets t
+     JOIN categories c ON c.id = t.category_id
+     JOIN priorities p ON p.id = t.priority_id
+     JOIN statuses s ON s.id = t.status_id
+     LEFT JOIN agents a ON a.id = t.assignee_id
+     WHERE ($1 = ''''
+            OR t.ticket_number ILIKE $3
+            OR ticket_search_document(t.title, t.description, t.requester_name, t.ticket_number) @@ $2
+            OR EXISTS (
+              SELECT 1 FROM ticket_comments tc
+              WHERE tc.ticket_id = t.id
+                AND to_tsvector(''english''::regconfig, tc.comment) @@ $2
+            ))
+       AND ($4 IS NULL OR t.category_id = $4)
+       AND ($5 IS NULL OR t.priority_id = $5)
+       AND ($6 IS NULL OR t.status_id = $6)
+       AND ($7 IS NULL OR ($7 = ''none'' AND t.assignee_id IS NULL) OR t.assignee_id = $8)
+       AND ($9 IS NULL OR t.created_at >= $9)
+       AND ($10 IS NULL OR t.created_at < $10)
+       AND ($11 IS NULL OR t.updated_at >= $11)
+       AND ($12 IS NULL OR t.updated_at < $12)
+     ORDER BY %s %s NULLS LAST, t.created_at DESC, t.id',
+    v_sort_expression,
+    CASE WHEN p_ascending AND p_sort <> 'relevance' THEN 'ASC' ELSE 'DESC' END
+  )
+  USING v_search, v_query, v_pattern, p_category_id, p_priority_id, p_status_id, p_assignee, v_assignee_id,
+    p_created_after, p_created_before, p_updated_after, p_updated_before;
+END;
+$$ LANGUAGE plpgsql STABLE;
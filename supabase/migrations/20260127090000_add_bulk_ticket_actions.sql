@@ -0,0 +1,112 @@
+/*
+  # Bulk Ticket Actions
+
+  1. New Functions
+    - `bulk_update_tickets(p_ticket_ids, p_action, p_value, p_comment,
+      p_is_internal)` - Applies one action to many tickets in a single call
+      and returns a result row per ticket:
+      - `status` - `p_value` is a status id. `resolved_at` / `closed_at` are
+        stamped the same way as a status change from the ticket view
+      - `assignee` - `p_value` is an agent id, or NULL to unassign
+      - `priority` / `category` - `p_value` is the new id
+      - `comment` - adds `p_comment`, internal when `p_is_internal`
+      - `delete` - deletes the ticket
+
+  2. Security
+    - Runs with the caller's rights, so RLS still decides what each ticket
+      allows: agents can update and comment, only admins can delete
+
+  3. Important Notes
+    - Each ticket is applied in its own subtransaction. One failing ticket
+      (a deleted row, a permission error, a constraint) is reported in the
+      results without rolling back the others
+    - Ticket history and SLA triggers fire per ticket exactly as they do for
+      single updates
+*/
+
+CREATE OR REPLACE FUNCTION bulk_update_tickets(
+  p_ticket_ids uuid[],
+  p_action text,
+  p_value text DEFAULT NULL,
+  p_comment text DEFAULT NULL,
+  p_is_internal boolean DEFAULT false
+)
+RETURNS TABLE (ticket_id uuid, ticket_number text, success boolean, error text) AS $$
+#variable_conflict use_column
+DECLARE
+  v_ticket tickets;
+  v_status statuses;
+  v_ticket_id uuid;
+  v_rows integer;
+BEGIN
+  IF p_action NOT IN ('status', 'assignee', 'priority', 'category', 'comment', 'delete') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  IF p_action = 'status' THEN
+    SELECT * INTO v_status FROM statuses WHERE id = p_value::uuid;
+    IF v_status.id IS NULL THEN
+      RAISE EXCEPTION 'Status not found';
+    END IF;
+  ELSIF p_action IN ('priority', 'category') AND p_value IS NULL THEN
+    RAISE EXCEPTION 'A % is required', p_action;
+  ELSIF p_action = 'comment' AND TRIM(COALESCE(p_comment, '')) = '' THEN
+    RAISE EXCEPTION 'A comment is required';
+  END IF;
+
+  FOREACH v_ticket_id IN ARRAY p_ticket_ids LOOP
+    ticket_id := v_ticket_id;
+    ticket_number := NULL;
+    success := false;
+    error := NULL;
+
+    BEGIN
+      SELECT * INTO v_ticket FROM tickets t WHERE t.id = v_ticket_id;
+      IF v_ticket.id IS NULL THEN
+        error := 'Ticket not found';
+        RETURN NEXT;
+        CONTINUE;
+      END IF;
+      ticket_number := v_ticket.ticket_number;
+
+      CASE p_action
+        WHEN 'status' THEN
+          UPDATE tickets t
+          SET status_id = v_status.id,
+              resolved_at = CASE
+                WHEN v_status.name = 'Resolved' AND t.resolved_at IS NULL THEN now()
+                ELSE t.resolved_at
+              END,
+              closed_at = CASE
+                WHEN v_status.is_closed AND t.closed_at IS NULL THEN now()
+                ELSE t.closed_at
+              END
+          WHERE t.id = v_ticket_id;
+        WHEN 'assignee' THEN
+          UPDATE tickets t SET assignee_id = p_value::uuid WHERE t.id = v_ticket_id;
+        WHEN 'priority' THEN
+          UPDATE tickets t SET priority_id = p_value::uuid WHERE t.id = v_ticket_id;
+        WHEN 'category' THEN
+          UPDATE tickets t SET category_id = p_value::uuid WHERE t.id = v_ticket_id;
+        WHEN 'comment' THEN
+          INSERT INTO ticket_comments (ticket_id, comment, author_name, author_id, is_internal)
+          VALUES (v_ticket_id, p_comment, '', auth.uid(), p_is_internal);
+        WHEN 'delete' THEN
+          DELETE FROM tickets t WHERE t.id = v_ticket_id;
+      END CASE;
+
+      -- RLS filters rows out silently rather than raising
+      GET DIAGNOSTICS v_rows = ROW_COUNT;
+      IF v_rows = 0 THEN
+        error := 'You do not have permission to change this ticket';
+      ELSE
+        success := true;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
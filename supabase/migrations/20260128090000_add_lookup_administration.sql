@@ -0,0 +1,217 @@
+/*
+  # Administration of Categories, Priorities and Statuses
+
+  1. Modified Tables
+    - `categories`
+      - `position` (integer) - Display order, backfilled alphabetically
+      - `is_archived` (boolean) - Hidden from pickers, kept on old tickets
+    - `priorities`
+      - `is_archived` (boolean)
+    - `statuses`
+      - `is_archived` (boolean)
+      - `is_default` (boolean) - Status new tickets start in
+
+  2. New Functions
+    - `delete_lookup_value(p_kind, p_id, p_replacement_id)` - Moves every
+      ticket using a category, priority or status to the replacement, then
+      deletes the value. `p_kind` is category, priority or status
+    - `lookup_usage()` - Ticket count per category, priority and status
+    - `set_default_status(p_status_id)` - Makes one status the intake default
+    - `set_default_ticket_status()` - Starts new tickets in the default
+      status when none is given
+
+  3. Security
+    - Admins can create, update and delete categories, priorities and
+      statuses; everyone can still read them
+
+  4. Important Notes
+    - Exactly one active status is the default. This is checked at commit,
+      so switching the default can be done in one transaction
+    - Values still used by tickets can't be deleted directly (the foreign
+      keys refuse); they have to go through `delete_lookup_value` with a
+      replacement. SLA policies and assignment rules scoped to a deleted
+      category or priority are removed with it
+    - The lookup tables are added to the realtime publication so pickers
+      pick up changes without a reload
+*/
+
+-- Add archiving and ordering
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 0;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false;
+ALTER TABLE priorities ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false;
+ALTER TABLE statuses ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false;
+ALTER TABLE statuses ADD COLUMN IF NOT EXISTS is_default boolean NOT NULL DEFAULT false;
+
+UPDATE categories c
+SET position = ranked.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (ORDER BY name) - 1 AS position
+  FROM categories
+) ranked
+WHERE ranked.id = c.id;
+
+UPDATE statuses SET is_default = true
+WHERE id = (
+  SELECT id FROM statuses
+  WHERE NOT is_closed
+  ORDER BY (name = 'Open') DESC, "order"
+  LIMIT 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_statuses_single_default ON statuses (is_default) WHERE is_default;
+
+-- Function to check that exactly one active status is the default
+CREATE OR REPLACE FUNCTION check_default_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_defaults integer;
+BEGIN
+  SELECT COUNT(*) INTO v_defaults FROM statuses WHERE is_default AND NOT is_archived;
+  IF v_defaults <> 1 THEN
+    RAISE EXCEPTION 'Exactly one active status must be the default for new tickets';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER trigger_check_default_status
+  AFTER INSERT OR UPDATE OR DELETE ON statuses
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION check_default_status();
+
+-- Trigger to start new tickets in the default status
+CREATE OR REPLACE FUNCTION set_default_ticket_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status_id IS NULL THEN
+    SELECT id INTO NEW.status_id FROM statuses WHERE is_default AND NOT is_archived;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_default_ticket_status
+  BEFORE INSERT ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_default_ticket_status();
+
+-- Function to move the default to another status in one transaction
+CREATE OR REPLACE FUNCTION set_default_status(p_status_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change the default status';
+  END IF;
+
+  UPDATE statuses SET is_default = false WHERE is_default AND id <> p_status_id;
+  UPDATE statuses SET is_default = true WHERE id = p_status_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to reassign tickets away from a value and delete it
+CREATE OR REPLACE FUNCTION delete_lookup_value(p_kind text, p_id uuid, p_replacement_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_table text;
+  v_column text;
+  v_moved integer := 0;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can delete categories, priorities and statuses';
+  END IF;
+
+  CASE p_kind
+    WHEN 'category' THEN v_table := 'categories'; v_column := 'category_id';
+    WHEN 'priority' THEN v_table := 'priorities'; v_column := 'priority_id';
+    WHEN 'status' THEN v_table := 'statuses'; v_column := 'status_id';
+    ELSE RAISE EXCEPTION 'Unknown lookup kind: %', p_kind;
+  END CASE;
+
+  IF p_replacement_id = p_id THEN
+    RAISE EXCEPTION 'A value can''t replace itself';
+  END IF;
+
+  IF p_replacement_id IS NOT NULL THEN
+    EXECUTE format('SELECT 1 FROM %I WHERE id = $1', v_table) USING p_replacement_id;
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+    IF v_moved = 0 THEN
+      RAISE EXCEPTION 'Replacement not found';
+    END IF;
+
+    EXECUTE format('UPDATE tickets SET %I = $1 WHERE %I = $2', v_column, v_column)
+      USING p_replacement_id, p_id;
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+  END IF;
+
+  -- Any tickets left behind make the foreign key refuse the delete
+  EXECUTE format('DELETE FROM %I WHERE id = $1', v_table) USING p_id;
+
+  RETURN v_moved;
+EXCEPTION
+  WHEN foreign_key_violation THEN
+    RAISE EXCEPTION 'This % is still used by tickets; choose a replacement first', p_kind;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function counting the tickets that use each value
+CREATE OR REPLACE FUNCTION lookup_usage()
+RETURNS TABLE (kind text, id uuid, ticket_count bigint) AS $$
+  SELECT 'category', category_id, COUNT(*) FROM tickets GROUP BY category_id
+  UNION ALL
+  SELECT 'priority', priority_id, COUNT(*) FROM tickets GROUP BY priority_id
+  UNION ALL
+  SELECT 'status', status_id, COUNT(*) FROM tickets GROUP BY status_id;
+$$ LANGUAGE sql STABLE;
+
+-- RLS Policies for managing lookups
+CREATE POLICY "Admins can create categories"
+  ON categories FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update categories"
+  ON categories FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete categories"
+  ON categories FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can create priorities"
+  ON priorities FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update priorities"
+  ON priorities FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete priorities"
+  ON priorities FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can create statuses"
+  ON statuses FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update statuses"
+  ON statuses FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete statuses"
+  ON statuses FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Stream lookup changes to open pickers
+ALTER PUBLICATION supabase_realtime ADD TABLE categories, priorities, statuses;
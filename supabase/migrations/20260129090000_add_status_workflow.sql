@@ -0,0 +1,390 @@
+/*
+  # Status Workflow
+
+  1. New Tables
+    - `status_transitions`
+      - `id` (uuid, primary key)
+      - `from_status_id` (uuid, foreign key) - Status the ticket is in
+      - `to_status_id` (uuid, foreign key) - Status it may move to
+      - `requires_comment` (boolean) - A comment has to be added with the move,
+        e.g. a resolution note
+      - `requires_assignee` (boolean) - The ticket has to be assigned first
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `statuses`
+      - `is_resolved` (boolean) - Entering the status stamps `resolved_at`
+      - `is_paused` (boolean) - The resolution clock stops while a ticket
+        is in the status
+    - `tickets`
+      - `paused_at` (timestamptz, nullable) - When the current pause began
+      - `paused_seconds` (integer) - Total time spent paused so far
+
+  3. New Functions
+    - `change_ticket_status(p_ticket_id, p_status_id, p_comment,
+      p_is_internal)` - Adds the comment, if any, and moves the ticket in one
+      transaction, so transitions that require a comment can be made
+
+  4. Modified Functions
+    - `bulk_update_tickets` adds `p_comment` before a status change, and no
+      longer stamps `resolved_at` / `closed_at` itself
+    - `set_ticket_sla_targets` adds the time spent paused to the resolution
+      deadline
+    - `delete_lookup_value` moves tickets off a deleted status without
+      checking the workflow
+
+  5. Security
+    - Enable RLS on `status_transitions`; everyone can read it and admins
+      manage it
+
+  6. Important Notes
+    - A status change is refused unless a transition from the old to the new
+      status exists. This is checked by a trigger, so it holds for the ticket
+      view, the board, bulk actions and direct API updates alike
+    - A required comment must be written in the same transaction as the move
+    - The initial status is the `is_default` status from the lookup admin.
+      Requesters always file into it; agents may file into any status
+    - Lifecycle stamps are now set by the trigger from the status flags
+      rather than from status names, and only the first time
+    - Leaving a paused status pushes `resolution_due_at` back by the length
+      of the pause. Tickets already in a paused status are treated as
+      paused from this migration on
+    - The seeded workflow matches the seeded statuses: moves between Open,
+      In Progress and Waiting are free, resolving or closing needs a note,
+      starting work needs an assignee, and Resolved or Closed tickets can be
+      reopened
+*/
+
+-- Add lifecycle flags
+ALTER TABLE statuses ADD COLUMN IF NOT EXISTS is_resolved boolean NOT NULL DEFAULT false;
+ALTER TABLE statuses ADD COLUMN IF NOT EXISTS is_paused boolean NOT NULL DEFAULT false;
+
+UPDATE statuses SET is_resolved = true WHERE name = 'Resolved';
+UPDATE statuses SET is_paused = true WHERE name = 'Waiting';
+
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS paused_at timestamptz;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS paused_seconds integer NOT NULL DEFAULT 0;
+
+-- Tickets already paused start their pause now, so leaving it counts
+UPDATE tickets
+SET paused_at = now()
+WHERE paused_at IS NULL
+  AND status_id IN (SELECT id FROM statuses WHERE is_paused);
+
+-- Create status_transitions table
+CREATE TABLE IF NOT EXISTS status_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_status_id uuid REFERENCES statuses(id) ON DELETE CASCADE NOT NULL,
+  to_status_id uuid REFERENCES statuses(id) ON DELETE CASCADE NOT NULL,
+  requires_comment boolean NOT NULL DEFAULT false,
+  requires_assignee boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (from_status_id, to_status_id),
+  CHECK (from_status_id <> to_status_id)
+);
+
+-- Seed the workflow for the default statuses
+INSERT INTO status_transitions (from_status_id, to_status_id, requires_comment, requires_assignee)
+SELECT f.id, t.id, v.requires_comment, v.requires_assignee
+FROM (VALUES
+  ('Open', 'In Progress', false, true),
+  ('Open', 'Waiting', false, false),
+  ('Open', 'Resolved', true, false),
+  ('Open', 'Closed', true, false),
+  ('In Progress', 'Open', false, false),
+  ('In Progress', 'Waiting', false, false),
+  ('In Progress', 'Resolved', true, false),
+  ('In Progress', 'Closed', true, false),
+  ('Waiting', 'Open', false, false),
+  ('Waiting', 'In Progress', false, true),
+  ('Waiting', 'Resolved', true, false),
+  ('Waiting', 'Closed', true, false),
+  ('Resolved', 'Closed', false, false),
+  ('Resolved', 'In Progress', false, true),
+  ('Resolved', 'Open', false, false),
+  ('Closed', 'Open', false, false)
+) AS v(from_name, to_name, requires_comment, requires_assignee)
+JOIN statuses f ON f.name = v.from_name
+JOIN statuses t ON t.name = v.to_name
+ON CONFLICT (from_status_id, to_status_id) DO NOTHING;
+
+-- Trigger to enforce the workflow and apply the lifecycle flags
+CREATE OR REPLACE FUNCTION apply_status_lifecycle()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_from statuses;
+  v_to statuses;
+  v_transition status_transitions;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status_id IS NOT DISTINCT FROM OLD.status_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Requesters' tickets start in the initial status, whatever they sent
+  IF TG_OP = 'INSERT' AND auth.uid() IS NOT NULL AND NOT is_agent() THEN
+    SELECT id INTO NEW.status_id FROM statuses WHERE is_default AND NOT is_archived;
+  END IF;
+
+  SELECT * INTO v_to FROM statuses WHERE id = NEW.status_id;
+
+  -- Set by delete_lookup_value while it moves tickets off a deleted status
+  IF TG_OP = 'UPDATE' AND current_setting('app.bypass_workflow', true) IS DISTINCT FROM 'on' THEN
+    SELECT * INTO v_from FROM statuses WHERE id = OLD.status_id;
+    SELECT * INTO v_transition
+    FROM status_transitions
+    WHERE from_status_id = OLD.status_id AND to_status_id = NEW.status_id;
+
+    IF v_transition.id IS NULL THEN
+      RAISE EXCEPTION 'Tickets can''t move from % to %', v_from.name, v_to.name;
+    END IF;
+
+    IF v_transition.requires_assignee AND NEW.assignee_id IS NULL THEN
+      RAISE EXCEPTION 'Assign the ticket before moving it to %', v_to.name;
+    END IF;
+
+    -- now() is the transaction start, which every comment written in this
+    -- transaction shares as its created_at
+    IF v_transition.requires_comment AND NOT EXISTS (
+      SELECT 1 FROM ticket_comments c WHERE c.ticket_id = NEW.id AND c.created_at = now()
+    ) THEN
+      RAISE EXCEPTION 'A comment is required to move to %', v_to.name;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.paused_at IS NOT NULL AND NOT v_to.is_paused THEN
+    NEW.paused_seconds := OLD.paused_seconds + EXTRACT(EPOCH FROM now() - OLD.paused_at)::integer;
+    NEW.resolution_due_at := NEW.resolution_due_at + (now() - OLD.paused_at);
+    NEW.paused_at := NULL;
+  END IF;
+
+  IF v_to.is_paused AND NEW.paused_at IS NULL THEN
+    NEW.paused_at := now();
+  END IF;
+
+  IF v_to.is_resolved AND NEW.resolved_at IS NULL THEN
+    NEW.resolved_at := now();
+  END IF;
+
+  IF v_to.is_closed AND NEW.closed_at IS NULL THEN
+    NEW.closed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers run in name order, so this one sees the status filled in by
+-- trigger_set_default_ticket_status on insert
+CREATE TRIGGER trigger_status_lifecycle
+  BEFORE INSERT OR UPDATE ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_status_lifecycle();
+
+-- Recalculate SLA targets with the time spent paused
+CREATE OR REPLACE FUNCTION set_ticket_sla_targets()
+RETURNS TRIGGER AS $$
+DECLARE
+  policy sla_policies;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.priority_id IS NOT DISTINCT FROM OLD.priority_id
+    AND NEW.category_id IS NOT DISTINCT FROM OLD.category_id THEN
+    RETURN NEW;
+  END IF;
+
+  policy := find_sla_policy(NEW.priority_id, NEW.category_id);
+
+  IF policy.id IS NULL THEN
+    NEW.first_response_due_at := NULL;
+    NEW.resolution_due_at := NULL;
+  ELSE
+    NEW.first_response_due_at := COALESCE(NEW.created_at, NOW()) + make_interval(mins => policy.response_minutes);
+    NEW.resolution_due_at := COALESCE(NEW.created_at, NOW())
+      + make_interval(mins => policy.resolution_minutes)
+      + make_interval(secs => NEW.paused_seconds);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to change a ticket's status with an optional comment
+CREATE OR REPLACE FUNCTION change_ticket_status(
+  p_ticket_id uuid,
+  p_status_id uuid,
+  p_comment text DEFAULT NULL,
+  p_is_internal boolean DEFAULT false
+)
+RETURNS void AS $$
+DECLARE
+  v_rows integer;
+BEGIN
+  IF TRIM(COALESCE(p_comment, '')) <> '' THEN
+    INSERT INTO ticket_comments (ticket_id, comment, author_name, author_id, is_internal)
+    VALUES (p_ticket_id, p_comment, '', auth.uid(), p_is_internal);
+  END IF;
+
+  UPDATE tickets SET status_id = p_status_id WHERE id = p_ticket_id;
+
+  -- RLS filters rows out silently rather than raising
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows = 0 THEN
+    RAISE EXCEPTION 'You do not have permission to change this ticket';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Stamps now come from the lifecycle trigger; a note goes in before the move
+CREATE OR REPLACE FUNCTION bulk_update_tickets(
+  p_ticket_ids uuid[],
+  p_action text,
+  p_value text DEFAULT NULL,
+  p_comment text DEFAULT NULL,
+  p_is_internal boolean DEFAULT false
+)
+RETURNS TABLE (ticket_id uuid, ticket_number text, success boolean, error text) AS $$
+#variable_conflict use_column
+DECLARE
+  v_ticket tickets;
+  v_status statuses;
+  v_ticket_id uuid;
+  v_rows integer;
+BEGIN
+  IF p_action NOT IN ('status', 'assignee', 'priority', 'category', 'comment', 'delete') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  IF p_action = 'status' THEN
+    SELECT * INTO v_status FROM statuses WHERE id = p_value::uuid;
+    IF v_status.id IS NULL THEN
+      RAISE EXCEPTION 'Status not found';
+    END IF;
+  ELSIF p_action IN ('priority', 'category') AND p_value IS NULL THEN
+    RAISE EXCEPTION 'A % is required', p_action;
+  ELSIF p_action = 'comment' AND TRIM(COALESCE(p_comment, '')) = '' THEN
+    RAISE EXCEPTION 'A comment is required';
+  END IF;
+
+  FOREACH v_ticket_id IN ARRAY p_ticket_ids LOOP
+    ticket_id := v_ticket_id;
+    ticket_number := NULL;
+    success := false;
+    error := NULL;
+
+    BEGIN
+      SELECT * INTO v_ticket FROM tickets t WHERE t.id = v_ticket_id;
+      IF v_ticket.id IS NULL THEN
+        error := 'Ticket not found';
+        RETURN NEXT;
+        CONTINUE;
+      END IF;
+      ticket_number := v_ticket.ticket_number;
+
+      CASE p_action
+        WHEN 'status' THEN
+          IF TRIM(COALESCE(p_comment, '')) <> '' THEN
+            INSERT INTO ticket_comments (ticket_id, comment, author_name, author_id, is_internal)
+            VALUES (v_ticket_id, p_comment, '', auth.uid(), p_is_internal);
+          END IF;
+          UPDATE tickets t SET status_id = v_status.id WHERE t.id = v_ticket_id;
+        WHEN 'assignee' THEN
+          UPDATE tickets t SET assignee_id = p_value::uuid WHERE t.id = v_ticket_id;
+        WHEN 'priority' THEN
+          UPDATE tickets t SET priority_id = p_value::uuid WHERE t.id = v_ticket_id;
+        WHEN 'category' THEN
+          UPDATE tickets t SET category_id = p_value::uuid WHERE t.id = v_ticket_id;
+        WHEN 'comment' THEN
+          INSERT INTO ticket_comments (ticket_id, comment, author_name, author_id, is_internal)
+          VALUES (v_ticket_id, p_comment, '', auth.uid(), p_is_internal);
+        WHEN 'delete' THEN
+          DELETE FROM tickets t WHERE t.id = v_ticket_id;
+      END CASE;
+
+      -- RLS filters rows out silently rather than raising. Raising here
+      -- also undoes a note added ahead of a refused status change.
+      GET DIAGNOSTICS v_rows = ROW_COUNT;
+      IF v_rows = 0 THEN
+        RAISE EXCEPTION 'You do not have permission to change this ticket';
+      END IF;
+      success := true;
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reassigning tickets away from a deleted status skips the workflow
+CREATE OR REPLACE FUNCTION delete_lookup_value(p_kind text, p_id uuid, p_replacement_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_table text;
+  v_column text;
+  v_moved integer := 0;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can delete categories, priorities and statuses';
+  END IF;
+
+  CASE p_kind
+    WHEN 'category' THEN v_table := 'categories'; v_column := 'category_id';
+    WHEN 'priority' THEN v_table := 'priorities'; v_column := 'priority_id';
+    WHEN 'status' THEN v_table := 'statuses'; v_column := 'status_id';
+    ELSE RAISE EXCEPTION 'Unknown lookup kind: %', p_kind;
+  END CASE;
+
+  IF p_replacement_id = p_id THEN
+    RAISE EXCEPTION 'A value can''t replace itself';
+  END IF;
+
+  IF p_replacement_id IS NOT NULL THEN
+    EXECUTE format('SELECT 1 FROM %I WHERE id = $1', v_table) USING p_replacement_id;
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+    IF v_moved = 0 THEN
+      RAISE EXCEPTION 'Replacement not found';
+    END IF;
+
+    PERFORM set_config('app.bypass_workflow', 'on', true);
+    EXECUTE format('UPDATE tickets SET %I = $1 WHERE %I = $2', v_column, v_column)
+      USING p_replacement_id, p_id;
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+    PERFORM set_config('app.bypass_workflow', 'off', true);
+  END IF;
+
+  -- Any tickets left behind make the foreign key refuse the delete
+  EXECUTE format('DELETE FROM %I WHERE id = $1', v_table) USING p_id;
+
+  RETURN v_moved;
+EXCEPTION
+  WHEN foreign_key_violation THEN
+    RAISE EXCEPTION 'This % is still used by tickets; choose a replacement first', p_kind;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view status transitions"
+  ON status_transitions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can create status transitions"
+  ON status_transitions FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update status transitions"
+  ON status_transitions FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete status transitions"
+  ON status_transitions FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Stream workflow changes alongside the other lookups
+ALTER PUBLICATION supabase_realtime ADD TABLE status_transitions;
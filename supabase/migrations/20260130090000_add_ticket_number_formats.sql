@@ -0,0 +1,158 @@
+/*
+  # Configurable Ticket Numbering
+
+  1. New Tables
+    - `ticket_number_formats`
+      - `id` (uuid, primary key)
+      - `category_id` (uuid, foreign key, nullable) - Category the format
+        applies to; NULL is the format for every other category
+      - `prefix` (text) - Letters and digits before the first dash, e.g. IT
+      - `reset` (text) - When the counter starts again from 1: never, yearly
+        or daily
+      - `padding` (integer) - Minimum number of digits in the counter
+      - `created_at` (timestamptz)
+    - `ticket_number_counters`
+      - `prefix` (text)
+      - `period` (text) - YYYYMMDD for daily formats, YYYY for yearly ones and
+        empty for formats that never reset
+      - `last_value` (bigint) - Last number handed out
+      - Primary key on (`prefix`, `period`)
+
+  2. Modified Functions
+    - `generate_ticket_number(p_category_id)` - Takes the next value from the
+      counter for the category's format. Numbers look like PREFIX-PERIOD-0001,
+      or PREFIX-0001 when the format never resets
+    - `set_ticket_number()` passes the new ticket's category, and always
+      assigns the number, ignoring any the client sent
+
+  3. Security
+    - Enable RLS on both tables. Agents can read the formats and admins
+      manage them; the counters are only touched by `generate_ticket_number`
+    - `generate_ticket_number` can't be called through the API; only the
+      insert trigger, which runs as the owner, uses it. Together with the
+      trigger overwriting client-supplied numbers, nobody can burn numbers or
+      claim one ahead of the counter
+
+  4. Important Notes
+    - The old generator counted today's tickets and added one, so concurrent
+      inserts could get the same number and deleted tickets freed theirs up
+      again. Counters are incremented with a row lock and never go back down
+    - Categories sharing a prefix share a counter, so numbers stay unique
+    - A ticket keeps its number when its category changes
+    - The default format reproduces the existing SD-YYYYMMDD-0001 numbers,
+      and counters are seeded from the highest existing number per day
+*/
+
+-- Create ticket_number_formats table
+CREATE TABLE IF NOT EXISTS ticket_number_formats (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  prefix text NOT NULL CHECK (prefix ~ '^[A-Za-z0-9]+$'),
+  reset text NOT NULL DEFAULT 'daily' CHECK (reset IN ('never', 'yearly', 'daily')),
+  padding integer NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 10),
+  created_at timestamptz DEFAULT now()
+);
+
+-- One format per category, with NULL category treated as a value
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_number_formats_scope
+  ON ticket_number_formats(COALESCE(category_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+-- Create ticket_number_counters table
+CREATE TABLE IF NOT EXISTS ticket_number_counters (
+  prefix text NOT NULL,
+  period text NOT NULL,
+  last_value bigint NOT NULL,
+  PRIMARY KEY (prefix, period)
+);
+
+-- Keep the existing numbering as the default
+INSERT INTO ticket_number_formats (category_id, prefix, reset, padding)
+VALUES (NULL, 'SD', 'daily', 4)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO ticket_number_counters (prefix, period, last_value)
+SELECT parts[1], parts[2], MAX(parts[3]::bigint)
+FROM (
+  SELECT regexp_match(ticket_number, '^([A-Za-z0-9]+)-(\d{8})-(\d+)$') AS parts
+  FROM tickets
+) numbered
+WHERE parts IS NOT NULL
+GROUP BY parts[1], parts[2]
+ON CONFLICT (prefix, period) DO UPDATE SET last_value = GREATEST(ticket_number_counters.last_value, EXCLUDED.last_value);
+
+-- Function to hand out the next number for a category
+CREATE OR REPLACE FUNCTION generate_ticket_number(p_category_id uuid DEFAULT NULL)
+RETURNS text AS $$
+DECLARE
+  v_format ticket_number_formats;
+  v_period text;
+  v_value bigint;
+BEGIN
+  SELECT * INTO v_format
+  FROM ticket_number_formats
+  WHERE category_id = p_category_id OR category_id IS NULL
+  ORDER BY category_id IS NULL
+  LIMIT 1;
+
+  IF v_format.id IS NULL THEN
+    v_format.prefix := 'SD';
+    v_format.reset := 'daily';
+    v_format.padding := 4;
+  END IF;
+
+  v_period := CASE v_format.reset
+    WHEN 'daily' THEN TO_CHAR(NOW(), 'YYYYMMDD')
+    WHEN 'yearly' THEN TO_CHAR(NOW(), 'YYYY')
+    ELSE ''
+  END;
+
+  -- The upsert locks the counter row, so concurrent inserts queue up here
+  INSERT INTO ticket_number_counters AS c (prefix, period, last_value)
+  VALUES (v_format.prefix, v_period, 1)
+  ON CONFLICT (prefix, period) DO UPDATE SET last_value = c.last_value + 1
+  RETURNING c.last_value INTO v_value;
+
+  RETURN v_format.prefix
+    || CASE WHEN v_period = '' THEN '' ELSE '-' || v_period END
+    || '-' || LPAD(v_value::text, v_format.padding, '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION generate_ticket_number(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Numbers always come from the counter; one sent by the client could take a
+-- number the counter hasn't reached yet and make a later insert collide
+CREATE OR REPLACE FUNCTION set_ticket_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.ticket_number := generate_ticket_number(NEW.category_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS generate_ticket_number();
+
+-- Enable RLS
+ALTER TABLE ticket_number_formats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view ticket number formats"
+  ON ticket_number_formats FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Admins can create ticket number formats"
+  ON ticket_number_formats FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update ticket number formats"
+  ON ticket_number_formats FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete ticket number formats"
+  ON ticket_number_formats FOR DELETE
+  TO authenticated
+  USING (is_admin());
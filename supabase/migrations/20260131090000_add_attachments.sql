@@ -0,0 +1,166 @@
+/*
+  # Ticket and Comment Attachments
+
+  1. New Tables
+    - `attachments`
+      - `id` (uuid, primary key)
+      - `ticket_id` (uuid, foreign key) - Ticket the file belongs to
+      - `comment_id` (uuid, foreign key, nullable) - Comment the file was
+        posted with; NULL for files added with the ticket itself
+      - `storage_path` (text, unique) - Object name in the `attachments`
+        bucket: `<ticket_id>/<attachment_id>/<file name>`
+      - `file_name` (text)
+      - `content_type` (text)
+      - `size_bytes` (bigint)
+      - `uploaded_by` (uuid, foreign key) - Profile that uploaded the file
+      - `created_at` (timestamptz)
+
+  2. Storage
+    - Private `attachments` bucket, limited to 10 MB per file and to
+      images, PDFs, plain text, logs, CSV, JSON, zip archives and Office
+      documents
+
+  3. Security
+    - Enable RLS on `attachments`. Agents see every attachment; requesters
+      see the ones on their own tickets, except files on internal notes
+    - Requesters can attach files to their own tickets and public comments;
+      agents can attach anywhere
+    - Uploaders and admins can delete attachments
+    - Bucket objects follow the `attachments` rows: a file can be read only
+      by someone who can see its row, and uploaded only into a ticket folder
+      the user can attach to
+
+  4. Important Notes
+    - The visibility of a comment's files follows the comment, so switching
+      a comment to an internal note hides its files from the requester too
+    - Deleting a ticket or comment removes the rows; the files are left in
+      the bucket and can be cleaned up separately
+*/
+
+-- Create attachments table
+CREATE TABLE IF NOT EXISTS attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id uuid REFERENCES tickets(id) ON DELETE CASCADE NOT NULL,
+  comment_id uuid REFERENCES ticket_comments(id) ON DELETE CASCADE,
+  storage_path text UNIQUE NOT NULL,
+  file_name text NOT NULL,
+  content_type text NOT NULL DEFAULT 'application/octet-stream',
+  size_bytes bigint NOT NULL CHECK (size_bytes BETWEEN 0 AND 10485760),
+  uploaded_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_ticket ON attachments(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_comment ON attachments(comment_id);
+
+-- Create the storage bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attachments',
+  'attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+    'application/pdf',
+    'text/plain', 'text/csv', 'application/json',
+    'application/zip', 'application/x-zip-compressed',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Function to check whether the current user may attach files to a ticket
+CREATE OR REPLACE FUNCTION can_attach_to_ticket(p_ticket_id uuid)
+RETURNS boolean AS $$
+  SELECT is_agent() OR EXISTS (
+    SELECT 1 FROM tickets WHERE id = p_ticket_id AND requester_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Enable RLS
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view all attachments"
+  ON attachments FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Requesters can view public attachments on their tickets"
+  ON attachments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tickets
+      WHERE tickets.id = attachments.ticket_id
+        AND tickets.requester_id = auth.uid()
+    )
+    AND (
+      comment_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM ticket_comments
+        WHERE ticket_comments.id = attachments.comment_id
+          AND ticket_comments.is_internal = false
+      )
+    )
+  );
+
+CREATE POLICY "Agents can add attachments"
+  ON attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (uploaded_by = auth.uid() AND is_agent());
+
+CREATE POLICY "Requesters can add attachments to their tickets"
+  ON attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM tickets
+      WHERE tickets.id = attachments.ticket_id
+        AND tickets.requester_id = auth.uid()
+    )
+    AND (
+      comment_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM ticket_comments
+        WHERE ticket_comments.id = attachments.comment_id
+          AND ticket_comments.ticket_id = attachments.ticket_id
+          AND ticket_comments.author_id = auth.uid()
+          AND ticket_comments.is_internal = false
+      )
+    )
+  );
+
+CREATE POLICY "Uploaders and admins can delete attachments"
+  ON attachments FOR DELETE
+  TO authenticated
+  USING (uploaded_by = auth.uid() OR is_admin());
+
+-- RLS Policies for the bucket's objects
+CREATE POLICY "Users can read attachments they can see"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND EXISTS (SELECT 1 FROM attachments WHERE attachments.storage_path = storage.objects.name)
+  );
+
+CREATE POLICY "Users can upload attachments to their tickets"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND can_attach_to_ticket(((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Uploaders and admins can delete attachment files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'attachments' AND (owner = auth.uid() OR is_admin()));
+
+-- Stream attachment changes to open tickets
+ALTER PUBLICATION supabase_realtime ADD TABLE attachments;
@@ -0,0 +1,223 @@
+/*
+  # Email-to-Ticket Ingestion
+
+  1. Modified Tables
+    - `tickets`
+      - `source` (text) - `web` or `email`
+    - `ticket_comments`
+      - `source` (text) - `web` or `email`
+
+  2. New Tables
+    - `email_messages`
+      - `id` (uuid, primary key)
+      - `message_id` (text, unique) - The message's Message-ID, without the
+        angle brackets
+      - `ticket_id` (uuid, foreign key) - Ticket the message belongs to
+      - `comment_id` (uuid, foreign key, nullable) - Comment it became; NULL
+        for the message that opened the ticket
+      - `direction` (text) - `inbound` for mail we received, `outbound` for
+        mail we sent, so replies to either thread onto the ticket
+      - `from_email` (text)
+      - `subject` (text)
+      - `created_at` (timestamptz)
+
+  3. New Functions
+    - `ingest_email(...)` - Files one parsed message: appends it to the ticket
+      it replies to, or opens a new ticket. Returns the outcome as JSON
+
+  4. Security
+    - Enable RLS on `email_messages`; agents can view them. There are no
+      write policies: rows are written by `ingest_email()` and the mailer
+    - `ingest_email()` can only be called with the service role, i.e. by the
+      `inbound-email` edge function and the Maildir runner
+
+  5. Important Notes
+    - A reply is matched by its In-Reply-To / References headers first, then
+      by a ticket number in the subject, in any case. Subject matches are
+      only accepted from the requester or an agent, since ticket numbers are
+      easy to guess
+    - Senders with an account are linked to it, so their tickets and replies
+      show up in the portal as their own
+    - A message is filed once: ingesting the same Message-ID again is a no-op
+*/
+
+-- Record where tickets and comments came from
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'web'
+  CHECK (source IN ('web', 'email'));
+ALTER TABLE ticket_comments ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'web'
+  CHECK (source IN ('web', 'email'));
+
+-- Create email_messages table
+CREATE TABLE IF NOT EXISTS email_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id text UNIQUE NOT NULL,
+  ticket_id uuid REFERENCES tickets(id) ON DELETE CASCADE NOT NULL,
+  comment_id uuid REFERENCES ticket_comments(id) ON DELETE CASCADE,
+  direction text NOT NULL DEFAULT 'inbound' CHECK (direction IN ('inbound', 'outbound')),
+  from_email text NOT NULL DEFAULT '',
+  subject text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_messages_ticket ON email_messages(ticket_id);
+
+-- Ticket numbers in subjects are matched whatever their case
+CREATE INDEX IF NOT EXISTS idx_tickets_number_upper ON tickets(upper(ticket_number));
+
+-- Function to file an inbound message as a ticket or a reply
+CREATE OR REPLACE FUNCTION ingest_email(
+  p_message_id text,
+  p_from_email text,
+  p_from_name text,
+  p_subject text,
+  p_body text,
+  p_in_reply_to text DEFAULT NULL,
+  p_references text[] DEFAULT '{}',
+  p_reply_body text DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_priority text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_message_id text := NULLIF(btrim(p_message_id, '<> '), '');
+  v_from_email text := lower(btrim(p_from_email));
+  v_subject text := COALESCE(NULLIF(btrim(p_subject), ''), '(no subject)');
+  v_sender profiles;
+  v_ticket tickets;
+  v_existing email_messages;
+  v_category_id uuid;
+  v_priority_id uuid;
+  v_comment_id uuid;
+BEGIN
+  IF v_from_email = '' OR v_from_email NOT LIKE '%@%' THEN
+    RAISE EXCEPTION 'Message has no sender address';
+  END IF;
+
+  -- Messages without an ID can't be deduplicated, so they get a local one
+  v_message_id := COALESCE(v_message_id, gen_random_uuid()::text || '@ingest.local');
+
+  SELECT * INTO v_existing FROM email_messages WHERE message_id = v_message_id;
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'action', 'duplicate',
+      'ticket_id', v_existing.ticket_id,
+      'comment_id', v_existing.comment_id
+    );
+  END IF;
+
+  SELECT * INTO v_sender FROM profiles WHERE lower(email) = v_from_email;
+
+  -- Thread by the headers: the newest message this one answers
+  SELECT t.* INTO v_ticket
+  FROM email_messages m
+  JOIN tickets t ON t.id = m.ticket_id
+  WHERE m.message_id IN (
+    SELECT btrim(ref, '<> ')
+    FROM unnest(array_append(COALESCE(p_references, '{}'), p_in_reply_to)) AS ref
+    WHERE ref IS NOT NULL
+  )
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  -- Otherwise by a ticket number in the subject, e.g. "Re: [SD-2026-0042] ..."
+  IF v_ticket.id IS NULL THEN
+    SELECT t.* INTO v_ticket
+    FROM tickets t
+    WHERE upper(t.ticket_number) IN (
+      SELECT upper(match[1])
+      FROM regexp_matches(v_subject, '([A-Za-z0-9]+(?:-[0-9]+)+)', 'g') AS match
+    )
+      AND (
+        lower(t.requester_email) = v_from_email
+        OR v_sender.role IN ('agent', 'admin')
+      )
+    ORDER BY t.created_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_ticket.id IS NOT NULL THEN
+    -- The message isn't recorded until the comment exists, so triggers on the
+    -- comment learn the sender from service_desk.email_from
+    PERFORM set_config('service_desk.email_from', v_from_email, true);
+    INSERT INTO ticket_comments (ticket_id, comment, author_name, author_id, is_internal, source)
+    VALUES (
+      v_ticket.id,
+      COALESCE(NULLIF(btrim(p_reply_body), ''), NULLIF(btrim(p_body), ''), '(empty message)'),
+      COALESCE(NULLIF(v_sender.full_name, ''), NULLIF(btrim(p_from_name), ''), v_from_email),
+      v_sender.id,
+      false,
+      'email'
+    )
+    RETURNING id INTO v_comment_id;
+    PERFORM set_config('service_desk.email_from', '', true);
+
+    INSERT INTO email_messages (message_id, ticket_id, comment_id, from_email, subject)
+    VALUES (v_message_id, v_ticket.id, v_comment_id, v_from_email, v_subject);
+
+    RETURN jsonb_build_object(
+      'action', 'replied',
+      'ticket_id', v_ticket.id,
+      'ticket_number', v_ticket.ticket_number,
+      'comment_id', v_comment_id
+    );
+  END IF;
+
+  -- New tickets go to the requested category and priority when they exist,
+  -- else to General (or the first category) at the lowest priority
+  SELECT id INTO v_category_id
+  FROM categories
+  WHERE NOT is_archived
+  ORDER BY lower(name) = lower(COALESCE(p_category, 'General')) DESC, position, name
+  LIMIT 1;
+
+  SELECT id INTO v_priority_id
+  FROM priorities
+  WHERE NOT is_archived
+  ORDER BY lower(name) = lower(COALESCE(p_priority, '')) DESC, level
+  LIMIT 1;
+
+  IF v_category_id IS NULL OR v_priority_id IS NULL THEN
+    RAISE EXCEPTION 'No active category or priority to file the ticket under';
+  END IF;
+
+  INSERT INTO tickets (
+    ticket_number, title, description, category_id, priority_id,
+    requester_name, requester_email, requester_id, source
+  )
+  VALUES (
+    '',
+    left(v_subject, 200),
+    COALESCE(p_body, ''),
+    v_category_id,
+    v_priority_id,
+    COALESCE(NULLIF(btrim(p_from_name), ''), NULLIF(v_sender.full_name, ''), v_from_email),
+    v_from_email,
+    v_sender.id,
+    'email'
+  )
+  RETURNING * INTO v_ticket;
+
+  INSERT INTO email_messages (message_id, ticket_id, from_email, subject)
+  VALUES (v_message_id, v_ticket.id, v_from_email, v_subject);
+
+  RETURN jsonb_build_object(
+    'action', 'created',
+    'ticket_id', v_ticket.id,
+    'ticket_number', v_ticket.ticket_number
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the ingestion service may file mail
+REVOKE EXECUTE ON FUNCTION ingest_email(text, text, text, text, text, text, text[], text, text, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION ingest_email(text, text, text, text, text, text, text[], text, text, text)
+  TO service_role;
+
+-- Enable RLS
+ALTER TABLE email_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view email messages"
+  ON email_messages FOR SELECT
+  TO authenticated
+  USING (is_agent());
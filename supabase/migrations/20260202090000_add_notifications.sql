@@ -0,0 +1,257 @@
+/*
+  # Email Notifications
+
+  1. New Tables
+    - `notification_templates`
+      - `id` (uuid, primary key)
+      - `event` (text) - ticket_created, ticket_assigned, comment_added or
+        ticket_resolved
+      - `audience` (text) - `requester` or `agent` (the assignee)
+      - `subject` (text) - Subject line, with {{placeholders}}
+      - `body` (text) - Plain-text body, with {{placeholders}}
+      - `is_enabled` (boolean)
+      - `updated_at` (timestamptz)
+    - `notifications` - Outbox of messages to send
+      - `id` (uuid, primary key)
+      - `event`, `audience` (text) - Template to render
+      - `ticket_id` (uuid, foreign key)
+      - `comment_id` (uuid, foreign key, nullable) - Comment the message is
+        about, for comment_added
+      - `recipient_email`, `recipient_name` (text)
+      - `status` (text) - pending, sending, sent, skipped or failed
+      - `attempts` (integer)
+      - `next_attempt_at` (timestamptz) - When a pending message is due
+      - `claimed_at` (timestamptz, nullable) - When a sender picked it up
+      - `last_error` (text, nullable)
+      - `message_id` (text, nullable) - Message-ID the email went out with
+      - `sent_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `claim_notifications(p_limit)` - Hands the next due messages to the
+      sender, marking them `sending` so two senders never share one
+
+  3. Security
+    - Enable RLS on both tables. Agents can read templates and the outbox;
+      admins can edit templates
+    - The outbox is only written by the triggers below and the sender, which
+      uses the service role
+
+  4. Important Notes
+    - Triggers on `tickets` and `ticket_comments` queue the messages, so
+      changes made through the API or SQL notify people too
+    - Internal notes never go to requesters: they are not queued for them,
+      and the sender checks again before rendering
+    - Requesters hear about agent replies, not their own; the assignee hears
+      about every comment but their own, and not about assigning themselves
+    - Templates are plain text. Placeholders name ticket columns and the
+      joined rows the app uses, e.g. {{ticket_number}}, {{statuses.name}},
+      {{agents.name}}, plus {{comment.comment}}, {{comment.author_name}},
+      {{recipient.name}} and {{ticket_url}}
+*/
+
+-- Create notification_templates table
+CREATE TABLE IF NOT EXISTS notification_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event text NOT NULL CHECK (event IN ('ticket_created', 'ticket_assigned', 'comment_added', 'ticket_resolved')),
+  audience text NOT NULL CHECK (audience IN ('requester', 'agent')),
+  subject text NOT NULL,
+  body text NOT NULL,
+  is_enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (event, audience)
+);
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event text NOT NULL,
+  audience text NOT NULL,
+  ticket_id uuid REFERENCES tickets(id) ON DELETE CASCADE NOT NULL,
+  comment_id uuid REFERENCES ticket_comments(id) ON DELETE CASCADE,
+  recipient_email text NOT NULL,
+  recipient_name text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'skipped', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  claimed_at timestamptz,
+  last_error text,
+  message_id text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_due ON notifications(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_ticket ON notifications(ticket_id);
+
+-- Seed default templates
+INSERT INTO notification_templates (event, audience, subject, body) VALUES
+  (
+    'ticket_created', 'requester',
+    '[{{ticket_number}}] {{title}}',
+    E'Hi {{requester_name}},\n\nWe''ve received your request and logged it as {{ticket_number}}. We''ll get back to you soon.\n\nCategory: {{categories.name}}\nPriority: {{priorities.name}}\n\nReply to this email to add anything.\n{{ticket_url}}'
+  ),
+  (
+    'ticket_assigned', 'agent',
+    '[{{ticket_number}}] Assigned to you: {{title}}',
+    E'Hi {{recipient.name}},\n\n{{ticket_number}} from {{requester_name}} has been assigned to you.\n\nPriority: {{priorities.name}}\nStatus: {{statuses.name}}\n\n{{description}}\n\n{{ticket_url}}'
+  ),
+  (
+    'comment_added', 'requester',
+    '[{{ticket_number}}] {{title}}',
+    E'Hi {{requester_name}},\n\n{{comment.author_name}} replied to your request:\n\n{{comment.comment}}\n\nStatus: {{statuses.name}}\n\nReply to this email to answer.\n{{ticket_url}}'
+  ),
+  (
+    'comment_added', 'agent',
+    '[{{ticket_number}}] New comment: {{title}}',
+    E'{{comment.author_name}} commented on {{ticket_number}}:\n\n{{comment.comment}}\n\n{{ticket_url}}'
+  ),
+  (
+    'ticket_resolved', 'requester',
+    '[{{ticket_number}}] Resolved: {{title}}',
+    E'Hi {{requester_name}},\n\nWe''ve marked {{ticket_number}} as {{statuses.name}}. If something is still not right, just reply to this email.\n\n{{ticket_url}}'
+  )
+ON CONFLICT (event, audience) DO NOTHING;
+
+-- Function to queue a message, if its template is switched on
+CREATE OR REPLACE FUNCTION enqueue_notification(
+  p_event text,
+  p_audience text,
+  p_ticket_id uuid,
+  p_comment_id uuid,
+  p_email text,
+  p_name text
+)
+RETURNS void AS $$
+BEGIN
+  IF NULLIF(btrim(p_email), '') IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM notification_templates
+    WHERE event = p_event AND audience = p_audience AND is_enabled
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (event, audience, ticket_id, comment_id, recipient_email, recipient_name)
+  VALUES (p_event, p_audience, p_ticket_id, p_comment_id, lower(btrim(p_email)), COALESCE(p_name, ''));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to queue ticket notifications
+CREATE OR REPLACE FUNCTION notify_ticket_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_agent agents;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_notification('ticket_created', 'requester', NEW.id, NULL, NEW.requester_email, NEW.requester_name);
+  END IF;
+
+  IF NEW.assignee_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.assignee_id IS DISTINCT FROM OLD.assignee_id)
+  THEN
+    SELECT * INTO v_agent FROM agents WHERE id = NEW.assignee_id;
+    IF v_agent.profile_id IS DISTINCT FROM auth.uid() OR auth.uid() IS NULL THEN
+      PERFORM enqueue_notification('ticket_assigned', 'agent', NEW.id, NULL, v_agent.email, v_agent.name);
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.status_id IS DISTINCT FROM OLD.status_id
+    AND EXISTS (SELECT 1 FROM statuses WHERE id = NEW.status_id AND is_resolved)
+    AND NOT EXISTS (SELECT 1 FROM statuses WHERE id = OLD.status_id AND is_resolved)
+  THEN
+    PERFORM enqueue_notification('ticket_resolved', 'requester', NEW.id, NULL, NEW.requester_email, NEW.requester_name);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_notify_ticket_changes
+  AFTER INSERT OR UPDATE ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_ticket_changes();
+
+-- Trigger to queue comment notifications
+CREATE OR REPLACE FUNCTION notify_comment_added()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_ticket tickets;
+  v_agent agents;
+BEGIN
+  SELECT * INTO v_ticket FROM tickets WHERE id = NEW.ticket_id;
+
+  -- Requesters only hear about public replies from agents
+  IF NOT NEW.is_internal AND EXISTS (
+    SELECT 1 FROM profiles WHERE id = NEW.author_id AND role IN ('agent', 'admin')
+  ) THEN
+    PERFORM enqueue_notification(
+      'comment_added', 'requester', NEW.ticket_id, NEW.id, v_ticket.requester_email, v_ticket.requester_name
+    );
+  END IF;
+
+  IF v_ticket.assignee_id IS NOT NULL THEN
+    SELECT * INTO v_agent FROM agents WHERE id = v_ticket.assignee_id;
+    IF v_agent.profile_id IS DISTINCT FROM NEW.author_id OR NEW.author_id IS NULL THEN
+      PERFORM enqueue_notification('comment_added', 'agent', NEW.ticket_id, NEW.id, v_agent.email, v_agent.name);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_notify_comment_added
+  AFTER INSERT ON ticket_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_comment_added();
+
+-- Function to hand due messages to the sender. Messages stuck in `sending`
+-- (a sender that died mid-batch) are handed out again after ten minutes.
+CREATE OR REPLACE FUNCTION claim_notifications(p_limit integer DEFAULT 20)
+RETURNS SETOF notifications AS $$
+  UPDATE notifications
+  SET status = 'sending', claimed_at = now(), attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM notifications
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'sending' AND claimed_at < now() - interval '10 minutes')
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only the triggers and the sender may queue or claim messages
+REVOKE EXECUTE ON FUNCTION enqueue_notification(text, text, uuid, uuid, text, text)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_notifications(integer)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notifications(integer) TO service_role;
+
+-- Enable RLS
+ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notification_templates
+CREATE POLICY "Agents can view notification templates"
+  ON notification_templates FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Admins can update notification templates"
+  ON notification_templates FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- RLS Policies for notifications
+CREATE POLICY "Agents can view notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (is_agent());
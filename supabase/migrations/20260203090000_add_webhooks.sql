@@ -0,0 +1,271 @@
+/*
+  # Outgoing Webhooks
+
+  1. New Tables
+    - `webhooks`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `url` (text) - http(s) endpoint the events are POSTed to
+      - `secret` (text) - Key for the HMAC-SHA256 signature on each request
+      - `events` (text[]) - ticket.created, ticket.status_changed,
+        ticket.assigned and/or comment.created
+      - `is_active` (boolean)
+      - `created_at` (timestamptz)
+    - `webhook_deliveries` - One request to one endpoint, and its log
+      - `id` (uuid, primary key) - Also sent as X-Webhook-Delivery
+      - `webhook_id` (uuid, foreign key)
+      - `event` (text) - The event, or `ping` for a test
+      - `payload` (jsonb) - The request body, fixed when the event happens
+      - `status` (text) - pending, sending, delivered or failed
+      - `attempts` (integer)
+      - `next_attempt_at` (timestamptz)
+      - `claimed_at` (timestamptz, nullable)
+      - `response_status` (integer, nullable) - HTTP status of the last try
+      - `response_body` (text, nullable) - Start of the last response
+      - `last_error` (text, nullable)
+      - `delivered_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `ticket_webhook_json(p_ticket_id)` - The ticket with its category,
+      priority, status and assignee, in the app's TicketWithRelations shape
+    - `send_test_webhook(p_webhook_id)` - Queues a `ping` for an endpoint
+    - `claim_webhook_deliveries(p_limit)` - Hands due deliveries to the sender
+
+  3. Security
+    - Enable RLS on both tables; only admins can see or manage webhooks and
+      their deliveries
+    - Deliveries are written by the triggers below and the sender, which uses
+      the service role
+
+  4. Important Notes
+    - Payloads are `{ id, event, created_at, data }`, where `data` holds the
+      `ticket`, plus `comment` for comment.created and `previous` (the old
+      status or assignee) for the change events
+    - comment.created fires for internal notes too; check `comment.is_internal`
+      before showing a comment anywhere public
+    - Failed deliveries are retried after 1, 2, 4, ... minutes and marked
+      failed after 8 attempts
+*/
+
+-- Create webhooks table
+CREATE TABLE IF NOT EXISTS webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  secret text NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  events text[] NOT NULL DEFAULT '{}' CHECK (
+    events <@ ARRAY['ticket.created', 'ticket.status_changed', 'ticket.assigned', 'comment.created']
+  ),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create webhook_deliveries table
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id uuid REFERENCES webhooks(id) ON DELETE CASCADE NOT NULL,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'delivered', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  claimed_at timestamptz,
+  response_status integer,
+  response_body text,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+
+-- Function to build the ticket part of a payload
+CREATE OR REPLACE FUNCTION ticket_webhook_json(p_ticket_id uuid)
+RETURNS jsonb AS $$
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'categories', to_jsonb(c),
+    'priorities', to_jsonb(p),
+    'statuses', to_jsonb(s),
+    'agents', to_jsonb(a)
+  )
+  FROM tickets t
+  JOIN categories c ON c.id = t.category_id
+  JOIN priorities p ON p.id = t.priority_id
+  JOIN statuses s ON s.id = t.status_id
+  LEFT JOIN agents a ON a.id = t.assignee_id
+  WHERE t.id = p_ticket_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to queue an event for every endpoint subscribed to it
+CREATE OR REPLACE FUNCTION queue_webhook_event(p_event text, p_ticket_id uuid, p_data jsonb DEFAULT '{}')
+RETURNS void AS $$
+DECLARE
+  v_ticket jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM webhooks WHERE is_active AND p_event = ANY(events)) THEN
+    RETURN;
+  END IF;
+
+  v_ticket := ticket_webhook_json(p_ticket_id);
+
+  INSERT INTO webhook_deliveries (id, webhook_id, event, payload)
+  SELECT
+    delivery_id,
+    w.id,
+    p_event,
+    jsonb_build_object(
+      'id', delivery_id,
+      'event', p_event,
+      'created_at', now(),
+      'data', jsonb_build_object('ticket', v_ticket) || p_data
+    )
+  FROM (SELECT id, gen_random_uuid() AS delivery_id FROM webhooks WHERE is_active AND p_event = ANY(events)) w;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to queue ticket events
+CREATE OR REPLACE FUNCTION queue_ticket_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM queue_webhook_event('ticket.created', NEW.id);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status_id IS DISTINCT FROM OLD.status_id THEN
+    PERFORM queue_webhook_event(
+      'ticket.status_changed',
+      NEW.id,
+      jsonb_build_object('previous', (SELECT to_jsonb(s) FROM statuses s WHERE s.id = OLD.status_id))
+    );
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    PERFORM queue_webhook_event(
+      'ticket.assigned',
+      NEW.id,
+      jsonb_build_object('previous', (SELECT to_jsonb(a) FROM agents a WHERE a.id = OLD.assignee_id))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_queue_ticket_webhooks
+  AFTER INSERT OR UPDATE ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_ticket_webhooks();
+
+-- Trigger to queue comment events
+CREATE OR REPLACE FUNCTION queue_comment_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM queue_webhook_event('comment.created', NEW.ticket_id, jsonb_build_object('comment', to_jsonb(NEW)));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_queue_comment_webhooks
+  AFTER INSERT ON ticket_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_comment_webhooks();
+
+-- Function to queue a test event, carrying the newest ticket as sample data
+CREATE OR REPLACE FUNCTION send_test_webhook(p_webhook_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_delivery_id uuid := gen_random_uuid();
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can send test events';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM webhooks WHERE id = p_webhook_id) THEN
+    RAISE EXCEPTION 'Webhook not found';
+  END IF;
+
+  INSERT INTO webhook_deliveries (id, webhook_id, event, payload)
+  VALUES (
+    v_delivery_id,
+    p_webhook_id,
+    'ping',
+    jsonb_build_object(
+      'id', v_delivery_id,
+      'event', 'ping',
+      'created_at', now(),
+      'data', jsonb_build_object(
+        'ticket', ticket_webhook_json((SELECT id FROM tickets ORDER BY created_at DESC LIMIT 1))
+      )
+    )
+  );
+
+  RETURN v_delivery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to hand due deliveries to the sender. Deliveries stuck in
+-- `sending` are handed out again after ten minutes.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  id uuid,
+  event text,
+  payload jsonb,
+  attempts integer,
+  url text,
+  secret text
+) AS $$
+  UPDATE webhook_deliveries d
+  SET status = 'sending', claimed_at = now(), attempts = d.attempts + 1
+  FROM webhooks w
+  WHERE w.id = d.webhook_id
+    AND d.id IN (
+      SELECT id FROM webhook_deliveries
+      WHERE (status = 'pending' AND next_attempt_at <= now())
+         OR (status = 'sending' AND claimed_at < now() - interval '10 minutes')
+      ORDER BY created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+  RETURNING d.id, d.event, d.payload, d.attempts, w.url, w.secret;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only the triggers and the sender may queue or claim deliveries
+REVOKE EXECUTE ON FUNCTION ticket_webhook_json(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_webhook_event(text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(integer) TO service_role;
+
+-- Enable RLS
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for webhooks
+CREATE POLICY "Admins can view webhooks"
+  ON webhooks FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can create webhooks"
+  ON webhooks FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update webhooks"
+  ON webhooks FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete webhooks"
+  ON webhooks FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for webhook_deliveries
+CREATE POLICY "Admins can view webhook deliveries"
+  ON webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (is_admin());
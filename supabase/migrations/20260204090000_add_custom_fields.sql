@@ -0,0 +1,282 @@
+/*
+  # Category Custom Fields
+
+  1. New Tables
+    - `custom_fields`
+      - `id` (uuid, primary key)
+      - `category_id` (uuid, foreign key) - Category whose tickets have the field
+      - `key` (text) - Name the value is stored and searched under, e.g.
+        `asset_tag`; unique within the category
+      - `label` (text) - Shown on the form
+      - `field_type` (text) - text, number, select, date or checkbox
+      - `options` (text[]) - Choices for select fields
+      - `is_required` (boolean)
+      - `min_value`, `max_value` (numeric, nullable) - Bounds for number fields
+      - `position` (integer) - Order on the form
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `tickets`
+      - `custom_fields` (jsonb) - Values by field key: strings for text,
+        select and date (YYYY-MM-DD), numbers and booleans for the others
+
+  3. Modified Functions
+    - `search_tickets` accepts `p_custom_fields`, an object of field keys and
+      the values they must have
+
+  4. Security
+    - Enable RLS on `custom_fields`; everyone can read the definitions so the
+      ticket form can show them, only admins can change them
+
+  5. Important Notes
+    - A trigger checks values against their field's type, options and bounds,
+      and that required fields are filled in, whenever a ticket is filed or
+      its custom fields are edited. Tickets filed by mail skip the required
+      check since there is nobody to ask
+    - Changing a ticket's category keeps the values it had; fields of the new
+      category are asked for the next time the fields are edited
+    - Deleting a field keeps its values on existing tickets, out of sight
+    - Seeds fields for IT Support, Facilities and Finance where those
+      categories exist
+*/
+
+-- Create custom_fields table
+CREATE TABLE IF NOT EXISTS custom_fields (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE NOT NULL,
+  key text NOT NULL CHECK (
+    key ~ '^[a-z][a-z0-9_]*$'
+    -- These are already search tokens
+    AND key NOT IN ('status', 'priority', 'category', 'assignee', 'created', 'updated')
+  ),
+  label text NOT NULL CHECK (TRIM(label) <> ''),
+  field_type text NOT NULL CHECK (field_type IN ('text', 'number', 'select', 'date', 'checkbox')),
+  options text[] NOT NULL DEFAULT '{}',
+  is_required boolean NOT NULL DEFAULT false,
+  min_value numeric,
+  max_value numeric,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (category_id, key),
+  CHECK (field_type <> 'select' OR cardinality(options) > 0),
+  CHECK (min_value IS NULL OR max_value IS NULL OR min_value <= max_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_fields_category ON custom_fields(category_id, position);
+
+-- Add custom field values to tickets
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb
+  CHECK (jsonb_typeof(custom_fields) = 'object');
+
+-- Seed the fields the teams asked for
+INSERT INTO custom_fields (category_id, key, label, field_type, options, is_required, min_value, position)
+SELECT c.id, f.key, f.label, f.field_type, f.options, f.is_required, f.min_value, f.position
+FROM (VALUES
+  ('IT Support', 'asset_tag', 'Asset tag', 'text', '{}'::text[], false, NULL::numeric, 0),
+  ('IT Support', 'os', 'Operating system', 'select', '{Windows,macOS,Linux,iOS,Android,Other}'::text[], true, NULL, 1),
+  ('Facilities', 'building', 'Building', 'text', '{}'::text[], true, NULL, 0),
+  ('Facilities', 'room', 'Room', 'text', '{}'::text[], false, NULL, 1),
+  ('Finance', 'cost_center', 'Cost center', 'text', '{}'::text[], true, NULL, 0),
+  ('Finance', 'amount', 'Amount', 'number', '{}'::text[], false, 0, 1)
+) AS f(category, key, label, field_type, options, is_required, min_value, position)
+JOIN categories c ON c.name = f.category
+ON CONFLICT (category_id, key) DO NOTHING;
+
+-- Trigger to validate custom field values
+CREATE OR REPLACE FUNCTION validate_custom_fields()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_field custom_fields;
+  v_value jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.custom_fields IS NOT DISTINCT FROM OLD.custom_fields THEN
+    RETURN NEW;
+  END IF;
+
+  -- Cleared inputs arrive as "" or null; they count as not filled in
+  NEW.custom_fields := COALESCE(
+    (
+      SELECT jsonb_object_agg(key, value)
+      FROM jsonb_each(NEW.custom_fields)
+      WHERE value NOT IN ('null'::jsonb, '""'::jsonb)
+    ),
+    '{}'::jsonb
+  );
+
+  FOR v_field IN SELECT * FROM custom_fields WHERE category_id = NEW.category_id ORDER BY position LOOP
+    v_value := NEW.custom_fields -> v_field.key;
+
+    IF v_field.is_required
+      AND auth.uid() IS NOT NULL
+      AND (v_value IS NULL OR v_value = 'false'::jsonb)
+    THEN
+      RAISE EXCEPTION '% is required', v_field.label;
+    END IF;
+
+    CONTINUE WHEN v_value IS NULL;
+
+    CASE v_field.field_type
+      WHEN 'number' THEN
+        IF jsonb_typeof(v_value) <> 'number' THEN
+          RAISE EXCEPTION '% must be a number', v_field.label;
+        END IF;
+        IF v_value::numeric < v_field.min_value THEN
+          RAISE EXCEPTION '% must be at least %', v_field.label, v_field.min_value;
+        END IF;
+        IF v_value::numeric > v_field.max_value THEN
+          RAISE EXCEPTION '% must be at most %', v_field.label, v_field.max_value;
+        END IF;
+      WHEN 'checkbox' THEN
+        IF jsonb_typeof(v_value) <> 'boolean' THEN
+          RAISE EXCEPTION '% must be checked or unchecked', v_field.label;
+        END IF;
+      WHEN 'date' THEN
+        IF jsonb_typeof(v_value) <> 'string' OR (v_value #>> '{}') !~ '^\d{4}-\d{2}-\d{2}$' THEN
+          RAISE EXCEPTION '% must be a date', v_field.label;
+        END IF;
+        BEGIN
+          PERFORM (v_value #>> '{}')::date;
+        EXCEPTION WHEN others THEN
+          RAISE EXCEPTION '% must be a date', v_field.label;
+        END;
+      WHEN 'select' THEN
+        IF jsonb_typeof(v_value) <> 'string' OR NOT (v_value #>> '{}') = ANY(v_field.options) THEN
+          RAISE EXCEPTION '% must be one of: %', v_field.label, array_to_string(v_field.options, ', ');
+        END IF;
+      ELSE
+        IF jsonb_typeof(v_value) <> 'string' THEN
+          RAISE EXCEPTION '% must be text', v_field.label;
+        END IF;
+    END CASE;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_custom_fields
+  BEFORE INSERT OR UPDATE ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_custom_fields();
+
+-- Add custom field filters to the ticket search
+DROP FUNCTION IF EXISTS search_tickets(text, uuid, uuid, uuid, text, text, boolean, timestamptz, timestamptz, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION search_tickets(
+  p_search text DEFAULT '',
+  p_category_id uuid DEFAULT NULL,
+  p_priority_id uuid DEFAULT NULL,
+  p_status_id uuid DEFAULT NULL,
+  p_assignee text DEFAULT NULL,
+  p_sort text DEFAULT 'created_at',
+  p_ascending boolean DEFAULT false,
+  p_created_after timestamptz DEFAULT NULL,
+  p_created_before timestamptz DEFAULT NULL,
+  p_updated_after timestamptz DEFAULT NULL,
+  p_updated_before timestamptz DEFAULT NULL,
+  p_custom_fields jsonb DEFAULT NULL
+)
+RETURNS SETOF tickets AS $$
+DECLARE
+  v_search text := COALESCE(TRIM(p_search), '');
+  v_query tsquery;
+  v_pattern text;
+  v_assignee_id uuid;
+  v_sort_expression text;
+BEGIN
+  IF v_search <> '' THEN
+    v_query := websearch_to_tsquery('english', v_search);
+  END IF;
+
+  -- Escape LIKE wildcards so the ticket number is matched literally
+  v_pattern := '%' || replace(replace(replace(v_search, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  IF p_assignee = 'me' THEN
+    SELECT id INTO v_assignee_id FROM agents WHERE profile_id = auth.uid();
+    -- Callers without an agent record have nothing assigned to them
+    v_assignee_id := COALESCE(v_assignee_id, '00000000-0000-0000-0000-000000000000'::uuid);
+  ELSIF p_assignee IS NOT NULL AND p_assignee <> 'none' THEN
+    v_assignee_id := p_assignee::uuid;
+  END IF;
+
+  v_sort_expression := CASE p_sort
+    WHEN 'ticket_number' THEN 't.ticket_number'
+    WHEN 'title' THEN 'LOWER(t.title)'
+    WHEN 'category' THEN 'LOWER(c.name)'
+    WHEN 'priority' THEN 'p.level'
+    WHEN 'status' THEN 's."order"'
+    WHEN 'assignee' THEN 'LOWER(a.name)'
+    WHEN 'sla' THEN 't.resolution_due_at'
+    WHEN 'requester' THEN 'LOWER(t.requester_name)'
+    ELSE 't.created_at'
+  END;
+
+  IF p_sort = 'relevance' AND v_query IS NOT NULL THEN
+    v_sort_expression := 'ts_rank(ticket_search_document(t.title, t.description, t.requester_name, t.ticket_number), $2)';
+  END IF;
+
+  -- Custom fields match case-insensitively on their text form, so
+  -- os:windows, amount:250 and on_site:true all work
+  RETURN QUERY EXECUTE format(
+    'SELECT t.*
+     FROM tickets t
+     JOIN categories c ON c.id = t.category_id
+     JOIN priorities p ON p.id = t.priority_id
+     JOIN statuses s ON s.id = t.status_id
+     LEFT JOIN agents a ON a.id = t.assignee_id
+     WHERE ($1 = ''''
+            OR t.ticket_number ILIKE $3
+            OR ticket_search_document(t.title, t.description, t.requester_name, t.ticket_number) @@ $2
+            OR EXISTS (
+              SELECT 1 FROM ticket_comments tc
+              WHERE tc.ticket_id = t.id
+                AND to_tsvector(''english''::regconfig, tc.comment) @@ $2
+            ))
+       AND ($4 IS NULL OR t.category_id = $4)
+       AND ($5 IS NULL OR t.priority_id = $5)
+       AND ($6 IS NULL OR t.status_id = $6)
+       AND ($7 IS NULL OR ($7 = ''none'' AND t.assignee_id IS NULL) OR t.assignee_id = $8)
+       AND ($9 IS NULL OR t.created_at >= $9)
+       AND ($10 IS NULL OR t.created_at < $10)
+       AND ($11 IS NULL OR t.updated_at >= $11)
+       AND ($12 IS NULL OR t.updated_at < $12)
+       AND ($13 IS NULL OR NOT EXISTS (
+              SELECT 1 FROM jsonb_each_text($13) f
+              WHERE LOWER(COALESCE(t.custom_fields ->> f.key, '''')) <> LOWER(f.value)
+            ))
+     ORDER BY %s %s NULLS LAST, t.created_at DESC, t.id',
+    v_sort_expression,
+    CASE WHEN p_ascending AND p_sort <> 'relevance' THEN 'ASC' ELSE 'DESC' END
+  )
+  USING v_search, v_query, v_pattern, p_category_id, p_priority_id, p_status_id, p_assignee, v_assignee_id,
+    p_created_after, p_created_before, p_updated_after, p_updated_before, p_custom_fields;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Enable RLS
+ALTER TABLE custom_fields ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for custom_fields
+CREATE POLICY "Anyone can view custom fields"
+  ON custom_fields FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create custom fields"
+  ON custom_fields FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update custom fields"
+  ON custom_fields FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete custom fields"
+  ON custom_fields FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Keep open forms in step with field changes
+ALTER PUBLICATION supabase_realtime ADD TABLE custom_fields;
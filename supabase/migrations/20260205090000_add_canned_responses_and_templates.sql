@@ -0,0 +1,145 @@
+/*
+  # Canned Responses and Ticket Templates
+
+  1. New Tables
+    - `canned_responses`
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid, foreign key, nullable) - Agent that wrote the
+        response; NULL for the built-in ones
+      - `name` (text) - Shown in the composer's picker
+      - `body` (text) - Reply text; `{{requester_name}}`, `{{ticket_number}}`
+        and the other placeholders are filled in when it's inserted
+      - `is_shared` (boolean) - Shared responses are listed for every agent
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `ticket_templates`
+      - `id` (uuid, primary key)
+      - `name` (text) - Shown on the new ticket form
+      - `title` (text)
+      - `description` (text)
+      - `category_id` (uuid, foreign key, nullable)
+      - `priority_id` (uuid, foreign key, nullable)
+      - `custom_fields` (jsonb) - Custom field values to pre-fill
+      - `position` (integer) - Order on the form
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Canned responses work like saved views: agents see their own and the
+      shared ones, and only admins can edit or delete someone else's shared
+      response. Requesters can't see any
+    - Everyone can read ticket templates since requesters file tickets too;
+      only admins can change them
+
+  3. Important Notes
+    - Placeholders are filled in by the composer, so the agent sees and can
+      edit the final text before it's sent
+    - A template only pre-fills the form; nothing about it is kept on the
+      ticket. Deleting a template's category or priority clears that part of
+      the template
+*/
+
+-- Create canned_responses table
+CREATE TABLE IF NOT EXISTS canned_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES profiles(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name text NOT NULL CHECK (TRIM(name) <> ''),
+  body text NOT NULL CHECK (TRIM(body) <> ''),
+  is_shared boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  -- Built-in responses have no owner, so they have to be shared to be seen
+  CHECK (owner_id IS NOT NULL OR is_shared)
+);
+
+CREATE INDEX IF NOT EXISTS idx_canned_responses_owner ON canned_responses(owner_id);
+
+CREATE TRIGGER trigger_update_canned_response_timestamp
+  BEFORE UPDATE ON canned_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Create ticket_templates table
+CREATE TABLE IF NOT EXISTS ticket_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (TRIM(name) <> ''),
+  title text NOT NULL DEFAULT '',
+  description text NOT NULL DEFAULT '',
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  priority_id uuid REFERENCES priorities(id) ON DELETE SET NULL,
+  custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(custom_fields) = 'object'),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER trigger_update_ticket_template_timestamp
+  BEFORE UPDATE ON ticket_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Enable RLS
+ALTER TABLE canned_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view their own and shared canned responses"
+  ON canned_responses FOR SELECT
+  TO authenticated
+  USING (is_agent() AND (owner_id = auth.uid() OR is_shared));
+
+CREATE POLICY "Agents can create their own canned responses"
+  ON canned_responses FOR INSERT
+  TO authenticated
+  WITH CHECK (is_agent() AND owner_id = auth.uid());
+
+CREATE POLICY "Agents can update their own canned responses"
+  ON canned_responses FOR UPDATE
+  TO authenticated
+  USING (is_agent() AND (owner_id = auth.uid() OR (is_shared AND is_admin())))
+  WITH CHECK (is_agent() AND (owner_id = auth.uid() OR (is_shared AND is_admin())));
+
+CREATE POLICY "Agents can delete their own canned responses"
+  ON canned_responses FOR DELETE
+  TO authenticated
+  USING (is_agent() AND (owner_id = auth.uid() OR (is_shared AND is_admin())));
+
+CREATE POLICY "Anyone can view ticket templates"
+  ON ticket_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create ticket templates"
+  ON ticket_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update ticket templates"
+  ON ticket_templates FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete ticket templates"
+  ON ticket_templates FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Built-in shared responses for the questions asked most
+INSERT INTO canned_responses (owner_id, name, body, is_shared) VALUES
+  (NULL, 'Password reset', E'Hi {{requester_name}},\n\nYou can reset your password yourself at the account portal: choose "Forgot password", enter your work email and follow the link we send you. The link is valid for one hour.\n\nIf the link doesn''t arrive within a few minutes, reply to this ticket ({{ticket_number}}) and we''ll reset it for you.\n\nThanks,\n{{agent_name}}', true),
+  (NULL, 'VPN setup', E'Hi {{requester_name}},\n\nTo connect to the VPN:\n1. Install the VPN client from the Software Center.\n2. Sign in with your work email and password.\n3. Approve the sign-in on your authenticator app.\n\nIf it still won''t connect, reply with a screenshot of the error and we''ll take a look.\n\nThanks,\n{{agent_name}}', true);
+
+-- Seed the ticket filed most often
+INSERT INTO ticket_templates (name, title, description, category_id, priority_id, position)
+SELECT
+  'New starter setup',
+  'New starter setup: ',
+  E'Name:\nStart date:\nJob title and team:\nManager:\n\nEquipment needed (laptop, monitor, phone):\nSystems and shared mailboxes to access:',
+  (SELECT id FROM categories WHERE name = 'IT Support'),
+  (SELECT id FROM priorities WHERE name = 'Medium'),
+  0
+ON CONFLICT (name) DO NOTHING;
+
+-- Keep open pickers in step with edits
+ALTER PUBLICATION supabase_realtime ADD TABLE canned_responses;
+ALTER PUBLICATION supabase_realtime ADD TABLE ticket_templates;
@@ -0,0 +1,282 @@
+/*
+  # Macros
+
+  1. New Tables
+    - `macros`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - e.g. "Close as duplicate"
+      - `description` (text)
+      - `status_id`, `priority_id`, `category_id` (uuid, foreign keys,
+        nullable) - Values to set; NULL leaves the field alone
+      - `assignee_action` (text) - keep, set (to `assignee_id`), me (whoever
+        runs the macro) or unassign
+      - `assignee_id` (uuid, foreign key, nullable)
+      - `comment` (text) - Posted with the changes when not empty; the
+        canned response placeholders are filled in per ticket
+      - `comment_is_internal` (boolean)
+      - `position` (integer) - Order in the macro pickers
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. New Functions
+    - `fill_ticket_placeholders(p_text, p_ticket_id)` - Replaces
+      `{{requester_name}}`, `{{ticket_number}}` and the other placeholders
+      with the ticket's values
+    - `apply_macro(p_macro_id, p_ticket_ids, p_dry_run)` - Applies a macro
+      to each ticket and returns a row per ticket with what changed, or why
+      it couldn't. With `p_dry_run` every change is made and then rolled
+      back, so the preview runs the same checks as the real thing
+
+  3. Security
+    - Enable RLS on `macros`; agents can read them and admins manage them
+    - `apply_macro` runs with the caller's rights, like the bulk actions
+
+  4. Important Notes
+    - Each ticket is changed in its own subtransaction: the comment, field
+      changes and reassignment all land or none do. The comment goes in
+      first and the fields are set in one update, so moves that require a
+      note or an assignee pass the workflow checks
+    - One ticket failing doesn't stop the rest of a selection
+*/
+
+-- Create macros table
+CREATE TABLE IF NOT EXISTS macros (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (TRIM(name) <> ''),
+  description text NOT NULL DEFAULT '',
+  status_id uuid REFERENCES statuses(id) ON DELETE SET NULL,
+  priority_id uuid REFERENCES priorities(id) ON DELETE SET NULL,
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  assignee_action text NOT NULL DEFAULT 'keep' CHECK (assignee_action IN ('keep', 'set', 'me', 'unassign')),
+  assignee_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+  comment text NOT NULL DEFAULT '',
+  comment_is_internal boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER trigger_update_macro_timestamp
+  BEFORE UPDATE ON macros
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Enable RLS
+ALTER TABLE macros ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view macros"
+  ON macros FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Admins can create macros"
+  ON macros FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update macros"
+  ON macros FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete macros"
+  ON macros FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Same placeholders as the composer fills in for canned responses
+CREATE OR REPLACE FUNCTION fill_ticket_placeholders(p_text text, p_ticket_id uuid)
+RETURNS text AS $$
+DECLARE
+  v_values jsonb;
+  v_key text;
+  v_result text := p_text;
+BEGIN
+  SELECT jsonb_build_object(
+    'requester_name', t.requester_name,
+    'requester_email', t.requester_email,
+    'ticket_number', t.ticket_number,
+    'title', t.title,
+    'category', c.name,
+    'priority', p.name,
+    'status', s.name,
+    'assignee_name', COALESCE(a.name, ''),
+    'agent_name', COALESCE((SELECT full_name FROM profiles WHERE id = auth.uid()), '')
+  )
+  INTO v_values
+  FROM tickets t
+  JOIN categories c ON c.id = t.category_id
+  JOIN priorities p ON p.id = t.priority_id
+  JOIN statuses s ON s.id = t.status_id
+  LEFT JOIN agents a ON a.id = t.assignee_id
+  WHERE t.id = p_ticket_id;
+
+  -- Backslashes are special in the replacement, so they're doubled first
+  FOR v_key IN SELECT jsonb_object_keys(COALESCE(v_values, '{}'::jsonb)) LOOP
+    v_result := regexp_replace(
+      v_result,
+      '\{\{\s*' || v_key || '\s*\}\}',
+      replace(COALESCE(v_values->>v_key, ''), '\', '\\'),
+      'g'
+    );
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to apply a macro, or preview it
+CREATE OR REPLACE FUNCTION apply_macro(
+  p_macro_id uuid,
+  p_ticket_ids uuid[],
+  p_dry_run boolean DEFAULT false
+)
+RETURNS TABLE (ticket_id uuid, ticket_number text, success boolean, error text, changes jsonb) AS $$
+#variable_conflict use_column
+DECLARE
+  v_macro macros;
+  v_before tickets;
+  v_after tickets;
+  v_ticket_id uuid;
+  v_assignee_id uuid;
+  v_comment text;
+  v_rows integer;
+BEGIN
+  SELECT * INTO v_macro FROM macros WHERE id = p_macro_id;
+  IF v_macro.id IS NULL THEN
+    RAISE EXCEPTION 'Macro not found';
+  END IF;
+
+  IF v_macro.assignee_action = 'me' THEN
+    SELECT id INTO v_assignee_id FROM agents WHERE profile_id = auth.uid();
+    IF v_assignee_id IS NULL THEN
+      RAISE EXCEPTION 'You need an agent record to run a macro that assigns to you';
+    END IF;
+  ELSIF v_macro.assignee_action = 'set' THEN
+    IF v_macro.assignee_id IS NULL THEN
+      RAISE EXCEPTION 'The agent this macro assigns to no longer exists';
+    END IF;
+    v_assignee_id := v_macro.assignee_id;
+  END IF;
+
+  FOREACH v_ticket_id IN ARRAY p_ticket_ids LOOP
+    ticket_id := v_ticket_id;
+    ticket_number := NULL;
+    success := false;
+    error := NULL;
+    changes := '[]'::jsonb;
+
+    BEGIN
+      SELECT * INTO v_before FROM tickets t WHERE t.id = v_ticket_id;
+      IF v_before.id IS NULL THEN
+        error := 'Ticket not found';
+        RETURN NEXT;
+        CONTINUE;
+      END IF;
+      ticket_number := v_before.ticket_number;
+
+      IF TRIM(v_macro.comment) <> '' THEN
+        v_comment := fill_ticket_placeholders(v_macro.comment, v_ticket_id);
+        INSERT INTO ticket_comments (ticket_id, comment, author_name, author_id, is_internal)
+        VALUES (v_ticket_id, v_comment, '', auth.uid(), v_macro.comment_is_internal);
+      END IF;
+
+      UPDATE tickets t
+      SET status_id = COALESCE(v_macro.status_id, t.status_id),
+          priority_id = COALESCE(v_macro.priority_id, t.priority_id),
+          category_id = COALESCE(v_macro.category_id, t.category_id),
+          assignee_id = CASE v_macro.assignee_action
+            WHEN 'keep' THEN t.assignee_id
+            WHEN 'unassign' THEN NULL
+            ELSE v_assignee_id
+          END
+      WHERE t.id = v_ticket_id;
+
+      -- RLS filters rows out silently rather than raising
+      GET DIAGNOSTICS v_rows = ROW_COUNT;
+      IF v_rows = 0 THEN
+        RAISE EXCEPTION 'You do not have permission to change this ticket';
+      END IF;
+
+      SELECT * INTO v_after FROM tickets t WHERE t.id = v_ticket_id;
+
+      IF v_after.status_id IS DISTINCT FROM v_before.status_id THEN
+        changes := changes || jsonb_build_object(
+          'field', 'status',
+          'from', (SELECT name FROM statuses WHERE id = v_before.status_id),
+          'to', (SELECT name FROM statuses WHERE id = v_after.status_id)
+        );
+      END IF;
+      IF v_after.priority_id IS DISTINCT FROM v_before.priority_id THEN
+        changes := changes || jsonb_build_object(
+          'field', 'priority',
+          'from', (SELECT name FROM priorities WHERE id = v_before.priority_id),
+          'to', (SELECT name FROM priorities WHERE id = v_after.priority_id)
+        );
+      END IF;
+      IF v_after.category_id IS DISTINCT FROM v_before.category_id THEN
+        changes := changes || jsonb_build_object(
+          'field', 'category',
+          'from', (SELECT name FROM categories WHERE id = v_before.category_id),
+          'to', (SELECT name FROM categories WHERE id = v_after.category_id)
+        );
+      END IF;
+      IF v_after.assignee_id IS DISTINCT FROM v_before.assignee_id THEN
+        changes := changes || jsonb_build_object(
+          'field', 'assignee',
+          'from', (SELECT name FROM agents WHERE id = v_before.assignee_id),
+          'to', (SELECT name FROM agents WHERE id = v_after.assignee_id)
+        );
+      END IF;
+      IF TRIM(v_macro.comment) <> '' THEN
+        changes := changes || jsonb_build_object(
+          'field', 'comment',
+          'to', v_comment,
+          'is_internal', v_macro.comment_is_internal
+        );
+      END IF;
+
+      success := true;
+
+      -- Undo the preview; variables keep their values through the rollback
+      IF p_dry_run THEN
+        RAISE EXCEPTION 'Dry run' USING ERRCODE = 'DRYRN';
+      END IF;
+    EXCEPTION
+      WHEN SQLSTATE 'DRYRN' THEN
+        NULL;
+      WHEN OTHERS THEN
+        success := false;
+        error := SQLERRM;
+        changes := '[]'::jsonb;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Seed the macros asked for most
+INSERT INTO macros (name, description, status_id, comment, comment_is_internal, assignee_action, position)
+SELECT
+  'Close as duplicate',
+  'Closes the ticket with a note to the requester',
+  (SELECT id FROM statuses WHERE name = 'Closed'),
+  E'Hi {{requester_name}},\n\nThis is already being tracked in another ticket, so we''re closing {{ticket_number}} as a duplicate. You''ll hear from us on the original.\n\nThanks,\n{{agent_name}}',
+  false,
+  'keep',
+  0
+UNION ALL
+SELECT
+  'Take and start',
+  'Assigns the ticket to you and moves it to In Progress',
+  (SELECT id FROM statuses WHERE name = 'In Progress'),
+  '',
+  false,
+  'me',
+  1
+ON CONFLICT (name) DO NOTHING;
+
+-- Keep the pickers in step with edits
+ALTER PUBLICATION supabase_realtime ADD TABLE macros;
@@ -0,0 +1,811 @@
+/*
+  # Automation Rules
+
+  1. New Tables
+    - `automation_rules`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - Shown in the log and as the actor in ticket
+        history
+      - `description` (text)
+      - `trigger_event` (text) - ticket_created, ticket_updated,
+        comment_added or time (checked on a schedule)
+      - `conditions` (jsonb) - Array of `{field, operator, value}`, all of
+        which must hold. See "Conditions" below
+      - `actions` (jsonb) - Array of actions, applied in one go. See
+        "Actions" below
+      - `is_enabled` (boolean)
+      - `position` (integer) - Rules for the same event run in this order
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `automation_log`
+      - `id` (uuid, primary key)
+      - `rule_id` (uuid, foreign key, nullable)
+      - `rule_name` (text) - Name of the rule at the time
+      - `ticket_id` (uuid, foreign key)
+      - `trigger_event` (text)
+      - `success` (boolean)
+      - `error` (text, nullable)
+      - `changes` (jsonb) - What the rule changed, in the shape `apply_macro`
+        reports
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `ticket_comments.source` may be `automation`
+    - `notifications`
+      - `subject`, `body` (text, nullable) - Set for messages written by a
+        rule; the sender uses them instead of a template
+
+  3. New Functions
+    - `automation_ticket_facts(p_ticket_id, p_comment_id)` - The values
+      conditions are checked against
+    - `automation_conditions_match(p_conditions, p_facts)`
+    - `apply_automation_actions(p_rule_name, p_actions, p_ticket_id)` -
+      Applies actions to one ticket and returns what changed
+    - `run_automations(p_event, p_ticket_id, p_comment_id)` - Runs the
+      enabled rules for an event; called by triggers
+    - `run_time_automations()` - Runs the time-based rules over open
+      tickets; scheduled below when pg_cron is available
+    - `test_automation_rule(p_trigger_event, p_conditions, p_actions,
+      p_limit)` - Dry run: applies a rule, saved or not, to the open tickets
+      it matches and rolls every change back, returning what would happen
+
+  4. Modified Functions
+    - `set_comment_author` leaves comments written under a
+      `service_desk.actor` name to that actor
+    - `notify_comment_added` sends requesters public comments written by
+      rules as well as by agents
+
+  5. Security
+    - Enable RLS on both tables. Agents can read rules and the log; admins
+      manage rules. The log is only written by the functions below
+    - Rules run with the owner's rights, like auto-assignment, so a rule
+      fired by a requester's reply can still change the ticket
+    - `run_automations` is only run by the triggers below and
+      `run_time_automations` only by the service role; `test_automation_rule`
+      is only callable by admins
+
+  6. Important Notes
+    - Conditions. Fields: `category`, `priority`, `status` and `assignee`
+      (ids; an empty assignee means unassigned), `source`, `title`,
+      `description`, `requester_email`, `custom.<key>` for custom fields,
+      `comment` and `comment_by` (requester or agent) for comment_added,
+      and the numbers `hours_open`, `hours_in_status` and
+      `hours_since_requester_reply` (since the requester last commented,
+      or since the ticket was filed). Operators: is, is_not, contains,
+      not_contains, at_least, at_most. Text is compared case-insensitively
+    - Actions: `set_status`, `set_priority`, `set_category` and `assign`
+      with a `value` (an empty assignee unassigns), `add_comment` with
+      `comment` and `is_internal`, and `notify` with `audience` (requester
+      or agent), `subject` and `body`. Comments go in before the field
+      changes, which are made in one update, so workflow moves that need a
+      note or an assignee pass. Comments and notifications may use the
+      canned response and notification placeholders respectively
+    - Each rule runs in its own subtransaction: a failing rule is logged and
+      never blocks the change that fired it. Changes made by rules don't
+      fire further rules, and auto-assigning a new ticket doesn't count as
+      an update: it only runs the ticket_created rules, after the assignment
+    - A time-based rule acts on a ticket at most once until the ticket
+      changes again, and needs an hours condition so it can't sweep every
+      open ticket on its first run
+    - Event runs are logged when they changed something or failed; time
+      runs are always logged, which is how a rule knows it has already
+      acted on a ticket
+    - Two rules are seeded: closing tickets left waiting on the requester,
+      off until an admin has tried it, and reopening closed tickets when
+      the requester replies, in the app or by email, which is on
+*/
+
+-- Create automation_rules table
+CREATE TABLE IF NOT EXISTS automation_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (TRIM(name) <> ''),
+  description text NOT NULL DEFAULT '',
+  trigger_event text NOT NULL CHECK (trigger_event IN ('ticket_created', 'ticket_updated', 'comment_added', 'time')),
+  conditions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  actions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_enabled boolean NOT NULL DEFAULT true,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rules_event ON automation_rules(trigger_event, position) WHERE is_enabled;
+
+CREATE TRIGGER trigger_update_automation_rule_timestamp
+  BEFORE UPDATE ON automation_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Create automation_log table
+CREATE TABLE IF NOT EXISTS automation_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid REFERENCES automation_rules(id) ON DELETE SET NULL,
+  rule_name text NOT NULL,
+  ticket_id uuid REFERENCES tickets(id) ON DELETE CASCADE NOT NULL,
+  trigger_event text NOT NULL,
+  success boolean NOT NULL,
+  error text,
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_log_created ON automation_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_automation_log_rule_ticket ON automation_log(rule_id, ticket_id, created_at);
+
+-- Comments written by rules
+ALTER TABLE ticket_comments DROP CONSTRAINT IF EXISTS ticket_comments_source_check;
+ALTER TABLE ticket_comments ADD CONSTRAINT ticket_comments_source_check
+  CHECK (source IN ('web', 'email', 'automation'));
+
+-- Messages written by rules carry their own text
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS subject text;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS body text;
+
+-- Enable RLS
+ALTER TABLE automation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE automation_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view automation rules"
+  ON automation_rules FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Admins can create automation rules"
+  ON automation_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update automation rules"
+  ON automation_rules FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete automation rules"
+  ON automation_rules FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Agents can view the automation log"
+  ON automation_log FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+-- Function to check a rule's conditions and actions are well formed
+CREATE OR REPLACE FUNCTION validate_automation_definition(
+  p_trigger_event text,
+  p_conditions jsonb,
+  p_actions jsonb
+)
+RETURNS void AS $$
+DECLARE
+  v_item jsonb;
+  v_field text;
+  v_operator text;
+  v_has_hours boolean := false;
+BEGIN
+  IF jsonb_typeof(p_conditions) <> 'array' OR jsonb_typeof(p_actions) <> 'array' THEN
+    RAISE EXCEPTION 'Conditions and actions must be lists';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_conditions) LOOP
+    v_field := v_item->>'field';
+    v_operator := v_item->>'operator';
+
+    IF v_field IS NULL OR NOT (
+      v_field IN (
+        'category', 'priority', 'status', 'assignee', 'source', 'title', 'description', 'requester_email',
+        'comment', 'comment_by', 'hours_open', 'hours_in_status', 'hours_since_requester_reply'
+      )
+      OR v_field ~ '^custom\.[a-z][a-z0-9_]*$'
+    ) THEN
+      RAISE EXCEPTION 'Unknown condition field: %', COALESCE(v_field, '(none)');
+    END IF;
+
+    IF v_operator IS NULL OR v_operator NOT IN ('is', 'is_not', 'contains', 'not_contains', 'at_least', 'at_most') THEN
+      RAISE EXCEPTION 'Unknown condition operator: %', COALESCE(v_operator, '(none)');
+    END IF;
+
+    IF v_field LIKE 'hours_%' THEN
+      IF v_operator NOT IN ('at_least', 'at_most') OR COALESCE(v_item->>'value', '') !~ '^\d+(\.\d+)?$' THEN
+        RAISE EXCEPTION '% needs at least or at most a number of hours', v_field;
+      END IF;
+      v_has_hours := true;
+    ELSIF v_operator IN ('at_least', 'at_most') AND COALESCE(v_item->>'value', '') !~ '^-?\d+(\.\d+)?$' THEN
+      RAISE EXCEPTION '% needs a number to compare with', v_field;
+    END IF;
+  END LOOP;
+
+  IF p_trigger_event = 'time' AND NOT v_has_hours THEN
+    RAISE EXCEPTION 'A time-based rule needs an hours condition';
+  END IF;
+
+  IF jsonb_array_length(p_actions) = 0 THEN
+    RAISE EXCEPTION 'A rule needs at least one action';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_actions) LOOP
+    CASE v_item->>'type'
+      WHEN 'set_status', 'set_priority', 'set_category' THEN
+        IF COALESCE(v_item->>'value', '') = '' THEN
+          RAISE EXCEPTION '% needs a value', v_item->>'type';
+        END IF;
+      WHEN 'assign' THEN
+        NULL;
+      WHEN 'add_comment' THEN
+        IF TRIM(COALESCE(v_item->>'comment', '')) = '' THEN
+          RAISE EXCEPTION 'A comment action needs the comment text';
+        END IF;
+      WHEN 'notify' THEN
+        IF COALESCE(v_item->>'audience', '') NOT IN ('requester', 'agent') THEN
+          RAISE EXCEPTION 'A notification goes to the requester or the agent';
+        END IF;
+        IF TRIM(COALESCE(v_item->>'subject', '')) = '' OR TRIM(COALESCE(v_item->>'body', '')) = '' THEN
+          RAISE EXCEPTION 'A notification needs a subject and a body';
+        END IF;
+      ELSE
+        RAISE EXCEPTION 'Unknown action: %', COALESCE(v_item->>'type', '(none)');
+    END CASE;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION validate_automation_rule()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM validate_automation_definition(NEW.trigger_event, NEW.conditions, NEW.actions);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_automation_rule
+  BEFORE INSERT OR UPDATE ON automation_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_automation_rule();
+
+-- Function to tell whether the requester wrote a comment, in the app or by
+-- replying to a notification
+CREATE OR REPLACE FUNCTION requester_comment(p_comment ticket_comments, p_ticket tickets)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = p_comment.author_id AND lower(p.email) = lower(p_ticket.requester_email)
+  ) OR EXISTS (
+    SELECT 1 FROM email_messages m
+    WHERE m.comment_id = p_comment.id
+      AND m.direction = 'inbound'
+      AND lower(m.from_email) = lower(p_ticket.requester_email)
+  ) OR (
+    -- A reply being filed right now, before its message is recorded
+    p_comment.source = 'email'
+    AND current_setting('service_desk.email_from', true) = lower(p_ticket.requester_email)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Function to gather what a rule's conditions can look at
+CREATE OR REPLACE FUNCTION automation_ticket_facts(p_ticket_id uuid, p_comment_id uuid DEFAULT NULL)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'category', t.category_id,
+    'priority', t.priority_id,
+    'status', t.status_id,
+    'assignee', COALESCE(t.assignee_id::text, ''),
+    'source', t.source,
+    'title', t.title,
+    'description', t.description,
+    'requester_email', t.requester_email,
+    'custom_fields', t.custom_fields,
+    'comment', COALESCE(c.comment, ''),
+    'comment_by', CASE
+      WHEN c.id IS NULL THEN ''
+      WHEN requester_comment(c, t) THEN 'requester'
+      WHEN EXISTS (SELECT 1 FROM profiles WHERE id = c.author_id AND role IN ('agent', 'admin')) THEN 'agent'
+      ELSE ''
+    END,
+    'hours_open', round((EXTRACT(EPOCH FROM now() - t.created_at) / 3600)::numeric, 2),
+    'hours_in_status', round((EXTRACT(EPOCH FROM now() - COALESCE(
+      (SELECT max(e.created_at) FROM ticket_events e WHERE e.ticket_id = t.id AND e.event_type = 'status_changed'),
+      t.created_at
+    )) / 3600)::numeric, 2),
+    'hours_since_requester_reply', round((EXTRACT(EPOCH FROM now() - COALESCE(
+      (SELECT max(rc.created_at) FROM ticket_comments rc WHERE rc.ticket_id = t.id AND requester_comment(rc, t)),
+      t.created_at
+    )) / 3600)::numeric, 2)
+  )
+  FROM tickets t
+  LEFT JOIN ticket_comments c ON c.id = p_comment_id
+  WHERE t.id = p_ticket_id;
+$$ LANGUAGE sql STABLE;
+
+-- Function to check a fact against every condition
+CREATE OR REPLACE FUNCTION automation_conditions_match(p_conditions jsonb, p_facts jsonb)
+RETURNS boolean AS $$
+DECLARE
+  v_condition jsonb;
+  v_field text;
+  v_actual text;
+  v_expected text;
+  v_match boolean;
+BEGIN
+  IF p_facts IS NULL THEN
+    RETURN false;
+  END IF;
+
+  FOR v_condition IN SELECT value FROM jsonb_array_elements(p_conditions) LOOP
+    v_field := v_condition->>'field';
+    v_expected := lower(COALESCE(v_condition->>'value', ''));
+    v_actual := lower(COALESCE(
+      CASE
+        WHEN v_field LIKE 'custom.%' THEN p_facts->'custom_fields'->>substr(v_field, 8)
+        ELSE p_facts->>v_field
+      END,
+      ''
+    ));
+
+    v_match := CASE v_condition->>'operator'
+      WHEN 'is' THEN v_actual = v_expected
+      WHEN 'is_not' THEN v_actual <> v_expected
+      WHEN 'contains' THEN strpos(v_actual, v_expected) > 0
+      WHEN 'not_contains' THEN strpos(v_actual, v_expected) = 0
+      WHEN 'at_least' THEN v_actual ~ '^-?\d+(\.\d+)?$' AND v_actual::numeric >= v_expected::numeric
+      WHEN 'at_most' THEN v_actual ~ '^-?\d+(\.\d+)?$' AND v_actual::numeric <= v_expected::numeric
+      ELSE false
+    END;
+
+    IF NOT v_match THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function to apply a rule's actions to one ticket
+CREATE OR REPLACE FUNCTION apply_automation_actions(p_rule_name text, p_actions jsonb, p_ticket_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_actor text := 'Automation: ' || p_rule_name;
+  v_action jsonb;
+  v_before tickets;
+  v_after tickets;
+  v_status_id uuid;
+  v_priority_id uuid;
+  v_category_id uuid;
+  v_assign boolean := false;
+  v_assignee_id uuid;
+  v_text text;
+  v_agent agents;
+  v_changes jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_before FROM tickets WHERE id = p_ticket_id;
+  IF v_before.id IS NULL THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  PERFORM set_config('service_desk.actor', v_actor, true);
+
+  -- Comments first, so workflow moves that require one go through
+  FOR v_action IN SELECT value FROM jsonb_array_elements(p_actions) LOOP
+    CASE v_action->>'type'
+      WHEN 'add_comment' THEN
+        v_text := fill_ticket_placeholders(v_action->>'comment', p_ticket_id);
+        INSERT INTO ticket_comments (ticket_id, comment, author_name, author_id, is_internal, source)
+        VALUES (p_ticket_id, v_text, v_actor, NULL, COALESCE((v_action->>'is_internal')::boolean, false), 'automation');
+        v_changes := v_changes || jsonb_build_object(
+          'field', 'comment',
+          'to', v_text,
+          'is_internal', COALESCE((v_action->>'is_internal')::boolean, false)
+        );
+      WHEN 'set_status' THEN
+        v_status_id := (v_action->>'value')::uuid;
+      WHEN 'set_priority' THEN
+        v_priority_id := (v_action->>'value')::uuid;
+      WHEN 'set_category' THEN
+        v_category_id := (v_action->>'value')::uuid;
+      WHEN 'assign' THEN
+        v_assign := true;
+        v_assignee_id := NULLIF(v_action->>'value', '')::uuid;
+      ELSE
+        NULL;
+    END CASE;
+  END LOOP;
+
+  UPDATE tickets t
+  SET status_id = COALESCE(v_status_id, t.status_id),
+      priority_id = COALESCE(v_priority_id, t.priority_id),
+      category_id = COALESCE(v_category_id, t.category_id),
+      assignee_id = CASE WHEN v_assign THEN v_assignee_id ELSE t.assignee_id END
+  WHERE t.id = p_ticket_id
+    AND (
+      t.status_id IS DISTINCT FROM COALESCE(v_status_id, t.status_id)
+      OR t.priority_id IS DISTINCT FROM COALESCE(v_priority_id, t.priority_id)
+      OR t.category_id IS DISTINCT FROM COALESCE(v_category_id, t.category_id)
+      OR (v_assign AND t.assignee_id IS DISTINCT FROM v_assignee_id)
+    );
+
+  SELECT * INTO v_after FROM tickets WHERE id = p_ticket_id;
+
+  IF v_after.status_id IS DISTINCT FROM v_before.status_id THEN
+    v_changes := v_changes || jsonb_build_object(
+      'field', 'status',
+      'from', (SELECT name FROM statuses WHERE id = v_before.status_id),
+      'to', (SELECT name FROM statuses WHERE id = v_after.status_id)
+    );
+  END IF;
+  IF v_after.priority_id IS DISTINCT FROM v_before.priority_id THEN
+    v_changes := v_changes || jsonb_build_object(
+      'field', 'priority',
+      'from', (SELECT name FROM priorities WHERE id = v_before.priority_id),
+      'to', (SELECT name FROM priorities WHERE id = v_after.priority_id)
+    );
+  END IF;
+  IF v_after.category_id IS DISTINCT FROM v_before.category_id THEN
+    v_changes := v_changes || jsonb_build_object(
+      'field', 'category',
+      'from', (SELECT name FROM categories WHERE id = v_before.category_id),
+      'to', (SELECT name FROM categories WHERE id = v_after.category_id)
+    );
+  END IF;
+  IF v_after.assignee_id IS DISTINCT FROM v_before.assignee_id THEN
+    v_changes := v_changes || jsonb_build_object(
+      'field', 'assignee',
+      'from', (SELECT name FROM agents WHERE id = v_before.assignee_id),
+      'to', (SELECT name FROM agents WHERE id = v_after.assignee_id)
+    );
+  END IF;
+
+  -- Notifications go to whoever holds the ticket after the changes above
+  FOR v_action IN SELECT value FROM jsonb_array_elements(p_actions) WHERE value->>'type' = 'notify' LOOP
+    IF v_action->>'audience' = 'requester' THEN
+      v_text := v_after.requester_email;
+      INSERT INTO notifications (event, audience, ticket_id, recipient_email, recipient_name, subject, body)
+      SELECT 'automation', 'requester', p_ticket_id, lower(btrim(v_text)), v_after.requester_name,
+        v_action->>'subject', v_action->>'body'
+      WHERE NULLIF(btrim(v_text), '') IS NOT NULL;
+    ELSE
+      SELECT * INTO v_agent FROM agents WHERE id = v_after.assignee_id;
+      v_text := v_agent.email;
+      INSERT INTO notifications (event, audience, ticket_id, recipient_email, recipient_name, subject, body)
+      SELECT 'automation', 'agent', p_ticket_id, lower(btrim(v_text)), v_agent.name,
+        v_action->>'subject', v_action->>'body'
+      WHERE NULLIF(btrim(v_text), '') IS NOT NULL;
+    END IF;
+
+    IF NULLIF(btrim(v_text), '') IS NOT NULL THEN
+      v_changes := v_changes || jsonb_build_object(
+        'field', 'notification',
+        'to', lower(btrim(v_text)),
+        'subject', v_action->>'subject'
+      );
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('service_desk.actor', '', true);
+
+  RETURN v_changes;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to run the rules for an event. Changes made by rules don't fire
+-- rules of their own.
+CREATE OR REPLACE FUNCTION run_automations(p_event text, p_ticket_id uuid, p_comment_id uuid DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_rule automation_rules;
+  v_changes jsonb;
+BEGIN
+  IF current_setting('service_desk.automation', true) = 'on' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('service_desk.automation', 'on', true);
+
+  FOR v_rule IN
+    SELECT * FROM automation_rules
+    WHERE is_enabled AND trigger_event = p_event
+    ORDER BY position, created_at
+  LOOP
+    BEGIN
+      -- Facts are read per rule, so each sees what earlier rules changed
+      IF automation_conditions_match(v_rule.conditions, automation_ticket_facts(p_ticket_id, p_comment_id)) THEN
+        v_changes := apply_automation_actions(v_rule.name, v_rule.actions, p_ticket_id);
+
+        IF jsonb_array_length(v_changes) > 0 THEN
+          INSERT INTO automation_log (rule_id, rule_name, ticket_id, trigger_event, success, changes)
+          VALUES (v_rule.id, v_rule.name, p_ticket_id, p_event, true, v_changes);
+        END IF;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      INSERT INTO automation_log (rule_id, rule_name, ticket_id, trigger_event, success, error)
+      VALUES (v_rule.id, v_rule.name, p_ticket_id, p_event, false, SQLERRM);
+    END;
+  END LOOP;
+
+  PERFORM set_config('service_desk.automation', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the triggers below run event rules
+REVOKE EXECUTE ON FUNCTION run_automations(text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Triggers to run the event rules. They run as the owner, who alone may
+-- call run_automations
+CREATE OR REPLACE FUNCTION run_ticket_automations()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Auto-assigning a new ticket is part of creating it; the ticket_created
+  -- rules that follow see the assignee
+  IF TG_OP = 'UPDATE' AND current_setting('service_desk.auto_assigning', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM run_automations(CASE TG_OP WHEN 'INSERT' THEN 'ticket_created' ELSE 'ticket_updated' END, NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs after trigger_run_auto_assignment (triggers fire in name order), so
+-- rules for new tickets see the assignee
+CREATE TRIGGER trigger_run_automations
+  AFTER INSERT ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION run_ticket_automations();
+
+-- Only changes people see count as an update, not SLA or counter stamps
+CREATE TRIGGER trigger_run_automations_on_update
+  AFTER UPDATE ON tickets
+  FOR EACH ROW
+  WHEN (
+    OLD.status_id IS DISTINCT FROM NEW.status_id
+    OR OLD.priority_id IS DISTINCT FROM NEW.priority_id
+    OR OLD.category_id IS DISTINCT FROM NEW.category_id
+    OR OLD.assignee_id IS DISTINCT FROM NEW.assignee_id
+    OR OLD.title IS DISTINCT FROM NEW.title
+    OR OLD.description IS DISTINCT FROM NEW.description
+    OR OLD.custom_fields IS DISTINCT FROM NEW.custom_fields
+  )
+  EXECUTE FUNCTION run_ticket_automations();
+
+CREATE OR REPLACE FUNCTION run_comment_automations()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM run_automations('comment_added', NEW.ticket_id, NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_run_comment_automations
+  AFTER INSERT ON ticket_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION run_comment_automations();
+
+-- Function to run the time-based rules over open tickets. A rule acts on a
+-- ticket once until the ticket changes again.
+CREATE OR REPLACE FUNCTION run_time_automations()
+RETURNS integer AS $$
+DECLARE
+  v_rule automation_rules;
+  v_ticket tickets;
+  v_changes jsonb;
+  v_count integer := 0;
+BEGIN
+  PERFORM set_config('service_desk.automation', 'on', true);
+
+  FOR v_rule IN
+    SELECT * FROM automation_rules
+    WHERE is_enabled AND trigger_event = 'time'
+    ORDER BY position, created_at
+  LOOP
+    FOR v_ticket IN
+      SELECT t.* FROM tickets t
+      WHERE t.closed_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM automation_log l
+          WHERE l.rule_id = v_rule.id
+            AND l.ticket_id = t.id
+            AND l.success
+            AND l.created_at >= t.updated_at
+        )
+      ORDER BY t.created_at
+    LOOP
+      BEGIN
+        IF automation_conditions_match(v_rule.conditions, automation_ticket_facts(v_ticket.id)) THEN
+          v_changes := apply_automation_actions(v_rule.name, v_rule.actions, v_ticket.id);
+
+          INSERT INTO automation_log (rule_id, rule_name, ticket_id, trigger_event, success, changes)
+          VALUES (v_rule.id, v_rule.name, v_ticket.id, 'time', true, v_changes);
+          v_count := v_count + 1;
+        END IF;
+      EXCEPTION WHEN OTHERS THEN
+        INSERT INTO automation_log (rule_id, rule_name, ticket_id, trigger_event, success, error)
+        VALUES (v_rule.id, v_rule.name, v_ticket.id, 'time', false, SQLERRM);
+      END;
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('service_desk.automation', '', true);
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION run_time_automations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION run_time_automations() TO service_role;
+
+-- Function to dry-run a rule against the open tickets it matches. Every
+-- change is made and rolled back, so the results fail where a real run
+-- would. comment_added rules are checked against each ticket's latest
+-- comment.
+CREATE OR REPLACE FUNCTION test_automation_rule(
+  p_trigger_event text,
+  p_conditions jsonb,
+  p_actions jsonb,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (ticket_id uuid, ticket_number text, success boolean, error text, changes jsonb) AS $$
+#variable_conflict use_column
+DECLARE
+  v_ticket tickets;
+  v_comment_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can test automation rules';
+  END IF;
+
+  PERFORM validate_automation_definition(p_trigger_event, p_conditions, p_actions);
+  PERFORM set_config('service_desk.automation', 'on', true);
+
+  FOR v_ticket IN SELECT * FROM tickets t WHERE t.closed_at IS NULL ORDER BY t.created_at DESC LOOP
+    EXIT WHEN v_count >= p_limit;
+
+    v_comment_id := NULL;
+    IF p_trigger_event = 'comment_added' THEN
+      SELECT c.id INTO v_comment_id
+      FROM ticket_comments c
+      WHERE c.ticket_id = v_ticket.id
+      ORDER BY c.created_at DESC
+      LIMIT 1;
+    END IF;
+
+    CONTINUE WHEN NOT automation_conditions_match(p_conditions, automation_ticket_facts(v_ticket.id, v_comment_id));
+
+    v_count := v_count + 1;
+    ticket_id := v_ticket.id;
+    ticket_number := v_ticket.ticket_number;
+    success := false;
+    error := NULL;
+    changes := '[]'::jsonb;
+
+    BEGIN
+      changes := apply_automation_actions('Dry run', p_actions, v_ticket.id);
+      success := true;
+
+      -- Undo; variables keep their values through the rollback
+      RAISE EXCEPTION 'Dry run' USING ERRCODE = 'DRYRN';
+    EXCEPTION
+      WHEN SQLSTATE 'DRYRN' THEN
+        NULL;
+      WHEN OTHERS THEN
+        success := false;
+        error := SQLERRM;
+        changes := '[]'::jsonb;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+
+  PERFORM set_config('service_desk.automation', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Comments written under an actor name, such as a rule's, keep that name
+CREATE OR REPLACE FUNCTION set_comment_author()
+RETURNS TRIGGER AS $$
+DECLARE
+  author_profile profiles;
+BEGIN
+  -- Editing a comment keeps whoever wrote it
+  IF TG_OP = 'UPDATE' THEN
+    IF auth.uid() IS NOT NULL THEN
+      NEW.author_id := OLD.author_id;
+      NEW.author_name := OLD.author_name;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL OR NULLIF(current_setting('service_desk.actor', true), '') IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO author_profile FROM profiles WHERE id = auth.uid();
+  NEW.author_id := auth.uid();
+  NEW.author_name := COALESCE(NULLIF(author_profile.full_name, ''), author_profile.email, NEW.author_name);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Requesters hear about public comments from rules as well as from agents
+CREATE OR REPLACE FUNCTION notify_comment_added()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_ticket tickets;
+  v_agent agents;
+BEGIN
+  SELECT * INTO v_ticket FROM tickets WHERE id = NEW.ticket_id;
+
+  IF NOT NEW.is_internal AND (
+    NEW.source = 'automation'
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = NEW.author_id AND role IN ('agent', 'admin'))
+  ) THEN
+    PERFORM enqueue_notification(
+      'comment_added', 'requester', NEW.ticket_id, NEW.id, v_ticket.requester_email, v_ticket.requester_name
+    );
+  END IF;
+
+  IF v_ticket.assignee_id IS NOT NULL THEN
+    SELECT * INTO v_agent FROM agents WHERE id = v_ticket.assignee_id;
+    IF v_agent.profile_id IS DISTINCT FROM NEW.author_id OR NEW.author_id IS NULL THEN
+      PERFORM enqueue_notification('comment_added', 'agent', NEW.ticket_id, NEW.id, v_agent.email, v_agent.name);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Seed the stale-ticket rule, switched off until an admin has tested it
+INSERT INTO automation_rules (name, description, trigger_event, conditions, actions, is_enabled)
+SELECT
+  'Close waiting tickets after 72 hours',
+  'Closes tickets left waiting on the requester for three days without a reply',
+  'time',
+  jsonb_build_array(
+    jsonb_build_object('field', 'status', 'operator', 'is', 'value', s.id),
+    jsonb_build_object('field', 'hours_in_status', 'operator', 'at_least', 'value', '72'),
+    jsonb_build_object('field', 'hours_since_requester_reply', 'operator', 'at_least', 'value', '72')
+  ),
+  jsonb_build_array(
+    jsonb_build_object(
+      'type', 'add_comment',
+      'comment', E'Hi {{requester_name}},\n\nWe haven''t heard back in three days, so we''re closing {{ticket_number}}. Reply to reopen it any time.',
+      'is_internal', false
+    ),
+    jsonb_build_object('type', 'set_status', 'value', c.id)
+  ),
+  false
+FROM statuses s, statuses c
+WHERE s.name = 'Waiting' AND c.name = 'Closed'
+ON CONFLICT (name) DO NOTHING;
+
+-- Seed the rule that keeps the closing message's promise. It's on from the
+-- start, since requesters are told to reply to closed tickets
+INSERT INTO automation_rules (name, description, trigger_event, conditions, actions, is_enabled)
+SELECT
+  'Reopen closed tickets when the requester replies',
+  'Moves a closed ticket back to Open when the requester comments on it',
+  'comment_added',
+  jsonb_build_array(
+    jsonb_build_object('field', 'status', 'operator', 'is', 'value', c.id),
+    jsonb_build_object('field', 'comment_by', 'operator', 'is', 'value', 'requester')
+  ),
+  jsonb_build_array(
+    jsonb_build_object('type', 'set_status', 'value', o.id)
+  ),
+  true
+FROM statuses c, statuses o
+WHERE c.name = 'Closed' AND o.name = 'Open'
+ON CONFLICT (name) DO NOTHING;
+
+-- Check the time-based rules every 15 minutes where pg_cron is installed
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    EXECUTE $cron$SELECT cron.schedule('run-time-automations', '*/15 * * * *', 'SELECT run_time_automations()')$cron$;
+  END IF;
+END;
+$$;
+
+-- Keep the admin console in step with edits
+ALTER PUBLICATION supabase_realtime ADD TABLE automation_rules;
@@ -0,0 +1,270 @@
+/*
+  # Stale Ticket Escalation
+
+  1. New Tables
+    - `escalation_policies`
+      - `id` (uuid, primary key)
+      - `priority_id` (uuid, foreign key, unique) - Tickets at this priority
+        follow the policy
+      - `idle_hours` (numeric) - How long a ticket may go without agent
+        activity before it is escalated
+      - `escalate_to_priority_id` (uuid, foreign key, nullable) - Priority
+        to bump to; NULL leaves the priority alone
+      - `reassign_to_id` (uuid, foreign key, nullable) - Agent to hand the
+        ticket to; NULL leaves the assignee alone
+      - `is_enabled` (boolean)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Modified Tables
+    - `tickets`
+      - `last_agent_activity_at` (timestamptz, nullable) - When an agent
+        last commented on or changed the ticket
+      - `escalated_at` (timestamptz, nullable) - Set by an escalation and
+        cleared by the next agent activity, so the list can flag tickets
+        still waiting for someone to pick them up
+
+  3. New Functions
+    - `escalate_stale_tickets(p_dry_run)` - Escalates every open ticket that
+      has been idle for longer than its priority's policy allows and
+      returns a row per ticket with what changed, or why it couldn't. With
+      `p_dry_run` every change is made and then rolled back
+
+  4. Security
+    - Enable RLS on `escalation_policies`; agents can read them and admins
+      manage them
+    - `escalate_stale_tickets` is only callable by the service role; the
+      escalate-tickets function runs it on a schedule
+
+  5. Important Notes
+    - Idle time runs from the latest of the ticket being filed, the last
+      agent activity and the last escalation, so a ticket bumped to a new
+      priority waits out that priority's period before going up again
+    - Tickets waiting on the requester (a paused status) or already
+      resolved are left alone
+    - Each escalation posts an internal note saying what changed and why,
+      under the name "Escalation"
+*/
+
+-- Create escalation_policies table
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  priority_id uuid REFERENCES priorities(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  idle_hours numeric NOT NULL CHECK (idle_hours > 0),
+  escalate_to_priority_id uuid REFERENCES priorities(id) ON DELETE SET NULL,
+  reassign_to_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+  is_enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER trigger_update_escalation_policy_timestamp
+  BEFORE UPDATE ON escalation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Track agent activity on tickets
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS last_agent_activity_at timestamptz;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS escalated_at timestamptz;
+
+UPDATE tickets t
+SET last_agent_activity_at = activity.at
+FROM (
+  SELECT ticket_id, max(created_at) AS at
+  FROM (
+    SELECT e.ticket_id, e.created_at
+    FROM ticket_events e
+    JOIN profiles p ON p.id = e.actor_id AND p.role IN ('agent', 'admin')
+    UNION ALL
+    SELECT c.ticket_id, c.created_at
+    FROM ticket_comments c
+    JOIN profiles p ON p.id = c.author_id AND p.role IN ('agent', 'admin')
+  ) AS agent_activity
+  GROUP BY ticket_id
+) AS activity
+WHERE activity.ticket_id = t.id;
+
+-- Enable RLS
+ALTER TABLE escalation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view escalation policies"
+  ON escalation_policies FOR SELECT
+  TO authenticated
+  USING (is_agent());
+
+CREATE POLICY "Admins can create escalation policies"
+  ON escalation_policies FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update escalation policies"
+  ON escalation_policies FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete escalation policies"
+  ON escalation_policies FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Trigger to note agents changing a ticket. The escalation itself runs as
+-- the service role, so it doesn't count.
+CREATE OR REPLACE FUNCTION track_agent_ticket_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF is_agent() AND (
+    OLD.status_id IS DISTINCT FROM NEW.status_id
+    OR OLD.priority_id IS DISTINCT FROM NEW.priority_id
+    OR OLD.category_id IS DISTINCT FROM NEW.category_id
+    OR OLD.assignee_id IS DISTINCT FROM NEW.assignee_id
+    OR OLD.title IS DISTINCT FROM NEW.title
+    OR OLD.description IS DISTINCT FROM NEW.description
+    OR OLD.custom_fields IS DISTINCT FROM NEW.custom_fields
+  ) THEN
+    NEW.last_agent_activity_at := now();
+    NEW.escalated_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_track_agent_ticket_activity
+  BEFORE UPDATE ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION track_agent_ticket_activity();
+
+-- Trigger to note agents commenting, internal notes included
+CREATE OR REPLACE FUNCTION track_agent_comment_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = NEW.author_id AND role IN ('agent', 'admin')) THEN
+    UPDATE tickets
+    SET last_agent_activity_at = NEW.created_at,
+        escalated_at = NULL
+    WHERE id = NEW.ticket_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_track_agent_comment_activity
+  AFTER INSERT ON ticket_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION track_agent_comment_activity();
+
+-- Function to escalate the tickets that have sat idle too long
+CREATE OR REPLACE FUNCTION escalate_stale_tickets(p_dry_run boolean DEFAULT false)
+RETURNS TABLE (ticket_id uuid, ticket_number text, success boolean, error text, changes jsonb) AS $$
+#variable_conflict use_column
+DECLARE
+  v_actor text := 'Escalation';
+  v_due record;
+  v_ticket tickets;
+  v_policy escalation_policies;
+  v_after tickets;
+  v_idle_since timestamptz;
+  v_note text;
+BEGIN
+  FOR v_due IN
+    SELECT t.id AS ticket_id, p.id AS policy_id
+    FROM tickets t
+    JOIN escalation_policies p ON p.priority_id = t.priority_id AND p.is_enabled
+    WHERE t.closed_at IS NULL
+      AND t.resolved_at IS NULL
+      AND t.paused_at IS NULL
+      AND (p.escalate_to_priority_id IS NOT NULL OR p.reassign_to_id IS NOT NULL)
+      AND GREATEST(t.created_at, t.last_agent_activity_at, t.escalated_at)
+        <= now() - p.idle_hours * interval '1 hour'
+    ORDER BY t.created_at
+    FOR UPDATE OF t SKIP LOCKED
+  LOOP
+    SELECT * INTO v_ticket FROM tickets t WHERE t.id = v_due.ticket_id;
+    SELECT * INTO v_policy FROM escalation_policies p WHERE p.id = v_due.policy_id;
+
+    ticket_id := v_ticket.id;
+    ticket_number := v_ticket.ticket_number;
+    success := false;
+    error := NULL;
+    changes := '[]'::jsonb;
+    v_idle_since := GREATEST(v_ticket.created_at, v_ticket.last_agent_activity_at, v_ticket.escalated_at);
+
+    BEGIN
+      PERFORM set_config('service_desk.actor', v_actor, true);
+
+      UPDATE tickets t
+      SET priority_id = COALESCE(v_policy.escalate_to_priority_id, t.priority_id),
+          assignee_id = COALESCE(v_policy.reassign_to_id, t.assignee_id),
+          escalated_at = now()
+      WHERE t.id = v_ticket.id
+      RETURNING * INTO v_after;
+
+      IF v_after.priority_id IS DISTINCT FROM v_ticket.priority_id THEN
+        changes := changes || jsonb_build_object(
+          'field', 'priority',
+          'from', (SELECT name FROM priorities WHERE id = v_ticket.priority_id),
+          'to', (SELECT name FROM priorities WHERE id = v_after.priority_id)
+        );
+      END IF;
+      IF v_after.assignee_id IS DISTINCT FROM v_ticket.assignee_id THEN
+        changes := changes || jsonb_build_object(
+          'field', 'assignee',
+          'from', (SELECT name FROM agents WHERE id = v_ticket.assignee_id),
+          'to', (SELECT name FROM agents WHERE id = v_after.assignee_id)
+        );
+      END IF;
+
+      v_note := format(
+        'Escalated: no agent activity for %s hours (the %s priority allows %s).',
+        floor(EXTRACT(EPOCH FROM now() - v_idle_since) / 3600),
+        (SELECT name FROM priorities WHERE id = v_ticket.priority_id),
+        v_policy.idle_hours
+      );
+      IF jsonb_array_length(changes) = 0 THEN
+        v_note := v_note || ' The policy''s changes were already in place.';
+      ELSE
+        v_note := v_note || E'\n' || (
+          SELECT string_agg(
+            format('%s: %s → %s', initcap(c->>'field'), COALESCE(c->>'from', 'Unassigned'), COALESCE(c->>'to', 'Unassigned')),
+            E'\n'
+          )
+          FROM jsonb_array_elements(changes) AS c
+        );
+      END IF;
+
+      INSERT INTO ticket_comments (ticket_id, comment, author_name, author_id, is_internal, source)
+      VALUES (v_ticket.id, v_note, v_actor, NULL, true, 'automation');
+      changes := changes || jsonb_build_object('field', 'comment', 'to', v_note, 'is_internal', true);
+
+      PERFORM set_config('service_desk.actor', '', true);
+      success := true;
+
+      -- Undo the dry run; variables keep their values through the rollback
+      IF p_dry_run THEN
+        RAISE EXCEPTION 'Dry run' USING ERRCODE = 'DRYRN';
+      END IF;
+    EXCEPTION
+      WHEN SQLSTATE 'DRYRN' THEN
+        NULL;
+      WHEN OTHERS THEN
+        success := false;
+        error := SQLERRM;
+        changes := '[]'::jsonb;
+    END;
+
+    PERFORM set_config('service_desk.actor', '', true);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION escalate_stale_tickets(boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION escalate_stale_tickets(boolean) TO service_role;
+
+-- Seed a policy per priority, switched off until an admin turns them on
+INSERT INTO escalation_policies (priority_id, idle_hours, escalate_to_priority_id, is_enabled)
+SELECT p.id, hours.idle_hours, next_p.id, false
+FROM (VALUES ('Low', 'Medium', 72), ('Medium', 'High', 48), ('High', 'Critical', 24)) AS hours(name, next_name, idle_hours)
+JOIN priorities p ON p.name = hours.name
+JOIN priorities next_p ON next_p.name = hours.next_name
+ON CONFLICT (priority_id) DO NOTHING;